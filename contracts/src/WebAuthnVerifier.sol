@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Base64} from "@solady/utils/Base64.sol";
+
+/**
+ * @notice bb contract로 생성한 UltraPlonk verifier (src/generated/UltraVerifier.sol)
+ * @dev 검증 실패 시 false 대신 revert 하므로 호출부에서 try/catch 처리
+ */
+interface IUltraVerifier {
+    function verify(bytes calldata proof, bytes32[] calldata publicInputs) external view returns (bool);
+}
+
+/**
+ * @title WebAuthnVerifier
+ * @notice noir-webauthn 회로 verifier를 SessionDelegate의 IVerifier.verify(bytes, uint256[])에 맞춘 어댑터
+ * @dev proof = abi.encode(bytes ultraPlonkProof, bytes32[] circuitPublicInputs)
+ *      publicInputs = [challengeHash, pubKeyX, pubKeyY]
+ *      회로 공개 입력의 challenge / 공개키가 publicInputs와 일치하는지 확인 후 UltraPlonk 검증
+ *      (오프셋은 ui/src/lib/circuitInputs.ts decodePublicInputs와 동일)
+ */
+contract WebAuthnVerifier {
+    uint256 public constant CIRCUIT_VERSION = 1;
+    uint256 public constant CIRCUIT_PUBLIC_INPUTS_LEN = 2872;
+
+    // 회로 공개 입력 인덱스 (blobs 시작 71 + WebAuthnBlob 내부 오프셋)
+    uint256 private constant VERSION_INDEX = 0;
+    uint256 private constant CHALLENGE_INDEX = 71 + 298;
+    uint256 private constant CHALLENGE_LEN = 43; // base64url(bytes32), padding 없음
+    uint256 private constant PUB_KEY_X_INDEX = 71 + 407;
+    uint256 private constant PUB_KEY_Y_INDEX = 71 + 440;
+    uint256 private constant SUCCESS_INDEX = CIRCUIT_PUBLIC_INPUTS_LEN - 1;
+
+    IUltraVerifier public immutable ultraVerifier;
+
+    constructor(address _ultraVerifier) {
+        ultraVerifier = IUltraVerifier(_ultraVerifier);
+    }
+
+    /**
+     * @notice WebAuthn 서명 ZK 증명 검증
+     * @param proof abi.encode(bytes ultraPlonkProof, bytes32[] circuitPublicInputs)
+     * @param publicInputs [challengeHash, pubKeyX, pubKeyY]
+     * @return 증명이 유효하고 공개 입력이 일치하면 true
+     */
+    function verify(bytes calldata proof, uint256[] calldata publicInputs) external view returns (bool) {
+        if (publicInputs.length != 3) {
+            return false;
+        }
+
+        (bytes memory ultraPlonkProof, bytes32[] memory circuitInputs) = abi.decode(proof, (bytes, bytes32[]));
+        if (!_matchesPublicInputs(circuitInputs, publicInputs)) {
+            return false;
+        }
+
+        try ultraVerifier.verify(ultraPlonkProof, circuitInputs) returns (bool valid) {
+            return valid;
+        } catch {
+            return false;
+        }
+    }
+
+    function _matchesPublicInputs(
+        bytes32[] memory circuitInputs,
+        uint256[] calldata publicInputs
+    ) internal pure returns (bool) {
+        if (circuitInputs.length != CIRCUIT_PUBLIC_INPUTS_LEN) {
+            return false;
+        }
+        if (uint256(circuitInputs[VERSION_INDEX]) != CIRCUIT_VERSION || uint256(circuitInputs[SUCCESS_INDEX]) != 1) {
+            return false;
+        }
+
+        // 회로의 공개키 바이트 배열 → uint256
+        (bool okX, uint256 pubKeyX) = _readUint256(circuitInputs, PUB_KEY_X_INDEX);
+        (bool okY, uint256 pubKeyY) = _readUint256(circuitInputs, PUB_KEY_Y_INDEX);
+        if (!okX || !okY || pubKeyX != publicInputs[1] || pubKeyY != publicInputs[2]) {
+            return false;
+        }
+
+        // clientDataJSON의 challenge = base64url(challengeHash)
+        bytes memory challenge = bytes(Base64.encode(abi.encodePacked(bytes32(publicInputs[0])), true, true));
+        if (challenge.length != CHALLENGE_LEN) {
+            return false;
+        }
+        for (uint256 i = 0; i < CHALLENGE_LEN; i++) {
+            if (uint256(circuitInputs[CHALLENGE_INDEX + i]) != uint8(challenge[i])) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    function _readUint256(bytes32[] memory circuitInputs, uint256 index) internal pure returns (bool, uint256) {
+        uint256 value;
+        for (uint256 i = 0; i < 32; i++) {
+            uint256 b = uint256(circuitInputs[index + i]);
+            if (b > type(uint8).max) {
+                return (false, 0);
+            }
+            value = (value << 8) | b;
+        }
+        return (true, value);
+    }
+}
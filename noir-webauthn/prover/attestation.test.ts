@@ -0,0 +1,337 @@
+import { expect, test } from "bun:test";
+import * as x509 from "@peculiar/x509";
+import type { RegistrationResponseJSON } from "@simplewebauthn/types";
+import { decode as cborDecode, encode as cborEncode } from "cbor-x";
+import { createHash, X509Certificate } from "crypto";
+import {
+    enforceAttestationPolicy,
+    getAttestationRootCertificates,
+    getAuthenticatorModel,
+    verifyRegistrationAttestation,
+} from "../../ui/src/lib/attestation";
+import u2fFixture from "./fixtures/attestation/fido-u2f.json";
+import packedFixture from "./fixtures/attestation/packed.json";
+
+const ZERO_AAGUID = "00000000-0000-0000-0000-000000000000";
+
+function rootSubjects(roots: string[]): string[] {
+    return roots.map(base64 => {
+        const root = new X509Certificate(Buffer.from(base64, "base64"));
+        // bundled roots are self-signed trust anchors
+        expect(root.verify(root.publicKey)).toBe(true);
+        return root.subject.split("\n").join(", ");
+    });
+}
+
+test("MDS3 roots are bundled for YubiKey and Windows Hello (TPM)", () => {
+    expect(rootSubjects(getAttestationRootCertificates("packed", "cb69481e-8ff7-4039-93ec-0a2729a154a8")))
+        .toEqual(["CN=Yubico U2F Root CA Serial 457200631"]);
+    expect(getAuthenticatorModel("cb69481e-8ff7-4039-93ec-0a2729a154a8")).toBe("YubiKey 5 Series");
+
+    const [tpmRoot] = rootSubjects(getAttestationRootCertificates("tpm", "08987058-cadc-4b81-b6e1-30de50dcbe96"));
+    expect(tpmRoot).toContain("CN=Microsoft TPM Root Certificate Authority 2014");
+});
+
+test("apple and fido-u2f roots are resolved by format for the zero AAGUID", () => {
+    expect(rootSubjects(getAttestationRootCertificates("apple", ZERO_AAGUID)))
+        .toEqual(["CN=Apple WebAuthn Root CA, O=Apple Inc., ST=California"]);
+    expect(rootSubjects(getAttestationRootCertificates("fido-u2f", ZERO_AAGUID)))
+        .toEqual(["CN=Yubico U2F Root CA Serial 457200631"]);
+    expect(getAttestationRootCertificates("packed", ZERO_AAGUID)).toEqual([]);
+    expect(getAttestationRootCertificates("none", "bada5566-a7aa-401f-bd96-45619a55120d")).toEqual([]);
+});
+
+/**
+ * Registration responses per attestation format
+ * fido-u2f / packed are real device captures (fixtures/attestation/*.json); ES256 apple and TPM
+ * captures are not available, so those are built here with a test CA (chains are never trusted)
+ */
+const RP_ID_HASH = createHash("sha256").update("localhost").digest();
+const WINDOWS_HELLO_AAGUID = "08987058-cadc-4b81-b6e1-30de50dcbe96";
+const ECDSA_P256 = { name: "ECDSA", namedCurve: "P-256" };
+const ECDSA_SHA256 = { name: "ECDSA", hash: "SHA-256" };
+
+function clientDataJSON(challenge: string): string {
+    return Buffer.from(JSON.stringify({ type: "webauthn.create", challenge, origin: "http://localhost" })).toString("base64url");
+}
+
+function registrationResponse(attestationObject: Uint8Array, clientData: string): RegistrationResponseJSON {
+    const id = "dGVzdC1jcmVkZW50aWFs";
+    return {
+        id,
+        rawId: id,
+        type: "public-key",
+        clientExtensionResults: {},
+        response: { attestationObject: Buffer.from(attestationObject).toString("base64url"), clientDataJSON: clientData },
+    };
+}
+
+// Re-encodes the attestation object with a modified attStmt
+function withAttStmt(response: RegistrationResponseJSON, change: (attStmt: Record<string, unknown>) => void): RegistrationResponseJSON {
+    const attestationObject = cborDecode(Buffer.from(response.response.attestationObject, "base64url"));
+    change(attestationObject.attStmt);
+    return registrationResponse(cborEncode(attestationObject), response.response.clientDataJSON);
+}
+
+function withClientData(response: RegistrationResponseJSON, challenge: string): RegistrationResponseJSON {
+    return { ...response, response: { ...response.response, clientDataJSON: clientDataJSON(challenge) } };
+}
+
+async function rawPublicKey(key: CryptoKey): Promise<Buffer> {
+    return Buffer.from(await crypto.subtle.exportKey("raw", key));
+}
+
+// rpIdHash | flags (UP, UV, AT) | signCount | AAGUID | credentialId | COSE_Key (EC2, ES256, P-256)
+async function attestedAuthData(credentialKey: CryptoKey, aaguid: string): Promise<Buffer> {
+    const point = await rawPublicKey(credentialKey);
+    const credentialId = Buffer.from("test-credential");
+    const coseKey = cborEncode(new Map<number, number | Buffer>([
+        [1, 2], [3, -7], [-1, 1], [-2, point.subarray(1, 33)], [-3, point.subarray(33)],
+    ]));
+    return Buffer.concat([
+        RP_ID_HASH,
+        Buffer.from([0x45, 0, 0, 0, 0]),
+        Buffer.from(aaguid.replace(/-/g, ""), "hex"),
+        Buffer.from([0, credentialId.length]),
+        credentialId,
+        coseKey,
+    ]);
+}
+
+async function clientDataHash(clientData: string): Promise<Buffer> {
+    return createHash("sha256").update(Buffer.from(clientData, "base64url")).digest();
+}
+
+// WebCrypto r || s -> DER ECDSA-Sig-Value
+function derSignature(raw: ArrayBuffer): Buffer {
+    const integer = (bytes: Buffer) => {
+        let value = bytes;
+        while (value.length > 1 && value[0] === 0 && value[1] < 0x80) value = value.subarray(1);
+        if (value[0] >= 0x80) value = Buffer.concat([Buffer.from([0]), value]);
+        return Buffer.concat([Buffer.from([0x02, value.length]), value]);
+    };
+    const body = Buffer.concat([integer(Buffer.from(raw.slice(0, 32))), integer(Buffer.from(raw.slice(32)))]);
+    return Buffer.concat([Buffer.from([0x30, body.length]), body]);
+}
+
+async function testCa() {
+    const keys = await crypto.subtle.generateKey(ECDSA_P256, true, ["sign", "verify"]) as CryptoKeyPair;
+    const certificate = await x509.X509CertificateGenerator.createSelfSigned({
+        serialNumber: "01",
+        name: "CN=Attestation Test Root CA",
+        notBefore: new Date(Date.now() - 86_400_000),
+        notAfter: new Date(Date.now() + 365 * 86_400_000),
+        signingAlgorithm: ECDSA_SHA256,
+        keys,
+        extensions: [new x509.BasicConstraintsExtension(true, undefined, true)],
+    });
+    return { keys, certificate };
+}
+
+async function issue(ca: Awaited<ReturnType<typeof testCa>>, publicKey: CryptoKey, subject: string, extensions: x509.Extension[]) {
+    const certificate = await x509.X509CertificateGenerator.create({
+        serialNumber: "02",
+        subject,
+        issuer: ca.certificate.subject,
+        notBefore: new Date(Date.now() - 86_400_000),
+        notAfter: new Date(Date.now() + 365 * 86_400_000),
+        signingAlgorithm: ECDSA_SHA256,
+        publicKey,
+        signingKey: ca.keys.privateKey,
+        extensions,
+    });
+    return new Uint8Array(certificate.rawData);
+}
+
+// apple: leaf certificate for the credential key with nonce = SHA-256(authData || clientDataHash)
+// nonceExtension: DER value of the 1.2.840.113635.100.8.2 extension, SEQUENCE { [1] { OCTET STRING nonce } } by default
+async function appleAttestation(
+    challenge: string,
+    leafKey?: CryptoKey,
+    nonceExtension = (nonce: Buffer) => Buffer.concat([Buffer.from("3024a1220420", "hex"), nonce]),
+) {
+    const ca = await testCa();
+    const credential = await crypto.subtle.generateKey(ECDSA_P256, true, ["sign", "verify"]) as CryptoKeyPair;
+    const authData = await attestedAuthData(credential.publicKey, ZERO_AAGUID);
+    const clientData = clientDataJSON(challenge);
+    const nonce = createHash("sha256").update(Buffer.concat([authData, await clientDataHash(clientData)])).digest();
+
+    const leaf = await issue(ca, leafKey ?? credential.publicKey, "CN=Apple Attestation Test Leaf", [
+        new x509.Extension("1.2.840.113635.100.8.2", false, nonceExtension(nonce)),
+    ]);
+    const attestationObject = cborEncode({
+        fmt: "apple",
+        attStmt: { x5c: [leaf, new Uint8Array(ca.certificate.rawData)] },
+        authData,
+    });
+    return registrationResponse(attestationObject, clientData);
+}
+
+// tpm: ECC pubArea for the credential key, certInfo certifying it, signed by an AIK certificate
+// eccParameters: TPMS_ECC_PARMS (symmetric, scheme, curveID, kdf), all NULL with NIST P-256 by default
+async function tpmAttestation(challenge: string, eccParameters = "0010001000030010") {
+    const ca = await testCa();
+    const aik = await crypto.subtle.generateKey(ECDSA_P256, true, ["sign", "verify"]) as CryptoKeyPair;
+    const credential = await crypto.subtle.generateKey(ECDSA_P256, true, ["sign", "verify"]) as CryptoKeyPair;
+    const point = await rawPublicKey(credential.publicKey);
+    const authData = await attestedAuthData(credential.publicKey, WINDOWS_HELLO_AAGUID);
+    const clientData = clientDataJSON(challenge);
+
+    // TPMT_PUBLIC: ECC, nameAlg SHA-256, no policy, ECC parameters, unique = (x, y)
+    const pubArea = Buffer.concat([
+        Buffer.from("0023000b000604720000" + eccParameters, "hex"),
+        Buffer.from([0, 32]), point.subarray(1, 33),
+        Buffer.from([0, 32]), point.subarray(33),
+    ]);
+    const extraData = createHash("sha256").update(Buffer.concat([authData, await clientDataHash(clientData)])).digest();
+    const name = Buffer.concat([Buffer.from("000b", "hex"), createHash("sha256").update(pubArea).digest()]);
+    // TPMS_ATTEST: magic, TPM_ST_ATTEST_CERTIFY, qualifiedSigner, extraData, clockInfo, firmwareVersion, name, qualifiedName
+    const certInfo = Buffer.concat([
+        Buffer.from("ff5443478017", "hex"),
+        Buffer.from([0, 0]),
+        Buffer.from([0, 32]), extraData,
+        Buffer.alloc(17),
+        Buffer.alloc(8),
+        Buffer.from([0, name.length]), name,
+        Buffer.from([0, 0]),
+    ]);
+
+    const aikCertificate = await issue(ca, aik.publicKey, "", [
+        new x509.BasicConstraintsExtension(false, undefined, true),
+        new x509.ExtendedKeyUsageExtension(["2.23.133.8.3"]),
+        new x509.Extension("2.5.29.17", true, Buffer.from("3000", "hex")),
+        new x509.Extension("1.3.6.1.4.1.45724.1.1.4", false,
+            Buffer.concat([Buffer.from("0410", "hex"), Buffer.from(WINDOWS_HELLO_AAGUID.replace(/-/g, ""), "hex")])),
+    ]);
+    const sig = derSignature(await crypto.subtle.sign(ECDSA_SHA256, aik.privateKey, certInfo));
+    const attestationObject = cborEncode({
+        fmt: "tpm",
+        attStmt: { ver: "2.0", alg: -7, x5c: [aikCertificate, new Uint8Array(ca.certificate.rawData)], sig, certInfo, pubArea },
+        authData,
+    });
+    return registrationResponse(attestationObject, clientData);
+}
+
+test("fido-u2f: YubiKey attestation verifies and chains to the bundled Yubico root", async () => {
+    const response = u2fFixture.response as RegistrationResponseJSON;
+    expect(await verifyRegistrationAttestation(response)).toEqual({
+        fmt: "fido-u2f",
+        attestationType: "Basic",
+        aaguid: ZERO_AAGUID,
+        authenticatorModel: "Unknown Authenticator",
+        trusted: true,
+    });
+
+    await expect(verifyRegistrationAttestation(withClientData(response, "tampered"))).rejects.toThrow("fido-u2f attestation 서명이 올바르지 않습니다");
+    const flipped = withAttStmt(response, attStmt => {
+        const sig = new Uint8Array(attStmt.sig as Uint8Array);
+        sig[sig.length - 1] ^= 0x01;
+        attStmt.sig = sig;
+    });
+    await expect(verifyRegistrationAttestation(flipped)).rejects.toThrow("fido-u2f attestation 서명이 올바르지 않습니다");
+});
+
+test("packed: Feitian attestation verifies but its root is not bundled", async () => {
+    const response = packedFixture.response as RegistrationResponseJSON;
+    expect(await verifyRegistrationAttestation(response)).toMatchObject({
+        fmt: "packed",
+        attestationType: "Basic",
+        aaguid: "42383245-4437-3343-3846-423445354132",
+        trusted: false,
+    });
+
+    await expect(verifyRegistrationAttestation(withClientData(response, "tampered"))).rejects.toThrow("packed attestation 서명이 올바르지 않습니다");
+    // leaf directly followed by the root: the intermediate that signed the leaf is missing
+    const broken = withAttStmt(response, attStmt => {
+        const [leaf, , root] = attStmt.x5c as Uint8Array[];
+        attStmt.x5c = [leaf, root];
+    });
+    await expect(verifyRegistrationAttestation(broken)).rejects.toThrow("체인 서명이 올바르지 않습니다");
+});
+
+test("apple: nonce and credential key are bound to the leaf certificate", async () => {
+    const response = await appleAttestation("apple-challenge");
+    expect(await verifyRegistrationAttestation(response)).toMatchObject({
+        fmt: "apple",
+        attestationType: "AnonCA",
+        aaguid: ZERO_AAGUID,
+        trusted: false,
+    });
+
+    await expect(verifyRegistrationAttestation(withClientData(response, "tampered"))).rejects.toThrow("nonce가 일치하지 않습니다");
+    const otherKey = await crypto.subtle.generateKey(ECDSA_P256, true, ["sign", "verify"]) as CryptoKeyPair;
+    await expect(verifyRegistrationAttestation(await appleAttestation("apple-challenge", otherKey.publicKey)))
+        .rejects.toThrow("자격증명 키와 일치하지 않습니다");
+});
+
+test("apple: the nonce extension is parsed as DER rather than taken from its last 32 bytes", async () => {
+    // nonce in an OCTET STRING under the wrong context tag
+    const wrongTag = await appleAttestation("apple-challenge", undefined,
+        nonce => Buffer.concat([Buffer.from("3024a2220420", "hex"), nonce]));
+    await expect(verifyRegistrationAttestation(wrongTag)).rejects.toThrow("DER tag가 올바르지 않습니다 (0xa1");
+
+    // the right nonce bytes at the end of a longer OCTET STRING
+    const padded = await appleAttestation("apple-challenge", undefined,
+        nonce => Buffer.concat([Buffer.from("3026a1240422ffff", "hex"), nonce]));
+    await expect(verifyRegistrationAttestation(padded)).rejects.toThrow("nonce 길이가 올바르지 않습니다");
+
+    const trailing = await appleAttestation("apple-challenge", undefined,
+        nonce => Buffer.concat([Buffer.from("3026a1220420", "hex"), nonce, Buffer.from("0500", "hex")]));
+    await expect(verifyRegistrationAttestation(trailing)).rejects.toThrow("불필요한 데이터");
+});
+
+test("tpm: certInfo certifies the credential key and is signed by the AIK", async () => {
+    const response = await tpmAttestation("tpm-challenge");
+    expect(await verifyRegistrationAttestation(response)).toEqual({
+        fmt: "tpm",
+        attestationType: "AttCA",
+        aaguid: WINDOWS_HELLO_AAGUID,
+        authenticatorModel: "Windows Hello Hardware Authenticator",
+        trusted: false,
+    });
+
+    await expect(verifyRegistrationAttestation(withClientData(response, "tampered"))).rejects.toThrow("extraData가 일치하지 않습니다");
+    const flipped = withAttStmt(response, attStmt => {
+        const sig = new Uint8Array(attStmt.sig as Uint8Array);
+        sig[sig.length - 1] ^= 0x01;
+        attStmt.sig = sig;
+    });
+    await expect(verifyRegistrationAttestation(flipped)).rejects.toThrow("TPM attestation 서명이 올바르지 않습니다");
+    const otherPubArea = withAttStmt(response, attStmt => {
+        const pubArea = new Uint8Array(attStmt.pubArea as Uint8Array);
+        pubArea[pubArea.length - 1] ^= 0x01;
+        attStmt.pubArea = pubArea;
+    });
+    await expect(verifyRegistrationAttestation(otherPubArea)).rejects.toThrow("pubArea 공개키가 자격증명 키와 일치하지 않습니다");
+});
+
+test("tpm: non-NULL symmetric, scheme and kdf parameters are parsed before the curve", async () => {
+    // symmetric AES-128-CFB, scheme ECDSA-SHA256, NIST P-256, kdf KDF1-SP800-56A-SHA256
+    const response = await tpmAttestation("tpm-challenge", "0006008000430018000b00030020000b");
+    expect(await verifyRegistrationAttestation(response)).toMatchObject({ fmt: "tpm", attestationType: "AttCA" });
+
+    // scheme ECDSA-SHA256 on NIST P-384
+    await expect(verifyRegistrationAttestation(await tpmAttestation("tpm-challenge", "00100018000b00040010")))
+        .rejects.toThrow("자격증명 키와 일치하지 않습니다");
+
+    const trailing = withAttStmt(response, attStmt => {
+        attStmt.pubArea = new Uint8Array([...(attStmt.pubArea as Uint8Array), 0]);
+    });
+    await expect(verifyRegistrationAttestation(trailing)).rejects.toThrow("TPM 구조체 뒤에 불필요한 데이터");
+});
+
+test("untrusted attestations are rejected or need confirmation by policy", async () => {
+    const untrusted = await verifyRegistrationAttestation(await appleAttestation("apple-challenge"));
+    const trusted = await verifyRegistrationAttestation(u2fFixture.response as RegistrationResponseJSON);
+    const prompts: string[] = [];
+    const confirm = (answer: boolean) => (message: string) => { prompts.push(message); return answer; };
+
+    await enforceAttestationPolicy(trusted, "reject", confirm(false));
+    await expect(enforceAttestationPolicy(untrusted, "reject", confirm(true))).rejects.toThrow("등록할 수 없습니다");
+    expect(prompts).toEqual([]);
+
+    await enforceAttestationPolicy(untrusted, "confirm", confirm(true));
+    await expect(enforceAttestationPolicy(untrusted, "confirm", confirm(false))).rejects.toThrow("취소되었습니다");
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0]).toContain("apple, AnonCA");
+});
@@ -0,0 +1,273 @@
+import { BarretenbergBackend, CompiledCircuit } from '@noir-lang/backend_barretenberg';
+import { Noir } from '@noir-lang/noir_js';
+import { ethers } from 'ethers';
+import { execSync, spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { buildWebAuthnCircuitInputs } from '../../ui/src/lib/circuitInputs';
+import { NOIR_CLIENT_DATA_JSON_LENGTHS } from '../../ui/src/lib/clientData';
+
+// Proving benchmark for the WebAuthn circuit.
+// Every (clientData length, thread count) pair runs in a fresh process so the peak RSS
+// (process.resourceUsage().maxRSS) belongs to that configuration alone.
+//
+// Usage: bun bench.ts [--threads 1,2,4] [--lengths 134,243,255] [--runs 3]
+//                     [--baseline ../target/bench/bench-<commit>.json]
+// Writes ../target/bench/bench-<commit>.{json,md}
+
+const { values: options } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+        circuit: { type: 'string', default: '../target/webauthn.json' },
+        fixtures: { type: 'string', default: 'fixtures' },
+        threads: { type: 'string', default: '1,2,4' },
+        lengths: { type: 'string', default: '134,243,255' },
+        runs: { type: 'string', default: '3' },
+        out: { type: 'string', default: '../target/bench' },
+        baseline: { type: 'string' },
+        // internal: run a single configuration and print its result as JSON
+        worker: { type: 'boolean', default: false },
+        fixture: { type: 'string' },
+    },
+});
+
+interface Stats {
+    median: number;
+    min: number;
+    max: number;
+}
+
+interface BenchResult {
+    clientDataLength: number;
+    threads: number;
+    fixture?: string;
+    status: 'ok' | 'unsupported' | 'failed';
+    witnessMs?: Stats;
+    provingMs?: Stats;
+    coldProvingMs?: number; // first proof, includes WASM / CRS setup
+    proofBytes?: number;
+    peakRssMb?: number;
+    error?: string;
+}
+
+interface BenchReport {
+    commit: string;
+    createdAt: string;
+    runtime: string;
+    platform: string;
+    cpu: string;
+    cpus: number;
+    totalMemoryMb: number;
+    circuit: string;
+    runs: number;
+    results: BenchResult[];
+}
+
+function parseList(value: string, name: string): number[] {
+    const list = value.split(',').map(item => Number(item.trim()));
+    if (list.length === 0 || list.some(item => !Number.isInteger(item) || item <= 0)) {
+        throw new Error(`--${name} must be a comma-separated list of positive integers: ${value}`);
+    }
+    return list;
+}
+
+function stats(samples: number[]): Stats {
+    const sorted = [...samples].sort((a, b) => a - b);
+    const round = (value: number) => Math.round(value);
+    return {
+        median: round(sorted[Math.floor(sorted.length / 2)]),
+        min: round(sorted[0]),
+        max: round(sorted[sorted.length - 1]),
+    };
+}
+
+// Fixture files keyed by clientDataJSON byte length
+function findFixtures(dir: string): Map<number, string> {
+    const fixtures = new Map<number, string>();
+    for (const file of fs.readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+        const fixture = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+        const length = ethers.dataLength(fixture.clientDataJSON);
+        if (!fixtures.has(length)) {
+            fixtures.set(length, path.join(dir, file));
+        }
+    }
+    return fixtures;
+}
+
+async function runWorker(): Promise<Omit<BenchResult, 'clientDataLength' | 'threads' | 'status'>> {
+    const circuit = JSON.parse(fs.readFileSync(options.circuit!, 'utf8')) as CompiledCircuit;
+    const fixture = JSON.parse(fs.readFileSync(options.fixture!, 'utf8'));
+    const inputs = buildWebAuthnCircuitInputs(fixture, { identity: fixture.identity });
+    const runs = Number(options.runs);
+
+    const noir = new Noir(circuit);
+    const backend = new BarretenbergBackend(circuit, { threads: Number(options.threads) });
+    const witnessMs: number[] = [];
+    const provingMs: number[] = [];
+    let proofBytes = 0;
+    try {
+        // run 0 is the cold run (backend instantiation + CRS); it is reported separately
+        for (let run = 0; run <= runs; run++) {
+            let start = performance.now();
+            const { witness } = await noir.execute(inputs);
+            const witnessTime = performance.now() - start;
+
+            start = performance.now();
+            const proof = await backend.generateProof(witness);
+            const provingTime = performance.now() - start;
+
+            proofBytes = proof.proof.length;
+            witnessMs.push(witnessTime);
+            provingMs.push(provingTime);
+            console.error(`  run ${run}${run === 0 ? ' (cold)' : ''}: witness ${Math.round(witnessTime)} ms, proof ${Math.round(provingTime)} ms`);
+        }
+    } finally {
+        await backend.destroy();
+    }
+
+    return {
+        witnessMs: stats(witnessMs.slice(1)),
+        provingMs: stats(provingMs.slice(1)),
+        coldProvingMs: Math.round(provingMs[0]),
+        proofBytes,
+        peakRssMb: Math.round(process.resourceUsage().maxRSS / 1024),
+    };
+}
+
+function runConfiguration(fixture: string, threads: number): Omit<BenchResult, 'clientDataLength' | 'threads'> {
+    const child = spawnSync(process.execPath, [
+        import.meta.path,
+        '--worker',
+        '--circuit', options.circuit!,
+        '--fixture', fixture,
+        '--threads', String(threads),
+        '--runs', options.runs!,
+    ], { stdio: ['ignore', 'pipe', 'inherit'], encoding: 'utf8' });
+
+    if (child.status !== 0) {
+        return { fixture, status: 'failed', error: `worker exited with ${child.status ?? child.signal}` };
+    }
+    const lastLine = child.stdout.trim().split('\n').pop()!;
+    return { fixture, status: 'ok', ...JSON.parse(lastLine) };
+}
+
+function gitCommit(): string {
+    try {
+        return execSync('git rev-parse --short HEAD', { encoding: 'utf8' }).trim();
+    } catch {
+        return 'unknown';
+    }
+}
+
+function delta(current?: number, previous?: number): string {
+    if (current === undefined || previous === undefined || previous === 0) return '';
+    const percent = ((current - previous) / previous) * 100;
+    return ` (${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%)`;
+}
+
+function toMarkdown(report: BenchReport, baseline?: BenchReport): string {
+    const previous = (result: BenchResult) => baseline?.results.find(
+        item => item.clientDataLength === result.clientDataLength && item.threads === result.threads
+    );
+    const lines = [
+        `# WebAuthn circuit proving benchmark (${report.commit})`,
+        '',
+        `${report.createdAt} · ${report.runtime} · ${report.platform} · ${report.cpu} (${report.cpus} cores) · ${report.totalMemoryMb} MB`,
+        `Median of ${report.runs} warm runs${baseline ? `, deltas against ${baseline.commit}` : ''}.`,
+        '',
+        '| clientData | threads | witness (ms) | proving (ms) | cold proving (ms) | peak RSS (MB) | proof (bytes) |',
+        '| ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+    ];
+    for (const result of report.results) {
+        if (result.status !== 'ok') {
+            lines.push(`| ${result.clientDataLength} | ${result.threads} | ${result.status}: ${result.error} | | | | |`);
+            continue;
+        }
+        const base = previous(result);
+        lines.push(`| ${[
+            result.clientDataLength,
+            result.threads,
+            `${result.witnessMs!.median}${delta(result.witnessMs!.median, base?.witnessMs?.median)}`,
+            `${result.provingMs!.median}${delta(result.provingMs!.median, base?.provingMs?.median)}`,
+            `${result.coldProvingMs}${delta(result.coldProvingMs, base?.coldProvingMs)}`,
+            `${result.peakRssMb}${delta(result.peakRssMb, base?.peakRssMb)}`,
+            result.proofBytes,
+        ].join(' | ')} |`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+async function main() {
+    const threadCounts = parseList(options.threads!, 'threads');
+    const lengths = parseList(options.lengths!, 'lengths');
+    const runs = parseList(options.runs!, 'runs')[0];
+    if (!fs.existsSync(options.circuit!)) {
+        throw new Error(`Circuit not found: ${options.circuit} (run nargo compile first)`);
+    }
+    const baseline = options.baseline
+        ? JSON.parse(fs.readFileSync(options.baseline, 'utf8')) as BenchReport
+        : undefined;
+
+    const fixtures = findFixtures(options.fixtures!);
+    const results: BenchResult[] = [];
+    for (const clientDataLength of lengths) {
+        const fixture = fixtures.get(clientDataLength);
+        for (const threads of threadCounts) {
+            if (!(NOIR_CLIENT_DATA_JSON_LENGTHS as readonly number[]).includes(clientDataLength)) {
+                // prefix_sha256_hash (src/utils.nr) asserts on any other length
+                results.push({ clientDataLength, threads, status: 'unsupported', error: 'length not supported by the circuit' });
+                continue;
+            }
+            if (!fixture) {
+                results.push({ clientDataLength, threads, status: 'unsupported', error: `no fixture in ${options.fixtures}` });
+                continue;
+            }
+            console.log(`⏱️  clientData ${clientDataLength} bytes, ${threads} thread(s)`);
+            results.push({ clientDataLength, threads, ...runConfiguration(fixture, threads) });
+        }
+    }
+
+    const cpuInfo = os.cpus();
+    const report: BenchReport = {
+        commit: gitCommit(),
+        createdAt: new Date().toISOString(),
+        runtime: `bun ${Bun.version}`,
+        platform: `${process.platform}-${process.arch}`,
+        cpu: cpuInfo[0]?.model ?? 'unknown',
+        cpus: cpuInfo.length,
+        totalMemoryMb: Math.round(os.totalmem() / 1024 / 1024),
+        circuit: options.circuit!,
+        runs,
+        results,
+    };
+
+    fs.mkdirSync(options.out!, { recursive: true });
+    const base = path.join(options.out!, `bench-${report.commit}`);
+    const markdown = toMarkdown(report, baseline);
+    fs.writeFileSync(`${base}.json`, JSON.stringify(report, null, 2) + '\n');
+    fs.writeFileSync(`${base}.md`, markdown);
+    console.log('\n' + markdown);
+    console.log(`Report written to ${base}.json and ${base}.md`);
+    return results.every(result => result.status !== 'failed');
+}
+
+if (options.worker) {
+    runWorker()
+        .then(result => {
+            console.log(JSON.stringify(result));
+            process.exit(0);
+        })
+        .catch(error => {
+            console.error(`❌ ${(error as Error).message}`);
+            process.exit(1);
+        });
+} else {
+    main()
+        .then(ok => process.exit(ok ? 0 : 1))
+        .catch(error => {
+            console.error(`❌ ${(error as Error).message}`);
+            process.exit(1);
+        });
+}
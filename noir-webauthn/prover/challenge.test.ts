@@ -0,0 +1,117 @@
+import { afterEach, expect, setSystemTime, test } from "bun:test";
+import { ethers } from "ethers";
+import {
+    buildActionChallenge,
+    type ChallengeAction,
+    challengeDeadline,
+    DEFAULT_CHALLENGE_TTL,
+    hashChallengeAction,
+    newChallengeNonce,
+    sessionDelegateDeviceId,
+} from "../../ui/src/lib/challenge";
+
+const base = {
+    chainId: 11155111n,
+    owner: "0x1111111111111111111111111111111111111111",
+    nonce: 42n,
+    deadline: 1893456000n, // 2030-01-01
+};
+
+// keccak256(abi.encode(keccak256(TYPE), chainId, owner, nonce, deadline, ...)) and
+// solady Base64.encode(abi.encodePacked(hash), true, true), computed with solc 0.8.26
+const vectors: { action: ChallengeAction; hash: string; challenge: string }[] = [
+    {
+        action: { ...base, type: "registerDevice", pubKeyX: 1n, pubKeyY: 2n },
+        hash: "0xbb1b8f354a237701133f73b8b40004a5d45373bbe4f8ee24d4e4f7418ea18413",
+        challenge: "uxuPNUojdwETP3O4tAAEpdRTc7vk-O4k1OT3QY6hhBM",
+    },
+    {
+        action: {
+            ...base,
+            type: "startSession",
+            sessionPubKeyX: 3n,
+            sessionPubKeyY: 4n,
+            ttl: 3600n,
+            deviceId: "0x000000000000000000000000000000000000000000000000000000000000abcd",
+        },
+        hash: "0xa8462639846f731b5d23f04235d787423c5f428845fa0600369d131f8b1c6623",
+        challenge: "qEYmOYRvcxtdI_BCNdeHQjxfQohF-gYANp0TH4scZiM",
+    },
+    {
+        action: { ...base, type: "revokeSession" },
+        hash: "0xf38e8cb48bca6b7124234fc94f0f5053c28fab0d913632aa42accd51926dbcac",
+        challenge: "846MtIvKa3EkI0_JTw9QU8KPqw2RNjKqQqzNUZJtvKw",
+    },
+    {
+        action: {
+            ...base,
+            type: "executeTx",
+            txHash: "0x00000000000000000000000000000000000000000000000000000000deadbeef",
+        },
+        hash: "0x3a2f2eddb7dd224fdbda1c572a72a803932788716160bbe20ff480afce01bcd2",
+        challenge: "Oi8u3bfdIk_b2hxXKnKoA5MniHFhYLviD_SAr84BvNI",
+    },
+];
+
+afterEach(() => {
+    setSystemTime();
+});
+
+for (const { action, hash, challenge } of vectors) {
+    test(`${action.type} challenge matches the Solidity abi.encode / base64url encoding`, () => {
+        expect(hashChallengeAction(action)).toBe(hash);
+        expect(buildActionChallenge(action)).toEqual({ hash, challenge });
+        // Noir circuit: challenge: [u8; 43] at client_data_json[36..]
+        expect(challenge).toHaveLength(43);
+    });
+}
+
+test("every field of the action is bound into the hash", () => {
+    const [register, startSession] = vectors.map(vector => vector.action);
+    const hash = hashChallengeAction(register);
+
+    expect(hashChallengeAction({ ...register, nonce: 43n })).not.toBe(hash);
+    expect(hashChallengeAction({ ...register, deadline: base.deadline + 1n })).not.toBe(hash);
+    expect(hashChallengeAction({ ...register, chainId: 1n })).not.toBe(hash);
+    expect(hashChallengeAction({ ...register, pubKeyY: 3n })).not.toBe(hash);
+    expect(hashChallengeAction({ ...startSession, ttl: 7200n } as ChallengeAction)).not.toBe(vectors[1].hash);
+    // same fields, different action type
+    expect(hashChallengeAction({ ...base, type: "revokeSession" })).not.toBe(hashChallengeAction({
+        ...base, type: "executeTx", txHash: "0x" + "00".repeat(32),
+    }));
+    // address encoding does not depend on checksum casing
+    expect(hashChallengeAction({ ...register, owner: "0x" + "ab".repeat(20) }))
+        .toBe(hashChallengeAction({ ...register, owner: "0xABABABABABABABABABABABABABABABABABABABAB" }));
+});
+
+test("expired deadlines are rejected", () => {
+    setSystemTime(new Date(Number(base.deadline) * 1000));
+    const [register] = vectors.map(vector => vector.action);
+
+    expect(() => buildActionChallenge(register)).toThrow("deadline");
+    expect(() => buildActionChallenge({ ...register, deadline: base.deadline - 60n })).toThrow("deadline");
+    expect(buildActionChallenge({ ...register, deadline: base.deadline + 1n }).challenge).toHaveLength(43);
+});
+
+test("challengeDeadline and newChallengeNonce", () => {
+    setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const now = BigInt(Date.UTC(2026, 0, 1) / 1000);
+
+    expect(challengeDeadline()).toBe(now + BigInt(DEFAULT_CHALLENGE_TTL));
+    expect(challengeDeadline(60)).toBe(now + 60n);
+
+    const nonces = new Set(Array.from({ length: 16 }, () => newChallengeNonce()));
+    expect(nonces.size).toBe(16);
+    for (const nonce of nonces) {
+        expect(nonce).toBeLessThan(1n << 128n);
+    }
+});
+
+test("StartSession deviceId is SessionDelegate's keccak256(abi.encodePacked(pubKeyX, pubKeyY))", () => {
+    const x = "0x" + "6b".repeat(32);
+    const y = "0x" + "4f".repeat(32);
+    expect(sessionDelegateDeviceId(x, y)).toBe(ethers.keccak256(ethers.concat([x, y])));
+    expect(sessionDelegateDeviceId(1n, 2n)).toBe(
+        ethers.keccak256(ethers.concat([ethers.toBeHex(1, 32), ethers.toBeHex(2, 32)]))
+    );
+});
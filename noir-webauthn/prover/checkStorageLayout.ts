@@ -0,0 +1,110 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { KNOWN_DELEGATES } from '../../ui/src/lib/contracts';
+import {
+    compareAllStorageLayouts,
+    compareStorageLayouts,
+    hasStorageConflict,
+    type DelegateStorageLayouts,
+    type FoundryStorageLayout,
+    type StorageCollision,
+} from '../../ui/src/lib/storageLayout';
+
+// Storage-layout collision checker for EIP-7702 delegates.
+// Every delegate runs against the EOA's own storage, so switching delegates reinterprets whatever
+// the previous one left behind. This collects `forge inspect <Contract> storageLayout --json` for each
+// delegate in KNOWN_DELEGATES, reports overlapping slots / type conflicts between every pair and writes
+// the layouts to ui/public/storage-layouts.json for the EoaMigration re-delegation gate.
+//
+// Usage: bun checkStorageLayout.ts [--contracts ../../contracts] [--out ../../ui/public/storage-layouts.json]
+//                                  [--layout Name=path.json ...] [--from Name --to Name]
+//
+// --layout adds a saved layout (e.g. a previously deployed version) or replaces the forge output for that name.
+// With --from/--to only that upgrade is checked and the exit code is 1 when it has conflicts.
+
+const { values: options } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+        // defaults resolve from this script so it can run from any directory
+        contracts: { type: 'string', default: path.resolve(import.meta.dir, '../../contracts') },
+        out: { type: 'string', default: path.resolve(import.meta.dir, '../../ui/public/storage-layouts.json') },
+        layout: { type: 'string', multiple: true, default: [] },
+        from: { type: 'string' },
+        to: { type: 'string' },
+    },
+});
+
+function inspectLayout(contract: string): FoundryStorageLayout {
+    console.log(`$ forge inspect ${contract} storageLayout --json`);
+    const result = spawnSync('forge', ['inspect', contract, 'storageLayout', '--json'], {
+        cwd: options.contracts,
+        encoding: 'utf8',
+        maxBuffer: 64 * 1024 * 1024,
+    });
+    if (result.error) {
+        throw new Error(`forge is not available (${result.error.message})`);
+    }
+    if (result.status !== 0) {
+        throw new Error(`forge inspect ${contract} exited with ${result.status}\n${result.stderr}`);
+    }
+    return JSON.parse(result.stdout);
+}
+
+function loadLayouts(): DelegateStorageLayouts {
+    const layouts: DelegateStorageLayouts = {};
+    for (const spec of options.layout!) {
+        const [name, file] = spec.split('=');
+        if (!name || !file) {
+            throw new Error(`--layout expects Name=path.json, got "${spec}"`);
+        }
+        layouts[name] = JSON.parse(fs.readFileSync(file, 'utf8'));
+    }
+    for (const { name } of KNOWN_DELEGATES) {
+        layouts[name] ??= inspectLayout(name);
+    }
+    return layouts;
+}
+
+function printCollisions(from: string, to: string, collisions: StorageCollision[]) {
+    const status = hasStorageConflict(collisions) ? '❌' : collisions.length > 0 ? '⚠️ ' : '✅';
+    console.log(`\n${status} ${from} -> ${to}: ${collisions.length} collision(s)`);
+    for (const collision of collisions) {
+        console.log(
+            `   [${collision.severity}] ${collision.kind} at slot ${collision.slot}+${collision.offset}: ` +
+            `${collision.from.label} (${collision.from.type}) vs ${collision.to.label} (${collision.to.type})`
+        );
+    }
+}
+
+function main() {
+    const layouts = loadLayouts();
+
+    fs.mkdirSync(path.dirname(options.out!), { recursive: true });
+    fs.writeFileSync(options.out!, JSON.stringify(layouts, null, 2) + '\n');
+    console.log(`✅ ${options.out}`);
+
+    if (options.from || options.to) {
+        const from = layouts[options.from ?? ''];
+        const to = layouts[options.to ?? ''];
+        if (!from || !to) {
+            throw new Error(`--from and --to must name one of: ${Object.keys(layouts).join(', ')}`);
+        }
+        const collisions = compareStorageLayouts(from, to);
+        printCollisions(options.from!, options.to!, collisions);
+        return hasStorageConflict(collisions) ? 1 : 0;
+    }
+
+    for (const comparison of compareAllStorageLayouts(layouts)) {
+        printCollisions(comparison.from, comparison.to, comparison.collisions);
+    }
+    return 0;
+}
+
+try {
+    process.exit(main());
+} catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+}
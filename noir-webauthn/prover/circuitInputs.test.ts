@@ -0,0 +1,72 @@
+import { expect, test } from "bun:test";
+import * as fs from "fs";
+import * as path from "path";
+import {
+    buildWebAuthnCircuitInputs,
+    CIRCUIT_BLOBS_LEN,
+    isCircuitAuthenticatorData,
+    WEBAUTHN_BLOB_LEN,
+} from "../../ui/src/lib/circuitInputs";
+import fixture134 from "./fixtures/webauthn-134.json";
+import fixture243 from "./fixtures/webauthn-243.json";
+
+const circuitDir = path.join(import.meta.dir, "..");
+
+// Field array literal from main.nr / Prover.toml (comments stripped, values may be quoted)
+function parseFields(source: string): bigint[] {
+    return source
+        .replace(/\/\/.*$/gm, "")
+        .split(",")
+        .map(value => value.trim().replace(/"/g, ""))
+        .filter(value => value.length > 0)
+        .map(value => BigInt(value));
+}
+
+function mainNrVector(testName: string) {
+    const source = fs.readFileSync(path.join(circuitDir, "src/main.nr"), "utf8");
+    const body = source.slice(source.indexOf(`fn ${testName}()`));
+    const identity = body.match(/let identity = "(.*?)";/)![1];
+    const blobsStart = body.indexOf("[", body.indexOf("let blobs: [Field; 2800] = [") + "let blobs: [Field; 2800] = ".length);
+    return { identity, blobs: parseFields(body.slice(blobsStart + 1, body.indexOf("];", blobsStart))) };
+}
+
+function proverTomlVector() {
+    const source = fs.readFileSync(path.join(circuitDir, "Prover.toml"), "utf8");
+    const identity = source.match(/^identity = "(.*?)"$/m)![1];
+    const blobsStart = source.indexOf("blobs = [") + "blobs = [".length;
+    return { identity, blobs: parseFields(source.slice(blobsStart, source.indexOf("]", blobsStart))) };
+}
+
+// [blob count, 470, ...WebAuthn blob] - the builder writes a single blob, the vectors carry three
+function webAuthnBlob(blobs: (bigint | number)[]): bigint[] {
+    return blobs.slice(1, 2 + WEBAUTHN_BLOB_LEN).map(value => BigInt(value));
+}
+
+const vectors = [
+    { name: "main.nr test_webauthn_verification_from_vibe_checker_134", fixture: fixture134, vector: () => mainNrVector("test_webauthn_verification_from_vibe_checker_134") },
+    { name: "main.nr test_webauthn_verification_from_vibe_checker_243", fixture: fixture243, vector: () => mainNrVector("test_webauthn_verification_from_vibe_checker_243") },
+    { name: "Prover.toml", fixture: fixture243, vector: proverTomlVector },
+];
+
+for (const { name, fixture, vector } of vectors) {
+    test(`buildWebAuthnCircuitInputs matches the ${name} WebAuthn blob`, () => {
+        const expected = vector();
+        const inputs = buildWebAuthnCircuitInputs(fixture, { identity: fixture.identity });
+
+        expect(inputs.identity).toBe(expected.identity);
+        expect(expected.blobs).toHaveLength(CIRCUIT_BLOBS_LEN);
+        expect(webAuthnBlob(inputs.blobs as number[])).toEqual(webAuthnBlob(expected.blobs));
+    });
+}
+
+test("authenticatorData with extension data cannot be proven", () => {
+    const authenticatorData = Buffer.from(fixture134.authenticatorData.slice(2), "hex");
+    expect(isCircuitAuthenticatorData(authenticatorData)).toBe(true);
+
+    // ED flag + a CBOR extensions map, as returned with hmac-secret / PRF on security keys
+    const withExtensions = Buffer.concat([authenticatorData, Buffer.from("a16b686d61632d736563726574f5", "hex")]);
+    withExtensions[32] |= 0x80;
+    expect(isCircuitAuthenticatorData(withExtensions)).toBe(false);
+    expect(() => buildWebAuthnCircuitInputs({ ...fixture134, authenticatorData: "0x" + withExtensions.toString("hex") }))
+        .toThrow("37바이트");
+});
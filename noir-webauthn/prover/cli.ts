@@ -0,0 +1,278 @@
+import { BarretenbergVerifier, CompiledCircuit } from '@noir-lang/backend_barretenberg';
+import { InputMap } from '@noir-lang/noir_js';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/types';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import {
+    buildCircuitInputsFromAssertion,
+    buildWebAuthnCircuitInputs,
+    type WebAuthnCircuitData,
+} from '../../ui/src/lib/circuitInputs';
+import { computeIdentity } from '../../ui/src/lib/identity';
+import {
+    encodeContractPublicInputs,
+    encodeVerifierProof,
+    parseProofEnvelope,
+    serializeProofEnvelope,
+    type ProofEnvelope,
+} from '../../ui/src/lib/proofEnvelope';
+import { exportNoirVerificationKey } from './extractVerificationKey';
+import { proveToEnvelope, sha256Hex } from './proveEnvelope';
+
+const USAGE = `Usage: bun cli.ts <command> [options]
+
+Commands:
+  prove <input.json>       Prove a WebAuthn assertion or captured test vector
+  verify <proof.json>      Verify a proof envelope with the verification key
+  export-vkey              Write vkey, vkey.b64, vkey.sha256 and pin the hash for the UI
+  identity <input.json>    Print the circuit identity for the input's public key
+
+Options:
+  --circuit <path>         Compiled circuit (default: ../target/webauthn.json)
+  --target <dir>           Output directory (default: ../target)
+  --out <name>             Proof file name without extension (default: proof)
+  --format <list>          Proof formats: json,bin,hex (default: json,bin,hex)
+  --vkey <path>            Verification key for verify (default: <target>/vkey)
+  --pub-key <hex>          Device public key (0x04 || x || y) for assertion inputs
+  --identity <identity>    Expected identity, checked against the public key
+
+Input JSON is either a captured test vector
+  { authenticatorData, clientDataJSON, signature, pubKeyX, pubKeyY, identity? }
+or a WebAuthn assertion (AuthenticationResponseJSON) with the device public key
+  { response: { authenticatorData, clientDataJSON, signature }, publicKey?: { x, y } }
+`;
+
+// Exit codes: 1 = proof invalid or command failed, 2 = usage error
+function usageError(message: string): never {
+    console.error(`Error: ${message}\n`);
+    console.error(USAGE);
+    process.exit(2);
+}
+
+const PROOF_FORMATS = ['json', 'bin', 'hex'] as const;
+type ProofFormat = typeof PROOF_FORMATS[number];
+
+const verifierInterface = new ethers.Interface([
+    'function verify(bytes proof, uint256[] publicInputs) returns (bool)',
+]);
+
+function parseCliArgs() {
+    try {
+        return parseArgs({
+            args: process.argv.slice(2),
+            allowPositionals: true,
+            options: {
+                circuit: { type: 'string' },
+                target: { type: 'string', default: '../target' },
+                out: { type: 'string', default: 'proof' },
+                format: { type: 'string', default: PROOF_FORMATS.join(',') },
+                vkey: { type: 'string' },
+                'pub-key': { type: 'string' },
+                identity: { type: 'string' },
+                help: { type: 'boolean', short: 'h' },
+            },
+        });
+    } catch (error) {
+        usageError((error as Error).message);
+    }
+}
+
+const { values: options, positionals } = parseCliArgs();
+
+function requireArg(value: string | undefined, name: string): string {
+    if (!value) {
+        usageError(`Missing ${name}`);
+    }
+    return value;
+}
+
+type AssertionInput = { response: AuthenticationResponseJSON['response']; publicKey?: { x: string; y: string } };
+type CliInput = WebAuthnCircuitData & { identity?: string } | AssertionInput;
+
+function readJson(file: string): unknown {
+    if (!fs.existsSync(file)) {
+        throw new Error(`File not found: ${file}`);
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function isAssertionInput(input: CliInput): input is AssertionInput {
+    return 'response' in input;
+}
+
+function isCliInput(value: unknown): value is CliInput {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const fields = 'response' in value ? value.response : value;
+    return typeof fields === 'object' && fields !== null &&
+        ['authenticatorData', 'clientDataJSON', 'signature'].every(field => field in fields);
+}
+
+function readInput(file: string): CliInput {
+    const input = readJson(file);
+    if (!isCliInput(input)) {
+        throw new Error(`${file} is neither a test vector nor a WebAuthn assertion`);
+    }
+    return input;
+}
+
+function loadCircuit(): CompiledCircuit {
+    return readJson(options.circuit ?? path.join(options.target!, 'webauthn.json')) as CompiledCircuit;
+}
+
+/**
+ * Public key from --pub-key (0x04 || x || y) or the input file
+ */
+function resolvePublicKey(input: CliInput): { x: string; y: string } {
+    const pubKey = options['pub-key'];
+    if (pubKey) {
+        const bytes = ethers.getBytes(pubKey);
+        const coordinates = bytes.length === 65 && bytes[0] === 0x04 ? bytes.slice(1) : bytes;
+        if (coordinates.length !== 64) {
+            usageError('--pub-key must be 0x04 || x || y or x || y');
+        }
+        return { x: ethers.hexlify(coordinates.slice(0, 32)), y: ethers.hexlify(coordinates.slice(32)) };
+    }
+    if (isAssertionInput(input)) {
+        if (input.publicKey?.x && input.publicKey?.y) {
+            return input.publicKey;
+        }
+    } else if (input.pubKeyX && input.pubKeyY) {
+        return { x: input.pubKeyX, y: input.pubKeyY };
+    }
+    usageError('Input has no public key; pass --pub-key');
+}
+
+function expectedIdentity(input: CliInput): string | undefined {
+    return options.identity ?? (isAssertionInput(input) ? undefined : input.identity);
+}
+
+function buildInputs(input: CliInput): InputMap {
+    const identity = expectedIdentity(input);
+    if (isAssertionInput(input)) {
+        return buildCircuitInputsFromAssertion(input.response, resolvePublicKey(input), { identity });
+    }
+    return buildWebAuthnCircuitInputs(input, { identity });
+}
+
+function parseFormats(list: string): ProofFormat[] {
+    const formats = list.split(',').map(format => format.trim());
+    const unknown = formats.filter(format => !PROOF_FORMATS.includes(format as ProofFormat));
+    if (unknown.length > 0) {
+        usageError(`Unknown format: ${unknown.join(', ')}`);
+    }
+    return formats as ProofFormat[];
+}
+
+function writeProof(envelope: ProofEnvelope, formats: ProofFormat[]) {
+    fs.mkdirSync(options.target!, { recursive: true });
+    const base = path.join(options.target!, options.out!);
+    for (const format of formats) {
+        const file = `${base}.${format}`;
+        if (format === 'json') {
+            fs.writeFileSync(file, serializeProofEnvelope(envelope));
+        } else if (format === 'bin') {
+            fs.writeFileSync(file, ethers.getBytes(envelope.proof));
+        } else {
+            // IVerifier.verify calldata for WebAuthnVerifier (SessionDelegate public-input order)
+            const calldata = verifierInterface.encodeFunctionData('verify', [
+                encodeVerifierProof(envelope),
+                encodeContractPublicInputs(envelope),
+            ]);
+            fs.writeFileSync(file, calldata);
+        }
+        console.log(`Wrote ${file}`);
+    }
+}
+
+async function prove(inputFile: string) {
+    const formats = parseFormats(options.format!);
+    const inputs = buildInputs(readInput(inputFile));
+    const circuit = loadCircuit();
+
+    const envelope = await proveToEnvelope(circuit, inputs);
+    writeProof(envelope, formats);
+    console.log(`Identity: ${inputs.identity}`);
+    console.log(`vkey sha256: ${envelope.vkeyHash}`);
+    return true;
+}
+
+async function verify(proofFile: string) {
+    const envelope = parseProofEnvelope(fs.readFileSync(proofFile, 'utf8'));
+    const vkeyFile = options.vkey ?? path.join(options.target!, 'vkey');
+    if (!fs.existsSync(vkeyFile)) {
+        throw new Error(`Verification key not found: ${vkeyFile} (run export-vkey)`);
+    }
+    const vkey = new Uint8Array(fs.readFileSync(vkeyFile));
+    const vkeyHash = sha256Hex(vkey);
+    if (vkeyHash !== envelope.vkeyHash.toLowerCase()) {
+        console.error(`vkey mismatch: proof was made for ${envelope.vkeyHash}, ${vkeyFile} is ${vkeyHash}`);
+        return false;
+    }
+
+    const verifier = new BarretenbergVerifier();
+    try {
+        const valid = await verifier.verifyProof(
+            { proof: ethers.getBytes(envelope.proof), publicInputs: envelope.publicInputs },
+            vkey
+        );
+        console.log(valid ? `Proof is valid (${envelope.circuitId})` : 'Proof is INVALID');
+        return valid;
+    } finally {
+        await verifier.destroy();
+    }
+}
+
+async function exportVkey() {
+    fs.mkdirSync(options.target!, { recursive: true });
+    await exportNoirVerificationKey(loadCircuit(), options.target);
+    return true;
+}
+
+function identity(inputFile: string) {
+    const input = readInput(inputFile);
+    const { x, y } = resolvePublicKey(input);
+    const computed = computeIdentity(x, y);
+    console.log(computed);
+
+    const expected = expectedIdentity(input);
+    if (expected && expected.toLowerCase() !== computed) {
+        console.error(`Identity mismatch: expected ${expected}`);
+        return false;
+    }
+    return true;
+}
+
+async function run(): Promise<boolean> {
+    const [command, file] = positionals;
+    if (options.help) {
+        console.log(USAGE);
+        return true;
+    }
+    if (!command) {
+        usageError('Missing command');
+    }
+    switch (command) {
+        case 'prove':
+            return prove(requireArg(file, 'input file'));
+        case 'verify':
+            return verify(requireArg(file, 'proof file'));
+        case 'export-vkey':
+            return exportVkey();
+        case 'identity':
+            return identity(requireArg(file, 'input file'));
+        default:
+            usageError(`Unknown command: ${command}`);
+    }
+}
+
+try {
+    const ok = await run();
+    process.exit(ok ? 0 : 1);
+} catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+}
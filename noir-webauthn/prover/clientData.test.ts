@@ -0,0 +1,114 @@
+import { expect, test } from "bun:test";
+import {
+    CLIENT_DATA_JSON_MAX_LEN,
+    NOIR_CHALLENGE_OFFSET,
+    parseClientDataJSON,
+    toContractClientData,
+    toNoirClientData,
+    verifyClientData,
+} from "../../ui/src/lib/clientData";
+import fixture134 from "./fixtures/webauthn-134.json";
+import fixture243 from "./fixtures/webauthn-243.json";
+
+// base64url("0123456789abcdef0123456789abcdef")
+const CHALLENGE = "MDEyMzQ1Njc4OWFiY2RlZjAxMjM0NTY3ODlhYmNkZWY";
+const ORIGIN = "http://localhost:5173";
+
+const fixtureBytes = (hex: string) => new Uint8Array(Buffer.from(hex.slice(2), "hex"));
+
+function clientData(fields: Record<string, unknown>): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify(fields));
+}
+
+test("parses the 134-byte vector with byte offsets", () => {
+    const bytes = fixtureBytes(fixture134.clientDataJSON);
+    const parsed = parseClientDataJSON(bytes);
+
+    expect(parsed).toMatchObject({
+        type: "webauthn.get",
+        challenge: CHALLENGE,
+        origin: ORIGIN,
+        crossOrigin: false,
+        typeOffset: 1,
+        challengeOffset: NOIR_CHALLENGE_OFFSET,
+    });
+    expect(parsed.topOrigin).toBeUndefined();
+    expect(parseClientDataJSON(Buffer.from(bytes).toString("base64url"))).toEqual(parsed);
+});
+
+test("challenge offset is counted in UTF-8 bytes", () => {
+    const parsed = parseClientDataJSON(clientData({ origin: "https://예시.kr", type: "webauthn.get", challenge: CHALLENGE }));
+    const prefix = `{"origin":"https://예시.kr","type":"webauthn.get","challenge":"`;
+    expect(parsed.challengeOffset).toBe(new TextEncoder().encode(prefix).length);
+    expect(parsed.typeOffset).toBe(new TextEncoder().encode(`{"origin":"https://예시.kr",`).length);
+});
+
+test("toNoirClientData zero-pads to 255 bytes and keeps the real length", () => {
+    for (const fixture of [fixture134, fixture243]) {
+        const bytes = fixtureBytes(fixture.clientDataJSON);
+        const { client_data_json_len, client_data_json } = toNoirClientData(parseClientDataJSON(bytes));
+
+        expect(client_data_json_len).toBe(bytes.length);
+        expect(client_data_json).toHaveLength(CLIENT_DATA_JSON_MAX_LEN);
+        expect(client_data_json.slice(0, bytes.length)).toEqual([...bytes]);
+        expect(client_data_json.slice(bytes.length).every(byte => byte === 0)).toBe(true);
+    }
+});
+
+test("toNoirClientData rejects lengths and layouts the circuit cannot hash", () => {
+    const bytes = fixtureBytes(fixture134.clientDataJSON);
+    const json = JSON.parse(new TextDecoder().decode(bytes));
+
+    // 135 bytes: not one of the prefix_sha256_hash lengths
+    const unsupported = parseClientDataJSON(clientData({ ...json, origin: ORIGIN + "0" }));
+    expect(() => toNoirClientData(unsupported)).toThrow("지원하지 않는 clientDataJSON 길이입니다: 135");
+
+    const tooLong = parseClientDataJSON(clientData({ ...json, origin: ORIGIN + "/".repeat(150) }));
+    expect(() => toNoirClientData(tooLong)).toThrow("너무 깁니다");
+
+    // webauthn.create moves the challenge to offset 39
+    const create = parseClientDataJSON(clientData({ ...json, type: "webauthn.create", origin: "http://localhost:5" }));
+    expect(create.bytes).toHaveLength(134);
+    expect(create.challengeOffset).toBe(39);
+    expect(() => toNoirClientData(create)).toThrow("client_data_json[36..]");
+});
+
+test("toContractClientData encodes the decoded challenge and offsets", () => {
+    const parsed = parseClientDataJSON(fixtureBytes(fixture134.clientDataJSON));
+    expect(toContractClientData(parsed)).toEqual({
+        clientData: fixture134.clientDataJSON,
+        clientChallenge: "0x" + Buffer.from("0123456789abcdef0123456789abcdef").toString("hex"),
+        clientChallengeOffset: 36,
+        typeOffset: 1,
+    });
+});
+
+test("verifyClientData rejects wrong type, challenge, origin and cross-origin responses", () => {
+    const parsed = parseClientDataJSON(fixtureBytes(fixture134.clientDataJSON));
+    const expected = { type: "webauthn.get" as const, challenge: CHALLENGE, origin: ORIGIN };
+
+    expect(() => verifyClientData(parsed, expected)).not.toThrow();
+    expect(() => verifyClientData(parsed, { ...expected, origin: ["https://example.com", ORIGIN] })).not.toThrow();
+    expect(() => verifyClientData(parsed, { ...expected, type: "webauthn.create" })).toThrow("type 불일치");
+    expect(() => verifyClientData(parsed, { ...expected, challenge: CHALLENGE.slice(0, -1) + "A" })).toThrow("challenge");
+    expect(() => verifyClientData(parsed, { ...expected, origin: "https://example.com" })).toThrow("허용되지 않은 origin");
+
+    const crossOrigin = parseClientDataJSON(clientData({
+        type: "webauthn.get", challenge: CHALLENGE, origin: ORIGIN, crossOrigin: true, topOrigin: "https://top.example",
+    }));
+    expect(crossOrigin.topOrigin).toBe("https://top.example");
+    expect(() => verifyClientData(crossOrigin, expected)).toThrow("cross-origin");
+    expect(() => verifyClientData(crossOrigin, { ...expected, allowCrossOrigin: true })).not.toThrow();
+});
+
+test("parseClientDataJSON rejects malformed clientData", () => {
+    const base = { type: "webauthn.get", challenge: CHALLENGE, origin: ORIGIN };
+
+    expect(() => parseClientDataJSON(new TextEncoder().encode("{\"type\":"))).toThrow("올바른 JSON이 아닙니다");
+    expect(() => parseClientDataJSON(clientData({ ...base, type: "payment.get" }))).toThrow("지원하지 않는 clientData type");
+    expect(() => parseClientDataJSON(clientData({ ...base, challenge: CHALLENGE + "=" }))).toThrow("base64url");
+    expect(() => parseClientDataJSON(clientData({ ...base, origin: undefined }))).toThrow("origin이 없습니다");
+    expect(() => parseClientDataJSON(clientData({ ...base, crossOrigin: "false" }))).toThrow("crossOrigin");
+    // non-browser serialization with whitespace: offsets cannot be located
+    expect(() => parseClientDataJSON(new TextEncoder().encode(JSON.stringify(base, null, 1)))).toThrow("위치를 찾을 수 없습니다");
+});
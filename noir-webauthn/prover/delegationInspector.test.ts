@@ -0,0 +1,172 @@
+import { beforeEach, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import type { PublicClient } from "viem";
+import { CONTRACT_ADDRESSES } from "../../ui/src/lib/contracts";
+import {
+    identifyDelegate,
+    inspectDelegation,
+    loadDelegationHistory,
+    recordSetCodeTransaction,
+} from "../../ui/src/lib/delegationInspector";
+import { ANY_CHAIN_ID, createEip7702Authorization, signEip7702Authorization } from "../../ui/src/lib/eip7702";
+
+const CHAIN_ID = 11155111;
+const wallet = new ethers.Wallet("0x" + "11".repeat(32));
+const other = new ethers.Wallet("0x" + "22".repeat(32));
+const sponsor = "0x" + "33".repeat(20);
+
+const storage = new Map<string, string>();
+globalThis.localStorage = {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+    removeItem: (key: string) => { storage.delete(key); },
+    clear: () => storage.clear(),
+    key: (index: number) => [...storage.keys()][index] ?? null,
+    get length() { return storage.size; },
+} as Storage;
+
+// authorizationList item as returned by viem's getTransaction
+function authorization(signer: ethers.Wallet, delegate: string, nonce: number, chainId: bigint) {
+    const signed = signEip7702Authorization(createEip7702Authorization(delegate, nonce, chainId), signer);
+    return { ...signed, chainId: Number(signed.chainId), nonce: Number(signed.nonce) };
+}
+
+interface FakeTransaction {
+    hash: string;
+    blockNumber: bigint;
+    from: string;
+    nonce: number;
+    authorizationList: ReturnType<typeof authorization>[];
+}
+
+// Just the PublicClient methods the inspector calls
+// nonces: wallet nonce at the end of each block, omitted when the node has no historical state
+function fakeClient(
+    transactions: FakeTransaction[],
+    code: Record<string, string> = {},
+    nonces?: [bigint, number][],
+): PublicClient {
+    const byHash = new Map(transactions.map(tx => [tx.hash, tx]));
+    return {
+        getTransactionCount: async ({ blockNumber }: { blockNumber: bigint }) => {
+            if (!nonces) throw new Error("missing trie node");
+            return nonces.filter(([block]) => block <= blockNumber).at(-1)?.[1] ?? 0;
+        },
+        getChainId: async () => CHAIN_ID,
+        getCode: async ({ address }: { address: string }) => code[ethers.getAddress(address)],
+        getTransaction: async ({ hash }: { hash: string }) => {
+            const tx = byHash.get(hash);
+            if (!tx) throw new Error("transaction not found");
+            return { ...tx, type: "eip7702" };
+        },
+        getTransactionReceipt: async () => ({ status: "success" }),
+        getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({ timestamp: 1_700_000_000n + blockNumber }),
+    } as unknown as PublicClient;
+}
+
+beforeEach(() => {
+    storage.clear();
+});
+
+test("identifyDelegate names KNOWN_DELEGATES regardless of casing", () => {
+    expect(identifyDelegate(CONTRACT_ADDRESSES.SESSION_DELEGATE)).toBe("SessionDelegate");
+    expect(identifyDelegate(CONTRACT_ADDRESSES.DEVICE_MANAGER.toLowerCase())).toBe("DeviceManager");
+    expect(identifyDelegate(CONTRACT_ADDRESSES.WEBAUTHN_ACCOUNT)).toBe("WebAuthnAccount");
+    expect(identifyDelegate(ethers.ZeroAddress)).toBe("cleared");
+    expect(identifyDelegate("0x" + "44".repeat(20))).toBe("unknown");
+    expect(() => identifyDelegate("0x1234")).toThrow();
+});
+
+test("inspectDelegation reads the 0xef0100 designator", async () => {
+    const delegate = ethers.getAddress(CONTRACT_ADDRESSES.SESSION_DELEGATE);
+    const client = fakeClient([], {
+        [wallet.address]: "0xef0100" + delegate.slice(2).toLowerCase(),
+        [delegate]: "0x6080",
+    });
+
+    expect(await inspectDelegation(client, wallet.address)).toMatchObject({
+        kind: "delegated",
+        delegate,
+        delegateKind: "SessionDelegate",
+        delegateDeployed: true,
+    });
+    expect(await inspectDelegation(client, other.address)).toMatchObject({ kind: "eoa", delegate: null });
+});
+
+test("history keeps only the account's authorizations for this chain or any chain", async () => {
+    const txs: FakeTransaction[] = [
+        {
+            hash: "0x" + "a1".repeat(32),
+            blockNumber: 100n,
+            from: wallet.address,
+            nonce: 0,
+            authorizationList: [authorization(wallet, CONTRACT_ADDRESSES.SESSION_DELEGATE, 1, BigInt(CHAIN_ID))],
+        },
+        {
+            hash: "0x" + "a2".repeat(32),
+            blockNumber: 200n,
+            from: sponsor,
+            nonce: 7,
+            authorizationList: [
+                // skipped by the node: signed for another chain
+                authorization(wallet, CONTRACT_ADDRESSES.WEBAUTHN_ACCOUNT, 2, 1n),
+                // another authority in the same sponsored transaction
+                authorization(other, CONTRACT_ADDRESSES.WEBAUTHN_ACCOUNT, 0, BigInt(CHAIN_ID)),
+                authorization(wallet, CONTRACT_ADDRESSES.DEVICE_MANAGER, 2, ANY_CHAIN_ID),
+            ],
+        },
+        {
+            hash: "0x" + "a3".repeat(32),
+            blockNumber: 300n,
+            from: wallet.address,
+            nonce: 3,
+            authorizationList: [authorization(wallet, ethers.ZeroAddress, 3, 17000n)],
+        },
+    ];
+    for (const tx of txs) {
+        recordSetCodeTransaction(wallet.address, tx.hash, CHAIN_ID);
+    }
+    // recorded on another chain: not queried
+    recordSetCodeTransaction(wallet.address, "0x" + "a4".repeat(32), 17000);
+
+    const history = await loadDelegationHistory(fakeClient(txs, {}, [[100n, 2], [200n, 3], [300n, 5]]), wallet.address);
+
+    expect(history.map(entry => [entry.blockNumber, entry.delegateKind, entry.authorizationChainId])).toEqual([
+        [200n, "DeviceManager", 0n],
+        [100n, "SessionDelegate", BigInt(CHAIN_ID)],
+    ]);
+    expect(history[0]).toMatchObject({ sender: ethers.getAddress(sponsor), sponsored: true, authorizationNonce: 2n });
+    expect(history[1]).toMatchObject({ sponsored: false, timestamp: 1_700_000_100, status: "success" });
+    expect(history.map(entry => entry.applied)).toEqual([true, true]);
+});
+
+test("authorizations the node skipped for a nonce mismatch are not marked applied", async () => {
+    const tx: FakeTransaction = {
+        hash: "0x" + "b1".repeat(32),
+        blockNumber: 100n,
+        from: wallet.address,
+        nonce: 4,
+        authorizationList: [
+            // equals the sender's own tx nonce, which is consumed first
+            authorization(wallet, CONTRACT_ADDRESSES.WEBAUTHN_ACCOUNT, 4, BigInt(CHAIN_ID)),
+            authorization(wallet, CONTRACT_ADDRESSES.SESSION_DELEGATE, 5, BigInt(CHAIN_ID)),
+            // nonce 5 was already used by the previous authorization
+            authorization(wallet, CONTRACT_ADDRESSES.DEVICE_MANAGER, 5, BigInt(CHAIN_ID)),
+            // stale nonce
+            authorization(wallet, CONTRACT_ADDRESSES.DEVICE_MANAGER, 1, BigInt(CHAIN_ID)),
+        ],
+    };
+    recordSetCodeTransaction(wallet.address, tx.hash, CHAIN_ID);
+
+    const history = await loadDelegationHistory(fakeClient([tx], {}, [[99n, 4], [100n, 6]]), wallet.address);
+    expect(history.map(entry => [entry.authorizationNonce, entry.delegateKind, entry.applied])).toEqual([
+        [5n, "SessionDelegate", true],
+        [5n, "DeviceManager", false],
+        [4n, "WebAuthnAccount", false],
+        [1n, "DeviceManager", false],
+    ]);
+
+    // Without historical state the entries stay unconfirmed
+    const unconfirmed = await loadDelegationHistory(fakeClient([tx]), wallet.address);
+    expect(unconfirmed.every(entry => entry.applied === null)).toBe(true);
+});
@@ -0,0 +1,84 @@
+import { expect, test } from "bun:test";
+import { ethers } from "ethers";
+import {
+    ANY_CHAIN_ID,
+    authorizationNonce,
+    createEip7702Authorization,
+    fromAuthorizationListEntry,
+    hashEip7702Authorization,
+    recoverEip7702Authority,
+    signEip7702Authorization,
+    toAuthorizationListEntry,
+    verifyEip7702Authorization,
+} from "../../ui/src/lib/eip7702";
+
+const wallet = new ethers.Wallet("0x" + "11".repeat(32));
+const delegate = "0x1234567890123456789012345678901234567890";
+const SECP256K1_N = BigInt("0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141");
+
+test("digest is keccak256(0x05 || rlp([chain_id, address, nonce]))", () => {
+    const auth = createEip7702Authorization(delegate, 7, 11155111);
+    const expected = ethers.keccak256(ethers.concat([
+        "0x05",
+        ethers.encodeRlp([ethers.toBeHex(11155111), ethers.getAddress(delegate), "0x07"]),
+    ]));
+    expect(hashEip7702Authorization(auth)).toBe(expected);
+    expect(hashEip7702Authorization(auth)).toBe(ethers.hashAuthorization(auth));
+});
+
+test("chain_id 0 and nonce 0 encode as empty RLP strings", () => {
+    const auth = createEip7702Authorization(delegate, 0, ANY_CHAIN_ID);
+    expect(auth.chainId).toBe(ANY_CHAIN_ID);
+    const expected = ethers.keccak256(ethers.concat([
+        "0x05",
+        ethers.encodeRlp(["0x", ethers.getAddress(delegate), "0x"]),
+    ]));
+    expect(hashEip7702Authorization(auth)).toBe(expected);
+});
+
+test("signed tuple recovers the authority and matches ethers' authorize", async () => {
+    const auth = createEip7702Authorization(delegate, 3, 17000);
+    const signed = signEip7702Authorization(auth, wallet);
+    expect(recoverEip7702Authority(signed)).toBe(wallet.address);
+
+    const reference = await wallet.authorize({ address: delegate, nonce: 3, chainId: 17000 });
+    expect(signed.r).toBe(reference.signature.r);
+    expect(signed.s).toBe(reference.signature.s);
+    expect(signed.yParity).toBe(reference.signature.yParity);
+});
+
+test("any-chain authorizations are valid on every chain", () => {
+    const signed = signEip7702Authorization(createEip7702Authorization(delegate, 0, ANY_CHAIN_ID), wallet);
+    expect(verifyEip7702Authorization(signed, { chainId: 1, authority: wallet.address }).valid).toBe(true);
+    expect(verifyEip7702Authorization(signed, { chainId: 17000 }).valid).toBe(true);
+});
+
+test("verification rejects another chain, another authority and high-s signatures", () => {
+    const signed = signEip7702Authorization(createEip7702Authorization(delegate, 0, 17000), wallet);
+    expect(verifyEip7702Authorization(signed, { chainId: 11155111 }).valid).toBe(false);
+
+    const other = verifyEip7702Authorization(signed, { authority: ethers.ZeroAddress });
+    expect(other.valid).toBe(false);
+    expect(other.authority).toBe(wallet.address);
+
+    const highS = {
+        ...signed,
+        s: ethers.toBeHex(SECP256K1_N - BigInt(signed.s), 32),
+        yParity: (1 - signed.yParity) as 0 | 1,
+    };
+    expect(verifyEip7702Authorization(highS).valid).toBe(false);
+});
+
+test("authorizationList entries round-trip", () => {
+    const signed = signEip7702Authorization(createEip7702Authorization(delegate, 42, 11155111), wallet);
+    const entry = toAuthorizationListEntry(signed);
+    expect(entry.chainId).toBe("0xaa36a7");
+    expect(entry.nonce).toBe("0x2a");
+    expect(fromAuthorizationListEntry(entry)).toEqual(signed);
+});
+
+test("self-sponsored authorizations use the next account nonce", () => {
+    expect(authorizationNonce(5, true)).toBe(6n);
+    expect(authorizationNonce(5, false)).toBe(5n);
+    expect(() => createEip7702Authorization(delegate, 2n ** 64n - 1n, 17000)).toThrow();
+});
@@ -1,19 +1,42 @@
 import { BarretenbergBackend, CompiledCircuit } from "@noir-lang/backend_barretenberg";
-import webAuthnCircuit from "../target/webauthn.json";
 import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { CIRCUIT_VERSION } from "../../ui/src/lib/circuitInputs";
 
+// Expected vkey hashes read by ui/src/lib/noirVerifier.ts (CIRCUIT_VERIFICATION_KEYS), independent of the working directory
+const CIRCUIT_VERIFICATION_KEYS_PATH = path.join(import.meta.dir, '../../ui/src/lib/circuitVerificationKeys.json');
 
-export const exportNoirVerificationKey = async (webAuthnCircuit: CompiledCircuit) => {
+export const pinVerificationKeyHash = (vkeyHash: string, keysPath: string = CIRCUIT_VERIFICATION_KEYS_PATH) => {
+    const keys = JSON.parse(fs.readFileSync(keysPath, 'utf8'));
+    if (!keys[CIRCUIT_VERSION]) {
+        throw new Error(`Circuit version ${CIRCUIT_VERSION} is missing from ${keysPath}`);
+    }
+    keys[CIRCUIT_VERSION].vkeyHash = vkeyHash;
+    fs.writeFileSync(keysPath, JSON.stringify(keys, null, 2) + '\n');
+    console.log(`vkey sha256 pinned for ${keys[CIRCUIT_VERSION].circuitId} in ${keysPath}`);
+}
+
+
+export const exportNoirVerificationKey = async (webAuthnCircuit: CompiledCircuit, outDir: string = '../target') => {
     // Circuit tools setup
     const backend = new BarretenbergBackend(webAuthnCircuit, { threads: 4 });
     let verificationKey = await backend.getVerificationKey();
     var b64VerificationKey = btoa(String.fromCharCode.apply(null, new Uint8Array(verificationKey)));
-    fs.writeFileSync('../target/vkey', verificationKey);
-    fs.writeFileSync('../target/vkey.b64', b64VerificationKey);
-    
-    return;
-}
+    fs.writeFileSync(path.join(outDir, 'vkey'), verificationKey);
+    fs.writeFileSync(path.join(outDir, 'vkey.b64'), b64VerificationKey);
 
-await exportNoirVerificationKey(webAuthnCircuit as CompiledCircuit);
+    const vkeyHash = '0x' + createHash('sha256').update(verificationKey).digest('hex');
+    fs.writeFileSync(path.join(outDir, 'vkey.sha256'), vkeyHash);
+    console.log('vkey sha256:', vkeyHash);
+    pinVerificationKeyHash(vkeyHash);
 
-process.exit();
\ No newline at end of file
+    await backend.destroy();
+    return vkeyHash;
+}
+
+if (import.meta.main) {
+    const webAuthnCircuit = JSON.parse(fs.readFileSync('../target/webauthn.json', 'utf8'));
+    await exportNoirVerificationKey(webAuthnCircuit as CompiledCircuit);
+    process.exit();
+}
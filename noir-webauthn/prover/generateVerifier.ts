@@ -0,0 +1,100 @@
+import { CompiledCircuit } from '@noir-lang/backend_barretenberg';
+import { ethers } from 'ethers';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { buildWebAuthnCircuitInputs } from '../../ui/src/lib/circuitInputs';
+import { encodeContractPublicInputs } from '../../ui/src/lib/proofEnvelope';
+import { exportNoirVerificationKey } from './extractVerificationKey';
+import { proveToEnvelope } from './proveEnvelope';
+
+// Solidity verifier pipeline for the Foundry tests:
+//   1. nargo compile                      -> ../target/webauthn.json
+//   2. export the vkey                    -> ../target/vkey, vkey.b64, vkey.sha256, ui circuitVerificationKeys.json
+//   3. bb write_vk + bb contract          -> contracts/src/generated/UltraVerifier.sol
+//   4. prove every fixtures/*.json vector -> contracts/test/fixtures/<name>.proof.json
+//
+// UltraVerifier takes the full circuit public inputs (bytes32[]); WebAuthnVerifier.sol adapts it to
+// the IVerifier.verify(bytes, uint256[]) interface of SessionDelegate.
+//
+// Usage: bun generateVerifier.ts [--skip-compile] [--contracts ../../contracts] [--fixtures fixtures]
+
+const { values: options } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+        'skip-compile': { type: 'boolean', default: false },
+        contracts: { type: 'string', default: '../../contracts' },
+        fixtures: { type: 'string', default: 'fixtures' },
+        target: { type: 'string', default: '../target' },
+    },
+});
+
+const CIRCUIT_DIR = '..';
+const circuitPath = path.join(options.target!, 'webauthn.json');
+const vkPath = path.join(options.target!, 'vk');
+const verifierPath = path.join(options.contracts!, 'src/generated/UltraVerifier.sol');
+const proofFixtureDir = path.join(options.contracts!, 'test/fixtures');
+
+function run(command: string, args: string[], cwd = '.') {
+    console.log(`$ ${command} ${args.join(' ')}`);
+    const result = spawnSync(command, args, { cwd, stdio: 'inherit' });
+    if (result.error) {
+        throw new Error(`${command} is not available (${result.error.message})`);
+    }
+    if (result.status !== 0) {
+        throw new Error(`${command} ${args[0]} exited with ${result.status}`);
+    }
+}
+
+async function writeProofFixture(circuit: CompiledCircuit, fixtureFile: string) {
+    const name = path.basename(fixtureFile, '.json');
+    const fixture = JSON.parse(fs.readFileSync(fixtureFile, 'utf8'));
+    const envelope = await proveToEnvelope(circuit, buildWebAuthnCircuitInputs(fixture, { identity: fixture.identity }));
+
+    // Field order matches the keys read by WebAuthnVerifier.t.sol (vm.parseJson*)
+    const proofFixture = {
+        description: fixture.description,
+        vkeyHash: envelope.vkeyHash,
+        proof: envelope.proof,
+        circuitPublicInputs: envelope.publicInputs.map(input => ethers.zeroPadValue(input, 32)),
+        publicInputs: encodeContractPublicInputs(envelope).map(input => ethers.toBeHex(input, 32)),
+    };
+    const outFile = path.join(proofFixtureDir, `${name}.proof.json`);
+    fs.writeFileSync(outFile, JSON.stringify(proofFixture, null, 2) + '\n');
+    console.log(`✅ ${outFile}`);
+}
+
+async function main() {
+    if (!options['skip-compile']) {
+        run('nargo', ['compile'], CIRCUIT_DIR);
+    }
+    if (!fs.existsSync(circuitPath)) {
+        throw new Error(`Circuit not found: ${circuitPath} (run nargo compile first)`);
+    }
+    const circuit = JSON.parse(fs.readFileSync(circuitPath, 'utf8')) as CompiledCircuit;
+
+    const vkeyHash = await exportNoirVerificationKey(circuit, options.target);
+
+    // bb must be the version bundled with @noir-lang/backend_barretenberg so the vkey and proofs agree
+    fs.mkdirSync(path.dirname(verifierPath), { recursive: true });
+    run('bb', ['write_vk', '-b', circuitPath, '-o', vkPath]);
+    run('bb', ['contract', '-k', vkPath, '-o', verifierPath]);
+    console.log(`✅ ${verifierPath}`);
+
+    fs.mkdirSync(proofFixtureDir, { recursive: true });
+    const fixtures = fs.readdirSync(options.fixtures!).filter(file => file.endsWith('.json'));
+    for (const file of fixtures) {
+        await writeProofFixture(circuit, path.join(options.fixtures!, file));
+    }
+
+    console.log(`\nvkey sha256: ${vkeyHash} (pinned in ui/src/lib/circuitVerificationKeys.json)`);
+    console.log('Run npm run circuit:copy in ui/, then forge test in contracts/');
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch(error => {
+        console.error(`❌ ${(error as Error).message}`);
+        process.exit(1);
+    });
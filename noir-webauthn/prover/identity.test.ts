@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import {
+    computeIdentity,
+    identityMatchesPublicKey,
+    IDENTITY_LEN,
+    parseIdentity,
+    publicKeyFromCircuitBytes,
+    publicKeyFromCoseKey,
+    publicKeyFromUint256,
+    publicKeyToCircuitBytes,
+    publicKeyToUint256,
+} from "../../ui/src/lib/identity";
+
+// Test vectors from the circuit's own tests in ../src/main.nr
+const vectors = [
+    {
+        name: "test_webauthn_verification_from_vibe_checker_134",
+        x: "0xc95b63ac419a509abdc3c2d23edbe0242b868fec89b27923709267ee2564911a",
+        y: "0xa9083f533a5dc02772738ab038fea27f5d139c5d3309c2a1fd0acb80abfeff53",
+        identity: "c59b18d3bdaccb4d689048559a9bb6e8265293bf.ecdsa_secp256r1",
+    },
+    {
+        name: "test_webauthn_verification_from_vibe_checker_243",
+        x: "0x0fcef10c15a0360b4f482c6d2b2d6536d2f30dec33212f42bb263cf9404625fc",
+        y: "0x2bdd7256f0b8e033ed29ad559382e1969f962c17395c52251b28457bfce003c5",
+        identity: "3f368bf90c71946fc7b0cde9161ace42985d235f.ecdsa_secp256r1",
+    },
+    {
+        name: "test_webauthn_verification_from_vibe_checker_243_bis",
+        x: "0x23fac2eb2f569f46248991c353f5cb890c1c2baba7e22c5ac76beb00e5e58543",
+        y: "0x546b9864488c6239ba1e4cbb81c2d19e6025fed33cc61be3a7f7cc339135785f",
+        identity: "ae0e5100ea7d28905ce690194c0717cd93756a20.ecdsa_secp256r1",
+    },
+];
+
+// COSE_Key for an ES256 / P-256 key: {1: 2, 3: -7, -1: 1, -2: x, -3: y}
+function coseKey(x: string, y: string): Uint8Array {
+    return Buffer.from("a5010203262001215820" + x.slice(2) + "225820" + y.slice(2), "hex");
+}
+
+describe.each(vectors)("$name", ({ x, y, identity }) => {
+    test("computeIdentity matches the circuit identity", () => {
+        expect(computeIdentity(x, y)).toBe(identity);
+        expect(identity.length).toBe(IDENTITY_LEN);
+    });
+
+    test("parseIdentity returns the sha256 suffix", () => {
+        expect(parseIdentity(identity)).toEqual({
+            hash: "0x" + identity.slice(0, 40),
+            scheme: "ecdsa_secp256r1",
+        });
+        expect(identityMatchesPublicKey(identity, { x, y })).toBe(true);
+    });
+
+    test("COSE, uint256[2] and circuit byte conversions round-trip", () => {
+        const publicKey = publicKeyFromCoseKey(coseKey(x, y));
+        expect(publicKey).toEqual({ x, y });
+
+        const [ux, uy] = publicKeyToUint256(publicKey);
+        expect(ux).toBe(BigInt(x));
+        expect(uy).toBe(BigInt(y));
+        expect(publicKeyFromUint256([ux, uy])).toEqual(publicKey);
+
+        const { pub_key_x, pub_key_y } = publicKeyToCircuitBytes(publicKey);
+        expect(pub_key_x).toHaveLength(32);
+        expect(publicKeyFromCircuitBytes(pub_key_x, pub_key_y)).toEqual(publicKey);
+    });
+});
+
+test("identity of another key does not match", () => {
+    const [a, b] = vectors;
+    expect(identityMatchesPublicKey(a.identity, { x: b.x, y: b.y })).toBe(false);
+});
+
+test("parseIdentity rejects malformed identities", () => {
+    const { identity } = vectors[0];
+    expect(() => parseIdentity(identity.toUpperCase())).toThrow();
+    expect(() => parseIdentity(identity.replace(".ecdsa_secp256r1", ".ecdsa_secp256k1"))).toThrow();
+    expect(() => parseIdentity(identity.slice(2))).toThrow();
+});
+
+test("publicKeyFromCircuitBytes rejects non-byte values", () => {
+    const { pub_key_x, pub_key_y } = publicKeyToCircuitBytes(vectors[0]);
+    expect(() => publicKeyFromCircuitBytes([256, ...pub_key_x.slice(1)], pub_key_y)).toThrow();
+    expect(() => publicKeyFromCircuitBytes(pub_key_x.slice(1), pub_key_y)).toThrow();
+});
@@ -0,0 +1,87 @@
+import "fake-indexeddb/auto";
+import { beforeEach, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import {
+    deleteSessionKey,
+    discardLegacySessions,
+    getSessionKey,
+    isSessionKeyUnlocked,
+    lockSessionKey,
+    putSessionKey,
+    SESSION_KEY_RECORD_VERSION,
+    unlockSessionKey,
+} from "../../ui/src/lib/keystore";
+
+const owner = "0x1111111111111111111111111111111111111111";
+const sessionWallet = new ethers.Wallet("0x" + "42".repeat(32));
+const secret = "prf-output-or-passphrase";
+
+// Minimal localStorage for the sessions_<address> metadata
+const storage = new Map<string, string>();
+globalThis.localStorage = {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+    removeItem: (key: string) => { storage.delete(key); },
+    clear: () => storage.clear(),
+    key: (index: number) => [...storage.keys()][index] ?? null,
+    get length() { return storage.size; },
+} as Storage;
+
+beforeEach(async () => {
+    storage.clear();
+    lockSessionKey();
+    await deleteSessionKey("session-1");
+});
+
+test("put stores only ciphertext and get returns metadata", async () => {
+    const info = await putSessionKey({ id: "session-1", owner, privateKey: sessionWallet.privateKey }, secret);
+
+    expect(info).toMatchObject({ id: "session-1", owner, address: sessionWallet.address, version: SESSION_KEY_RECORD_VERSION });
+    expect(await getSessionKey("session-1")).toEqual(info);
+    expect(await getSessionKey("missing")).toBeNull();
+    expect(isSessionKeyUnlocked("session-1")).toBe(false);
+});
+
+test("unlock decrypts with the secret, caches the key until lock", async () => {
+    await putSessionKey({ id: "session-1", owner, privateKey: sessionWallet.privateKey }, secret);
+
+    await expect(unlockSessionKey("session-1")).rejects.toThrow("잠겨 있습니다");
+    await expect(unlockSessionKey("session-1", "wrong-secret")).rejects.toThrow("복호화 실패");
+    expect(isSessionKeyUnlocked("session-1")).toBe(false);
+
+    expect(await unlockSessionKey("session-1", secret)).toBe(sessionWallet.privateKey);
+    expect(isSessionKeyUnlocked("session-1")).toBe(true);
+    expect(await unlockSessionKey("session-1")).toBe(sessionWallet.privateKey);
+
+    lockSessionKey("session-1");
+    expect(isSessionKeyUnlocked("session-1")).toBe(false);
+    await expect(unlockSessionKey("session-1")).rejects.toThrow("잠겨 있습니다");
+});
+
+test("delete removes the record and the cached key", async () => {
+    await putSessionKey({ id: "session-1", owner, privateKey: sessionWallet.privateKey }, secret);
+    await unlockSessionKey("session-1", secret);
+
+    await deleteSessionKey("session-1");
+    expect(isSessionKeyUnlocked("session-1")).toBe(false);
+    expect(await getSessionKey("session-1")).toBeNull();
+    await expect(unlockSessionKey("session-1", secret)).rejects.toThrow("세션 키가 없습니다");
+});
+
+test("legacy localStorage sessions are discarded, not migrated", async () => {
+    await putSessionKey({ id: "session-1", owner, privateKey: sessionWallet.privateKey }, secret);
+    localStorage.setItem(`sessions_${owner}`, JSON.stringify([
+        { id: "session-1", publicKey: sessionWallet.address },
+        { id: "legacy-1", publicKey: "0x" + "11".repeat(20), createdAt: "2025-01-01T00:00:00.000Z", sessionKey: "U2FsdGVkX1+legacy" },
+    ]));
+
+    const discarded = await discardLegacySessions(owner);
+    expect(discarded).toEqual([
+        { id: "legacy-1", owner, address: "0x" + "11".repeat(20), createdAt: "2025-01-01T00:00:00.000Z" },
+    ]);
+    expect(JSON.parse(localStorage.getItem(`sessions_${owner}`)!)).toEqual([{ id: "session-1", publicKey: sessionWallet.address }]);
+    expect(await getSessionKey("legacy-1")).toBeNull();
+    expect(await getSessionKey("session-1")).not.toBeNull();
+
+    expect(await discardLegacySessions(owner)).toEqual([]);
+});
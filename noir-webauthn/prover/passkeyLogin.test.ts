@@ -0,0 +1,170 @@
+import { beforeEach, expect, mock, test } from "bun:test";
+import * as crypto from "crypto";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/types";
+import { ethers } from "ethers";
+import type { PublicClient } from "viem";
+import { SESSION_DELEGATE_ABI } from "../../ui/src/lib/contracts";
+import * as webauthn from "../../ui/src/lib/webauthn";
+
+// The browser ceremony is replaced by whatever response the test queues
+let nextResponse: AuthenticationResponseJSON;
+mock.module("../../ui/src/lib/webauthn", () => ({
+    ...webauthn,
+    authenticateDiscoverable: async () => nextResponse,
+}));
+
+const {
+    signInWithPasskey,
+    userHandleToAddress,
+    verifyAssertionSignature,
+    WALLET_CONNECTION_REQUIRED,
+} = await import("../../ui/src/lib/passkeyLogin");
+
+const owner = ethers.getAddress("0x1111111111111111111111111111111111111111");
+const credentialId = "Y3JlZGVudGlhbC0x";
+
+function memoryStorage(): Storage {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); },
+        clear: () => items.clear(),
+        key: (index: number) => [...items.keys()][index] ?? null,
+        get length() { return items.size; },
+    } as Storage;
+}
+globalThis.localStorage = memoryStorage();
+globalThis.sessionStorage = memoryStorage();
+
+function p256Key() {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const jwk = publicKey.export({ format: "jwk" });
+    return {
+        privateKey,
+        x: ethers.hexlify(Buffer.from(jwk.x!, "base64url")),
+        y: ethers.hexlify(Buffer.from(jwk.y!, "base64url")),
+    };
+}
+
+const deviceKey = p256Key();
+
+// Signs authenticatorData || SHA-256(clientDataJSON) like an authenticator (DER-encoded ECDSA)
+function assertion(key: ReturnType<typeof p256Key>, signCount: number, userHandle?: string): AuthenticationResponseJSON {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(signCount);
+    const authenticatorData = Buffer.concat([Buffer.alloc(32, 1), Buffer.from([0x05]), counter]);
+    const clientDataJSON = Buffer.from(JSON.stringify({ type: "webauthn.get", challenge: "AAAA", origin: "http://localhost" }));
+    const clientDataHash = crypto.createHash("sha256").update(clientDataJSON).digest();
+    const signature = crypto.sign("sha256", Buffer.concat([authenticatorData, clientDataHash]), key.privateKey);
+    return {
+        id: credentialId,
+        rawId: credentialId,
+        type: "public-key",
+        clientExtensionResults: {},
+        response: {
+            authenticatorData: authenticatorData.toString("base64url"),
+            clientDataJSON: clientDataJSON.toString("base64url"),
+            signature: signature.toString("base64url"),
+            userHandle,
+        },
+    };
+}
+
+const ownerHandle = Buffer.from(owner).toString("base64url");
+
+function storeDevice(overrides: Record<string, unknown> = {}) {
+    localStorage.setItem(`devices_${owner}`, JSON.stringify([{
+        id: "0xlocal",
+        name: "MacBook",
+        credentialId,
+        pubKeyX: deviceKey.x,
+        pubKeyY: deviceKey.y,
+        isActive: true,
+        signCount: 0,
+        ...overrides,
+    }]));
+}
+
+// SessionDelegate getOwnerDevices / devices answered from the EOA's delegated code
+function sessionDelegateClient(devices: { id: string; x: string; y: string; name: string }[]): PublicClient {
+    const iface = new ethers.Interface(SESSION_DELEGATE_ABI);
+    return {
+        call: async ({ data }: { data: string }) => {
+            const call = iface.parseTransaction({ data })!;
+            if (call.name === "getOwnerDevices") {
+                return { data: iface.encodeFunctionResult(call.fragment, [devices.map(device => device.id)]) };
+            }
+            const device = devices.find(item => item.id === call.args[1])!;
+            return { data: iface.encodeFunctionResult(call.fragment, [device.x, device.y, true, 1_700_000_000, device.name]) };
+        },
+    } as unknown as PublicClient;
+}
+
+beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+});
+
+test("userHandleToAddress decodes the EOA stored as user.id", () => {
+    expect(userHandleToAddress(Buffer.from(owner.toLowerCase()).toString("base64url"))).toBe(owner);
+    expect(() => userHandleToAddress(Buffer.from("alice").toString("base64url"))).toThrow("EOA 주소가 아닙니다");
+});
+
+test("verifyAssertionSignature checks the assertion against the device public key", async () => {
+    const response = assertion(deviceKey, 1, ownerHandle);
+    expect(await verifyAssertionSignature(response, deviceKey)).toBe(true);
+
+    const otherKey = p256Key();
+    expect(await verifyAssertionSignature(response, otherKey)).toBe(false);
+});
+
+test("sign-in resolves the account from userHandle and a local device", async () => {
+    storeDevice();
+    nextResponse = assertion(deviceKey, 1, ownerHandle);
+
+    const account = await signInWithPasskey();
+    expect(account).toMatchObject({ address: owner, credentialId, deviceId: "0xlocal", deviceName: "MacBook" });
+    expect(JSON.parse(sessionStorage.getItem("passkeyAccount")!)).toEqual(account);
+});
+
+test("a response without userHandle asks for a wallet connection", async () => {
+    storeDevice();
+    nextResponse = assertion(deviceKey, 1);
+
+    const error = await signInWithPasskey().catch(error => error as Error);
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).name).toBe(WALLET_CONNECTION_REQUIRED);
+    expect(sessionStorage.getItem("passkeyAccount")).toBeNull();
+});
+
+test("sign-in rejects inactive devices, unknown passkeys and bad signatures", async () => {
+    storeDevice({ isActive: false });
+    nextResponse = assertion(deviceKey, 1, ownerHandle);
+    await expect(signInWithPasskey()).rejects.toThrow("비활성화된 디바이스");
+
+    localStorage.clear();
+    await expect(signInWithPasskey()).rejects.toThrow("등록된 디바이스가 아닙니다");
+
+    storeDevice();
+    nextResponse = assertion(p256Key(), 1, ownerHandle);
+    await expect(signInWithPasskey()).rejects.toThrow("서명 검증 실패");
+});
+
+test("devices registered in another browser are restored from SessionDelegate", async () => {
+    const otherDevice = p256Key();
+    const client = sessionDelegateClient([
+        { id: "0x" + "0a".repeat(32), x: otherDevice.x, y: otherDevice.y, name: "YubiKey" },
+        { id: "0x" + "0b".repeat(32), x: deviceKey.x, y: deviceKey.y, name: "MacBook" },
+    ]);
+    nextResponse = assertion(deviceKey, 1, ownerHandle);
+
+    const account = await signInWithPasskey(false, client);
+    expect(account).toMatchObject({ address: owner, deviceId: "0x" + "0b".repeat(32), deviceName: "MacBook" });
+
+    const saved = JSON.parse(localStorage.getItem(`devices_${owner}`)!);
+    expect(saved.map((device: { name: string; credentialId: string }) => [device.name, device.credentialId])).toEqual([
+        ["YubiKey", ""],
+        ["MacBook", credentialId],
+    ]);
+});
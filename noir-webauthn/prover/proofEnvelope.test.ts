@@ -0,0 +1,130 @@
+import { expect, test } from "bun:test";
+import { ethers } from "ethers";
+import { buildWebAuthnCircuitInputs, CIRCUIT_VERSION, PUBLIC_INPUTS_LEN } from "../../ui/src/lib/circuitInputs";
+import { CIRCUIT_VERIFICATION_KEYS, pinnedVerificationKeyHash } from "../../ui/src/lib/noirVerifier";
+import {
+    createProofEnvelope,
+    decodeProofFromCalldata,
+    encodeContractPublicInputs,
+    encodeExecuteCalldata,
+    encodeRegisterDeviceCalldata,
+    encodeStartSessionCalldata,
+    parseProofEnvelope,
+    PROOF_ENVELOPE_VERSION,
+    serializeProofEnvelope,
+} from "../../ui/src/lib/proofEnvelope";
+import { verifyZKProofOffchain } from "../../ui/src/lib/zkProofs";
+import fixture from "./fixtures/webauthn-134.json";
+
+// The circuit makes every main.nr parameter public, in declaration order
+function circuitPublicInputs(): string[] {
+    const inputs = buildWebAuthnCircuitInputs(fixture, { identity: fixture.identity });
+    const identity = [...(inputs.identity as string)].map(char => char.charCodeAt(0));
+    const fields = [
+        inputs.version, inputs.initial_state_len, ...(inputs.initial_state as number[]),
+        inputs.next_state_len, ...(inputs.next_state as number[]),
+        inputs.identity_len, ...identity,
+        inputs.tx_hash_len, inputs.index,
+        inputs.blobs_len, ...(inputs.blobs as number[]),
+        inputs.success ? 1 : 0,
+    ];
+    return fields.map(field => ethers.toBeHex(BigInt(field as number), 32));
+}
+
+const vkeyHash = "0x" + "ab".repeat(32);
+const publicInputs = circuitPublicInputs();
+const envelope = createProofEnvelope({ proof: "0x" + "5a".repeat(2144), publicInputs }, CIRCUIT_VERSION, vkeyHash);
+
+// clientDataJSON.challenge = base64url("0123456789abcdef0123456789abcdef")
+const challengeHash = ethers.hexlify(ethers.toUtf8Bytes("0123456789abcdef0123456789abcdef"));
+
+test("fixture public inputs match the circuit layout", () => {
+    expect(publicInputs).toHaveLength(PUBLIC_INPUTS_LEN);
+});
+
+test("envelope serializes and parses back unchanged", () => {
+    expect(envelope.version).toBe(PROOF_ENVELOPE_VERSION);
+    expect(envelope.circuitId).toBe("noir-webauthn-v1");
+    expect(envelope.vkeyHash).toBe(vkeyHash);
+    expect(parseProofEnvelope(serializeProofEnvelope(envelope))).toEqual(envelope);
+
+    expect(() => parseProofEnvelope(JSON.stringify({ ...envelope, version: 2 }))).toThrow("버전");
+    expect(() => parseProofEnvelope(JSON.stringify({ ...envelope, vkeyHash: undefined }))).toThrow("vkeyHash");
+});
+
+test("unpinned and unknown circuit versions have no vkey hash", () => {
+    const keys = {
+        1: { circuitId: "noir-webauthn-v1", vkeyHash: null },
+        2: { circuitId: "noir-webauthn-v2", vkeyHash },
+    };
+    expect(() => pinnedVerificationKeyHash(1, keys)).toThrow("고정되지 않았습니다");
+    expect(pinnedVerificationKeyHash(2, keys)).toBe(vkeyHash);
+    expect(() => pinnedVerificationKeyHash(3, keys)).toThrow("등록되어 있지 않습니다");
+    expect(() => createProofEnvelope({ proof: envelope.proof, publicInputs }, 3)).toThrow("등록되어 있지 않습니다");
+});
+
+test("off-chain verification reports an unpinned vkey instead of rejecting", async () => {
+    const pinned = CIRCUIT_VERIFICATION_KEYS[CIRCUIT_VERSION];
+    CIRCUIT_VERIFICATION_KEYS[CIRCUIT_VERSION] = { ...pinned, vkeyHash: null };
+    try {
+        const result = await verifyZKProofOffchain({ proof: envelope.proof, publicInputs });
+        expect(result.valid).toBe(false);
+        expect(result.vkeyPinned).toBe(false);
+        expect(result.circuitId).toBe("noir-webauthn-v1");
+        expect(result.reason).toContain("고정되지 않아");
+    } finally {
+        CIRCUIT_VERIFICATION_KEYS[CIRCUIT_VERSION] = pinned;
+    }
+});
+
+test("contract public inputs for webauthn-134 are [challengeHash, pubKeyX, pubKeyY]", () => {
+    expect(encodeContractPublicInputs(envelope)).toEqual([
+        BigInt(challengeHash),
+        BigInt(fixture.pubKeyX),
+        BigInt(fixture.pubKeyY),
+    ]);
+});
+
+function expectRoundTrip(calldata: string, functionName: string) {
+    const decoded = decodeProofFromCalldata(calldata);
+    expect(decoded.functionName).toBe(functionName);
+    expect(decoded.proof).toBe(envelope.proof);
+    expect(decoded.circuitPublicInputs).toEqual(publicInputs);
+    expect(decoded.publicInputs).toEqual({
+        challengeHash,
+        pubKeyX: BigInt(fixture.pubKeyX),
+        pubKeyY: BigInt(fixture.pubKeyY),
+    });
+    return decoded;
+}
+
+test("registerDevice calldata round-trips through decodeProofFromCalldata", () => {
+    const decoded = expectRoundTrip(encodeRegisterDeviceCalldata(envelope, "YubiKey 5C"), "registerDevice");
+    expect(decoded.args.deviceName).toBe("YubiKey 5C");
+});
+
+test("startSession calldata round-trips through decodeProofFromCalldata", () => {
+    const session = {
+        walletSig: "0x" + "11".repeat(65),
+        sessionPubKeyX: 1n,
+        sessionPubKeyY: 2n,
+        ttl: 3600n,
+        encryptedSessionKey: "0x" + "22".repeat(32),
+    };
+    const decoded = expectRoundTrip(encodeStartSessionCalldata(envelope, session), "startSession");
+    expect(decoded.args.walletSig).toBe(session.walletSig);
+    expect(decoded.args.ttl).toBe(3600n);
+    expect(decoded.args.encryptedSessionKey).toBe(session.encryptedSessionKey);
+});
+
+test("execute calldata round-trips the hardware proof through decodeProofFromCalldata", () => {
+    const tx = { data: "0xdeadbeef", r: 3n, s: 4n, v: 27 };
+    const decoded = expectRoundTrip(encodeExecuteCalldata(envelope, tx), "execute");
+    expect(decoded.args.data).toBe(tx.data);
+    expect(decoded.args.v).toBe(27n);
+});
+
+test("calls without a proof are rejected", () => {
+    const revoke = new ethers.Interface(["function revokeSession()"]).encodeFunctionData("revokeSession");
+    expect(() => decodeProofFromCalldata(revoke)).toThrow("SessionDelegate");
+});
@@ -0,0 +1,31 @@
+import { BarretenbergBackend, CompiledCircuit } from '@noir-lang/backend_barretenberg';
+import { InputMap, Noir } from '@noir-lang/noir_js';
+import { ethers } from 'ethers';
+import { createHash } from 'crypto';
+import { CIRCUIT_VERSION } from '../../ui/src/lib/circuitInputs';
+import { createProofEnvelope, type ProofEnvelope } from '../../ui/src/lib/proofEnvelope';
+
+export function sha256Hex(data: Uint8Array): string {
+    return '0x' + createHash('sha256').update(data).digest('hex');
+}
+
+// Execute + prove with Barretenberg; the envelope carries the hash of the vkey actually used
+export async function proveToEnvelope(circuit: CompiledCircuit, inputs: InputMap): Promise<ProofEnvelope> {
+    const backend = new BarretenbergBackend(circuit);
+    try {
+        const noir = new Noir(circuit);
+        console.log('Executing circuit...');
+        const { witness } = await noir.execute(inputs);
+        console.log('Generating proof...');
+        const proof = await backend.generateProof(witness);
+        const vkeyHash = sha256Hex(await backend.getVerificationKey());
+
+        return createProofEnvelope(
+            { proof: ethers.hexlify(proof.proof), publicInputs: proof.publicInputs },
+            CIRCUIT_VERSION,
+            vkeyHash,
+        );
+    } finally {
+        await backend.destroy();
+    }
+}
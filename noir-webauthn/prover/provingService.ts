@@ -0,0 +1,270 @@
+import { BarretenbergBackend, CompiledCircuit } from '@noir-lang/backend_barretenberg';
+import { InputMap, Noir } from '@noir-lang/noir_js';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import { validateCircuitInputs } from '../../ui/src/lib/circuitInputs';
+
+// Local HTTP proving service for devices too slow to prove in the browser.
+//
+//   POST   /jobs             { inputs }  -> 202 { id }
+//   GET    /jobs/:id                     -> job status (+ proof when done)
+//   GET    /jobs/:id/events              -> Server-Sent Events: progress, result, failed
+//   DELETE /jobs/:id                     -> cancel a queued job / discard a running one
+//   GET    /health
+//
+// Usage: bun provingService.ts [--port 8787] [--host 127.0.0.1] [--circuit ../target/webauthn.json]
+//                              [--allow-origin http://localhost:3000]
+
+const { values: options } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+        port: { type: 'string', default: '8787' },
+        host: { type: 'string', default: '127.0.0.1' },
+        circuit: { type: 'string', default: '../target/webauthn.json' },
+        'allow-origin': { type: 'string', multiple: true, default: ['http://localhost:3000'] },
+        threads: { type: 'string', default: '4' },
+    },
+});
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const JOB_RETENTION_MS = 10 * 60 * 1000;
+
+type JobStatus = 'queued' | 'loading-circuit' | 'executing' | 'proving' | 'done' | 'failed' | 'cancelled';
+
+interface ProvingJob {
+    id: string;
+    status: JobStatus;
+    inputs: InputMap;
+    createdAt: number;
+    proof?: string;
+    publicInputs?: string[];
+    error?: string;
+    listeners: Set<ServerResponse>;
+}
+
+if (!fs.existsSync(options.circuit!)) {
+    console.error(`Circuit not found: ${options.circuit} (run nargo compile first)`);
+    process.exit(1);
+}
+const circuit = JSON.parse(fs.readFileSync(options.circuit!, 'utf8')) as CompiledCircuit;
+const noir = new Noir(circuit);
+const backend = new BarretenbergBackend(circuit, { threads: Number(options.threads) });
+let backendReady = false;
+
+const jobs = new Map<string, ProvingJob>();
+const queue: ProvingJob[] = [];
+let draining = false;
+
+function isFinished(job: ProvingJob) {
+    return job.status === 'done' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+function jobView(job: ProvingJob) {
+    return {
+        id: job.id,
+        status: job.status,
+        position: queue.indexOf(job) + 1 || undefined,
+        proof: job.proof,
+        publicInputs: job.publicInputs,
+        error: job.error,
+    };
+}
+
+function sendEvent(res: ServerResponse, event: string, data: unknown) {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function publish(job: ProvingJob) {
+    for (const res of job.listeners) {
+        writeJobEvent(res, job);
+    }
+    if (isFinished(job)) {
+        for (const res of job.listeners) {
+            res.end();
+        }
+        job.listeners.clear();
+        setTimeout(() => jobs.delete(job.id), JOB_RETENTION_MS).unref();
+    }
+}
+
+function writeJobEvent(res: ServerResponse, job: ProvingJob) {
+    if (job.status === 'done') {
+        sendEvent(res, 'result', { proof: job.proof, publicInputs: job.publicInputs });
+    } else if (job.status === 'failed' || job.status === 'cancelled') {
+        sendEvent(res, 'failed', { message: job.error ?? job.status });
+    } else {
+        sendEvent(res, 'progress', { stage: job.status, position: queue.indexOf(job) + 1 || undefined });
+    }
+}
+
+function setStatus(job: ProvingJob, status: JobStatus) {
+    // A job cancelled while running keeps its cancelled state; the result is discarded
+    if (job.status === 'cancelled') return;
+    job.status = status;
+    publish(job);
+}
+
+async function runJob(job: ProvingJob) {
+    const startedAt = Date.now();
+    try {
+        if (!backendReady) {
+            setStatus(job, 'loading-circuit');
+            await backend.getVerificationKey(); // instantiates the WASM backend and CRS
+            backendReady = true;
+        }
+        setStatus(job, 'executing');
+        const { witness } = await noir.execute(job.inputs);
+        setStatus(job, 'proving');
+        const { proof, publicInputs } = await backend.generateProof(witness);
+
+        job.proof = '0x' + Buffer.from(proof).toString('hex');
+        job.publicInputs = publicInputs;
+        setStatus(job, 'done');
+        console.log(`✅ ${job.id} proved in ${Date.now() - startedAt} ms`);
+    } catch (error) {
+        job.error = (error as Error).message;
+        setStatus(job, 'failed');
+        console.error(`❌ ${job.id} failed: ${job.error}`);
+    }
+}
+
+// Barretenberg already uses every thread for one proof, so jobs run one at a time
+async function drainQueue() {
+    if (draining) return;
+    draining = true;
+    while (queue.length > 0) {
+        const job = queue.shift()!;
+        for (const queued of queue) {
+            publish(queued); // queue positions moved up
+        }
+        if (job.status !== 'cancelled') {
+            await runJob(job);
+        }
+    }
+    draining = false;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.setEncoding('utf8');
+        req.on('data', chunk => {
+            body += chunk;
+            if (body.length > MAX_BODY_BYTES) {
+                reject(new Error('Request body too large'));
+                req.destroy();
+            }
+        });
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+function applyCors(req: IncomingMessage, res: ServerResponse) {
+    const origin = req.headers.origin;
+    if (origin && options['allow-origin']!.includes(origin)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+        // Chrome Private Network Access: pages may call a service on localhost
+        res.setHeader('Access-Control-Allow-Private-Network', 'true');
+        res.setHeader('Vary', 'Origin');
+    }
+}
+
+async function createJob(req: IncomingMessage, res: ServerResponse) {
+    let inputs: InputMap;
+    try {
+        inputs = JSON.parse(await readBody(req)).inputs;
+        validateCircuitInputs(inputs);
+    } catch (error) {
+        return sendJson(res, 400, { error: (error as Error).message });
+    }
+
+    const job: ProvingJob = {
+        id: randomUUID(),
+        status: 'queued',
+        inputs,
+        createdAt: Date.now(),
+        listeners: new Set(),
+    };
+    jobs.set(job.id, job);
+    queue.push(job);
+    sendJson(res, 202, { id: job.id, position: queue.length });
+    console.log(`📥 ${job.id} queued (${queue.length} waiting)`);
+    void drainQueue();
+}
+
+function streamJob(req: IncomingMessage, res: ServerResponse, job: ProvingJob) {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+    });
+    writeJobEvent(res, job);
+    if (isFinished(job)) {
+        res.end();
+        return;
+    }
+    job.listeners.add(res);
+    req.on('close', () => job.listeners.delete(res));
+}
+
+function cancelJob(res: ServerResponse, job: ProvingJob) {
+    if (!isFinished(job)) {
+        job.error = 'Proof generation was cancelled';
+        job.status = 'cancelled';
+        publish(job);
+    }
+    sendJson(res, 200, jobView(job));
+}
+
+const server = createServer(async (req, res) => {
+    applyCors(req, res);
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        return res.end();
+    }
+
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    const [resource, id, sub] = url.pathname.split('/').filter(Boolean);
+
+    if (req.method === 'GET' && resource === 'health') {
+        return sendJson(res, 200, { ok: true, queued: queue.length, backendReady });
+    }
+    if (resource !== 'jobs') {
+        return sendJson(res, 404, { error: 'Not found' });
+    }
+    if (!id) {
+        return req.method === 'POST'
+            ? createJob(req, res)
+            : sendJson(res, 405, { error: 'Method not allowed' });
+    }
+
+    const job = jobs.get(id);
+    if (!job) {
+        return sendJson(res, 404, { error: `Unknown job: ${id}` });
+    }
+    if (req.method === 'GET' && sub === 'events') {
+        return streamJob(req, res, job);
+    }
+    if (req.method === 'GET' && !sub) {
+        return sendJson(res, 200, jobView(job));
+    }
+    if (req.method === 'DELETE' && !sub) {
+        return cancelJob(res, job);
+    }
+    sendJson(res, 405, { error: 'Method not allowed' });
+});
+
+server.listen(Number(options.port), options.host, () => {
+    console.log(`🔐 Proving service listening on http://${options.host}:${options.port}`);
+    console.log(`   circuit: ${options.circuit}, allowed origins: ${options['allow-origin']!.join(', ')}`);
+});
@@ -0,0 +1,61 @@
+import { expect, test } from "bun:test";
+import { ethers } from "ethers";
+import { createEip7702Authorization, signEip7702Authorization } from "../../ui/src/lib/eip7702";
+import {
+    buildSetCodeTransaction,
+    delegationCode,
+    parseDelegationCode,
+    parseSetCodeTransaction,
+    signSetCodeTransaction,
+} from "../../ui/src/lib/setCodeTransaction";
+
+const authority = new ethers.Wallet("0x" + "22".repeat(32));
+const sponsor = new ethers.Wallet("0x" + "33".repeat(32));
+const delegate = "0x1234567890123456789012345678901234567890";
+
+const fields = {
+    chainId: 17000n,
+    nonce: 4n,
+    to: authority.address,
+    gasLimit: 100000n,
+    maxFeePerGas: 2_000_000_000n,
+    maxPriorityFeePerGas: 1_000_000_000n,
+};
+
+test("self-sponsored set-code transaction serializes, parses and recovers sender and authority", () => {
+    const auth = signEip7702Authorization(createEip7702Authorization(delegate, 5n, 17000), authority);
+    const serialized = signSetCodeTransaction(buildSetCodeTransaction({ ...fields, authorizationList: [auth] }), authority);
+    expect(serialized.startsWith("0x04")).toBe(true);
+
+    const parsed = parseSetCodeTransaction(serialized);
+    expect(parsed.from).toBe(authority.address);
+    expect(parsed.nonce).toBe(4n);
+    expect(parsed.to).toBe(authority.address);
+    expect(parsed.authorizationList).toHaveLength(1);
+    expect(parsed.authorizationList[0].authority).toBe(authority.address);
+    expect(parsed.authorizationList[0].nonce).toBe(5n);
+    expect(parsed.hash).toBe(ethers.keccak256(serialized));
+});
+
+test("a sender-signed authorization must use the transaction nonce + 1", () => {
+    const auth = signEip7702Authorization(createEip7702Authorization(delegate, 4n, 17000), authority);
+    const tx = buildSetCodeTransaction({ ...fields, authorizationList: [auth] });
+    expect(() => signSetCodeTransaction(tx, authority)).toThrow();
+    // a sponsor sending the same tuple is fine: the authority's nonce is not bumped first
+    expect(parseSetCodeTransaction(signSetCodeTransaction(tx, sponsor)).from).toBe(sponsor.address);
+});
+
+test("only type 4 transactions with an authorization list are accepted", async () => {
+    expect(() => buildSetCodeTransaction({ ...fields, authorizationList: [] })).toThrow();
+    const eip1559 = await sponsor.signTransaction({ ...fields, type: 2, nonce: 4 });
+    expect(() => parseSetCodeTransaction(eip1559)).toThrow();
+});
+
+test("delegation code is 0xef0100 || delegate", () => {
+    const code = delegationCode(delegate);
+    expect(code).toBe("0xef0100" + delegate.slice(2).toLowerCase());
+    expect(parseDelegationCode(code)).toBe(ethers.getAddress(delegate));
+    expect(parseDelegationCode("0x")).toBeNull();
+    expect(parseDelegationCode("0x6080604052")).toBeNull();
+    expect(parseDelegationCode("0xef0200" + delegate.slice(2))).toBeNull();
+});
@@ -0,0 +1,116 @@
+import { beforeEach, expect, test } from "bun:test";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/types";
+import {
+    initialSignCountFields,
+    isSignCountRegression,
+    setSignCounterPolicy,
+    trackAssertionSignCount,
+    type SignCountedDevice,
+} from "../../ui/src/lib/signCounter";
+
+const owner = "0x1111111111111111111111111111111111111111";
+const credentialId = "Y3JlZGVudGlhbC0x";
+
+const storage = new Map<string, string>();
+globalThis.localStorage = {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+    removeItem: (key: string) => { storage.delete(key); },
+    clear: () => storage.clear(),
+    key: (index: number) => [...storage.keys()][index] ?? null,
+    get length() { return storage.size; },
+} as Storage;
+
+// Only id and authenticatorData are read by the counter tracker
+function assertion(signCount: number): AuthenticationResponseJSON {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(signCount);
+    const authenticatorData = Buffer.concat([Buffer.alloc(32, 1), Buffer.from([0x05]), counter]);
+    return {
+        id: credentialId,
+        rawId: credentialId,
+        type: "public-key",
+        clientExtensionResults: {},
+        response: {
+            authenticatorData: authenticatorData.toString("base64url"),
+            clientDataJSON: "",
+            signature: "",
+        },
+    };
+}
+
+function registerDevice(signCount: number, overrides: Partial<SignCountedDevice> = {}) {
+    const device: SignCountedDevice = {
+        id: "0xdevice",
+        credentialId,
+        isActive: true,
+        ...initialSignCountFields(signCount),
+        ...overrides,
+    };
+    localStorage.setItem(`devices_${owner}`, JSON.stringify([device]));
+}
+
+function storedDevice(): SignCountedDevice {
+    return JSON.parse(localStorage.getItem(`devices_${owner}`)!)[0];
+}
+
+beforeEach(() => storage.clear());
+
+test("isSignCountRegression flags equal or lower counters but not 0/0", () => {
+    expect(isSignCountRegression(5, 6)).toBe(false);
+    expect(isSignCountRegression(5, 5)).toBe(true);
+    expect(isSignCountRegression(5, 4)).toBe(true);
+    expect(isSignCountRegression(0, 0)).toBe(false);
+    expect(isSignCountRegression(3, 0)).toBe(true);
+});
+
+test("trackAssertionSignCount advances the counter and ignores unknown credentials", () => {
+    registerDevice(3);
+    const result = trackAssertionSignCount(owner, assertion(4));
+    expect(result).toMatchObject({ previousSignCount: 3, signCount: 4, cloneSuspected: false, deactivated: false });
+    expect(storedDevice().signCount).toBe(4);
+    expect(storedDevice().signCountHistory).toHaveLength(2);
+
+    expect(trackAssertionSignCount(owner, { ...assertion(5), id: "other" })).toBeNull();
+});
+
+test("counters that stay at zero are not treated as clones", () => {
+    registerDevice(0);
+    expect(trackAssertionSignCount(owner, assertion(0))!.cloneSuspected).toBe(false);
+    expect(trackAssertionSignCount(owner, assertion(0))!.cloneSuspected).toBe(false);
+    expect(storedDevice().cloneSuspected).toBe(false);
+    expect(storedDevice().isActive).toBe(true);
+});
+
+test("a regression is flagged and keeps the highest counter seen", () => {
+    registerDevice(10);
+    const result = trackAssertionSignCount(owner, assertion(7));
+    expect(result).toMatchObject({ cloneSuspected: true, deactivated: false });
+    expect(storedDevice()).toMatchObject({ signCount: 10, cloneSuspected: true, isActive: true });
+    expect(storedDevice().signCountHistory!.at(-1)).toMatchObject({ signCount: 7, regression: true });
+});
+
+test("a second regression on a clone-suspected device is rejected", () => {
+    registerDevice(10);
+    trackAssertionSignCount(owner, assertion(7));
+    expect(() => trackAssertionSignCount(owner, assertion(8))).toThrow("복제 의심");
+    // Moving past the highest counter is not a regression
+    expect(trackAssertionSignCount(owner, assertion(11))!.cloneSuspected).toBe(false);
+});
+
+test("auto-deactivate disables the device and later assertions are rejected", () => {
+    setSignCounterPolicy(owner, { autoDeactivate: true });
+    registerDevice(10);
+    expect(() => trackAssertionSignCount(owner, assertion(7))).toThrow("비활성화했습니다");
+    expect(storedDevice()).toMatchObject({ isActive: false, cloneSuspected: true });
+
+    // Neither another regression nor a valid counter from the deactivated device is accepted
+    expect(() => trackAssertionSignCount(owner, assertion(6))).toThrow("비활성화된 디바이스");
+    expect(() => trackAssertionSignCount(owner, assertion(20))).toThrow("비활성화된 디바이스");
+    expect(storedDevice().signCountHistory).toHaveLength(4);
+});
+
+test("assertions from a manually deactivated device are rejected", () => {
+    registerDevice(1, { isActive: false });
+    expect(() => trackAssertionSignCount(owner, assertion(2))).toThrow("비활성화된 디바이스");
+});
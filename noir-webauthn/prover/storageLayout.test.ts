@@ -0,0 +1,145 @@
+import { expect, test } from "bun:test";
+import { ethers } from "ethers";
+import type { PublicClient } from "viem";
+import {
+    checkRedelegationLayouts,
+    mappingSlot,
+    previousDelegateKinds,
+    SESSION_DELEGATE_STORAGE_SLOTS,
+} from "../../ui/src/lib/delegateStorage";
+import {
+    canonicalStorageType,
+    compareAllStorageLayouts,
+    compareStorageLayouts,
+    hasStorageConflict,
+    type FoundryStorageLayout,
+} from "../../ui/src/lib/storageLayout";
+
+// Trimmed `forge inspect <Contract> storageLayout --json` output
+const sessionDelegate: FoundryStorageLayout = {
+    storage: [
+        { astId: 12, contract: "src/SessionDelegate.sol:SessionDelegate", label: "sessions", offset: 0, slot: "0", type: "t_mapping(t_address,t_struct(Session)31_storage)" },
+        { astId: 18, contract: "src/SessionDelegate.sol:SessionDelegate", label: "ownerDevices", offset: 0, slot: "2", type: "t_mapping(t_address,t_array(t_bytes32)dyn_storage)" },
+    ],
+    types: {
+        t_address: { encoding: "inplace", label: "address", numberOfBytes: "20" },
+        t_bool: { encoding: "inplace", label: "bool", numberOfBytes: "1" },
+        t_bytes32: { encoding: "inplace", label: "bytes32", numberOfBytes: "32" },
+        t_uint256: { encoding: "inplace", label: "uint256", numberOfBytes: "32" },
+        "t_array(t_bytes32)dyn_storage": { encoding: "dynamic_array", label: "bytes32[]", numberOfBytes: "32", base: "t_bytes32" },
+        "t_mapping(t_address,t_array(t_bytes32)dyn_storage)": { encoding: "mapping", label: "mapping(address => bytes32[])", numberOfBytes: "32", key: "t_address", value: "t_array(t_bytes32)dyn_storage" },
+        "t_mapping(t_address,t_struct(Session)31_storage)": { encoding: "mapping", label: "mapping(address => struct SessionDelegate.Session)", numberOfBytes: "32", key: "t_address", value: "t_struct(Session)31_storage" },
+        "t_struct(Session)31_storage": {
+            encoding: "inplace",
+            label: "struct SessionDelegate.Session",
+            numberOfBytes: "64",
+            members: [
+                { astId: 28, contract: "src/SessionDelegate.sol:SessionDelegate", label: "expires", offset: 0, slot: "0", type: "t_uint256" },
+                { astId: 30, contract: "src/SessionDelegate.sol:SessionDelegate", label: "isActive", offset: 0, slot: "1", type: "t_bool" },
+            ],
+        },
+    },
+};
+
+// No set-code transactions recorded in this browser
+globalThis.localStorage = {
+    getItem: () => null,
+    setItem: () => {},
+    removeItem: () => {},
+    clear: () => {},
+    key: () => null,
+    length: 0,
+} as Storage;
+
+const account = "0x" + "55".repeat(20);
+
+// A cleared EOA whose storage still holds what earlier delegates wrote
+function clearedAccount(slots: Record<string, bigint>): PublicClient {
+    return {
+        getChainId: async () => 11155111,
+        getCode: async () => undefined,
+        getStorageAt: async ({ slot }: { slot: string }) => ethers.toBeHex(slots[BigInt(slot).toString()] ?? 0n, 32),
+    } as unknown as PublicClient;
+}
+
+const deviceManager: FoundryStorageLayout = {
+    storage: [
+        { astId: 8, contract: "src/DeviceManager.sol:DeviceManager", label: "_owner", offset: 0, slot: "0", type: "t_address" },
+        { astId: 140, contract: "src/DeviceManager.sol:DeviceManager", label: "_status", offset: 0, slot: "1", type: "t_uint256" },
+        { astId: 301, contract: "src/DeviceManager.sol:DeviceManager", label: "userDevices", offset: 0, slot: "2", type: "t_mapping(t_address,t_array(t_bytes32)dyn_storage)" },
+    ],
+    types: sessionDelegate.types,
+};
+
+test("identical layouts with different AST ids are compatible", () => {
+    const recompiled = JSON.parse(
+        JSON.stringify(sessionDelegate).replaceAll("Session)31_storage", "Session)77_storage").replaceAll('"astId":12', '"astId":99')
+    ) as FoundryStorageLayout;
+    expect(canonicalStorageType(recompiled, recompiled.storage[0].type))
+        .toBe(canonicalStorageType(sessionDelegate, sessionDelegate.storage[0].type));
+    expect(compareStorageLayouts(sessionDelegate, recompiled)).toEqual([]);
+});
+
+test("Ownable._owner over SessionDelegate.sessions is a type conflict, same-typed mapping is a rename", () => {
+    const collisions = compareStorageLayouts(sessionDelegate, deviceManager);
+    expect(collisions.map(collision => [collision.kind, collision.slot, collision.from.label, collision.to.label])).toEqual([
+        ["type-conflict", "0", "sessions", "_owner"],
+        ["renamed", "2", "ownerDevices", "userDevices"],
+    ]);
+    expect(hasStorageConflict(collisions)).toBe(true);
+    expect(collisions[1].severity).toBe("warning");
+});
+
+test("packing a slot that held a uint256 conflicts at offset 0 and overlaps after it", () => {
+    const packed: FoundryStorageLayout = {
+        storage: [
+            { contract: "V2", label: "paused", offset: 0, slot: "1", type: "t_bool" },
+            { contract: "V2", label: "admin", offset: 1, slot: "1", type: "t_address" },
+        ],
+        types: sessionDelegate.types,
+    };
+    const collisions = compareStorageLayouts(deviceManager, packed);
+    expect(collisions.map(collision => [collision.kind, collision.to.label])).toEqual([
+        ["type-conflict", "paused"],
+        ["overlap", "admin"],
+    ]);
+});
+
+test("pairwise report and re-delegation gate", () => {
+    const layouts = { SessionDelegate: sessionDelegate, DeviceManager: deviceManager };
+    expect(compareAllStorageLayouts(layouts).map(({ from, to }) => `${from}->${to}`)).toEqual(["DeviceManager->SessionDelegate"]);
+
+    const gate = checkRedelegationLayouts(layouts, ["SessionDelegate", "WebAuthnAccount"], "DeviceManager");
+    // one overlap with SessionDelegate, WebAuthnAccount cannot be compared
+    expect(gate.conflicts).toHaveLength(2);
+    expect(gate.conflicts[1]).toContain("WebAuthnAccount → DeviceManager");
+    expect(gate.warnings).toHaveLength(1);
+    expect(gate.missing).toEqual(["WebAuthnAccount"]);
+
+    expect(checkRedelegationLayouts(layouts, ["SessionDelegate"], "cleared").conflicts).toEqual([]);
+    expect(checkRedelegationLayouts(layouts, ["SessionDelegate"], "SessionDelegate").conflicts).toEqual([]);
+});
+
+test("without storage layouts only clearing or keeping the previous delegate is allowed", () => {
+    const blocked = checkRedelegationLayouts(null, ["SessionDelegate"], "DeviceManager");
+    expect(blocked.missing).toEqual(["DeviceManager"]);
+    expect(blocked.conflicts).toEqual(["SessionDelegate → DeviceManager storage layout이 없어 충돌 여부를 확인할 수 없습니다"]);
+
+    expect(checkRedelegationLayouts(null, ["SessionDelegate"], "SessionDelegate").conflicts).toEqual([]);
+    expect(checkRedelegationLayouts(null, ["SessionDelegate"], "cleared").conflicts).toEqual([]);
+    // fresh EOA: nothing left in storage to collide with
+    expect(checkRedelegationLayouts(null, [], "DeviceManager").conflicts).toEqual([]);
+});
+
+test("previous delegates fall back to storage left on chain when no history is recorded", async () => {
+    const ownerDevicesSlot = mappingSlot(ethers.getAddress(account), SESSION_DELEGATE_STORAGE_SLOTS.ownerDevices);
+    expect(await previousDelegateKinds(clearedAccount({ [ownerDevicesSlot.toString()]: 1n }), account))
+        .toEqual(["SessionDelegate"]);
+
+    // Ownable._owner left in slot 0 by an unidentified delegate blocks switching
+    const unknown = await previousDelegateKinds(clearedAccount({ "0": 1n }), account);
+    expect(unknown).toEqual(["unknown"]);
+    expect(checkRedelegationLayouts(null, unknown, "SessionDelegate").conflicts).toHaveLength(1);
+
+    expect(await previousDelegateKinds(clearedAccount({}), account)).toEqual([]);
+});
@@ -0,0 +1,134 @@
+import { expect, test } from "bun:test";
+import * as crypto from "crypto";
+import {
+    COSE_ALG,
+    P256,
+    decodeCoseKey,
+    derToRawSignature,
+    encodeDerSignature,
+    extractPublicKeyFromRegistration,
+    parseDerSignature,
+} from "../../ui/src/lib/webauthn";
+
+// P-256 generator point
+const x = "6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296";
+const y = "4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5";
+
+// {1: 2 (EC2), 3: -7 (ES256), -1: 1 (P-256), -2: x, -3: y} as encoded by authenticators
+const es256CoseKey = Buffer.from("a5010203262001215820" + x + "225820" + y, "hex");
+
+function attestationObject(authData: Buffer): string {
+    // {"fmt": "none", "attStmt": {}, "authData": authData}
+    const header = Buffer.from("a363666d74646e6f6e656761747453746d74a068617574684461746158", "hex");
+    return Buffer.concat([header, Buffer.from([authData.length]), authData]).toString("base64url");
+}
+
+test("decodeCoseKey decodes an ES256 COSE_Key with integer labels", () => {
+    const key = decodeCoseKey(es256CoseKey);
+    expect(key.alg).toBe(COSE_ALG.ES256);
+    expect(Buffer.from(key.x).toString("hex")).toBe(x);
+    expect(Buffer.from(key.y).toString("hex")).toBe(y);
+});
+
+test("decodeCoseKey rejects RS256 keys and points off the curve", () => {
+    // {1: 3 (RSA), 3: -257 (RS256)}
+    expect(() => decodeCoseKey(Buffer.from("a2010303390100", "hex"))).toThrow("RS256");
+
+    const offCurve = Buffer.from(es256CoseKey);
+    offCurve[offCurve.length - 1] ^= 1;
+    expect(() => decodeCoseKey(offCurve)).toThrow("P-256");
+});
+
+test("extractPublicKeyFromRegistration reads the credential public key from authData", () => {
+    const aaguid = Buffer.from("adce000235bcc60a648b0b25f1f05503", "hex");
+    const credentialId = Buffer.alloc(16, 7);
+    const authData = Buffer.concat([
+        Buffer.alloc(32, 1),                // rpIdHash
+        Buffer.from([0x45]),                // UP | UV | AT
+        Buffer.from([0, 0, 0, 0]),          // signCount
+        aaguid,
+        Buffer.from([0, credentialId.length]),
+        credentialId,
+        es256CoseKey,
+    ]);
+
+    const publicKey = extractPublicKeyFromRegistration({
+        id: credentialId.toString("base64url"),
+        rawId: credentialId.toString("base64url"),
+        type: "public-key",
+        clientExtensionResults: {},
+        response: { clientDataJSON: "", attestationObject: attestationObject(authData) },
+    });
+    expect(publicKey).toEqual({
+        alg: COSE_ALG.ES256,
+        x: "0x" + x,
+        y: "0x" + y,
+        credentialId: credentialId.toString("base64url"),
+        aaguid: "adce0002-35bc-c60a-648b-0b25f1f05503",
+    });
+});
+
+const bytes32 = (value: bigint) => Buffer.from(value.toString(16).padStart(64, "0"), "hex");
+const hex = (value: Uint8Array) => "0x" + Buffer.from(value).toString("hex");
+
+test("DER -> raw -> DER round-trips a low-s signature", () => {
+    const r = bytes32(0x7a1b2c3d4e5f60718293a4b5c6d7e8f90123456789abcdef0123456789abcdefn);
+    const s = bytes32(0x1122334455667788990011223344556677889900112233445566778899001122n);
+    const der = encodeDerSignature(r, s);
+    const raw = derToRawSignature(der);
+    expect(raw.r).toBe(hex(r));
+    expect(raw.s).toBe(hex(s));
+    expect(raw.signature).toBe(hex(Buffer.concat([r, s])));
+    expect(Buffer.from(encodeDerSignature(Buffer.from(raw.r.slice(2), "hex"), Buffer.from(raw.s.slice(2), "hex")))).toEqual(Buffer.from(der));
+});
+
+test("high-s is normalised to n - s", () => {
+    const r = bytes32(0x8000000000000000000000000000000000000000000000000000000000000001n);
+    const der = encodeDerSignature(r, bytes32(P256.n - 5n));
+    // r and s have the top bit set, so both DER integers carry a 0x00 sign byte
+    expect(der[3]).toBe(33);
+    expect(der[4]).toBe(0);
+
+    const raw = derToRawSignature(der);
+    expect(raw.r).toBe(hex(r));
+    expect(BigInt(raw.s)).toBe(5n);
+    expect(BigInt(raw.s) <= P256.n / 2n).toBe(true);
+});
+
+test("short r / s are left-padded to 32 bytes", () => {
+    // r = 0x1234 (2 bytes), s = 0x00ff (0x00 needed for the sign bit)
+    const der = Buffer.from("3008020212340202" + "00ff", "hex");
+    const { r, s } = parseDerSignature(der);
+    expect(hex(r)).toBe("0x" + "00".repeat(30) + "1234");
+    expect(hex(s)).toBe("0x" + "00".repeat(31) + "ff");
+    expect(Buffer.from(encodeDerSignature(r, s))).toEqual(der);
+});
+
+test("malformed DER is rejected", () => {
+    const valid = Buffer.from(encodeDerSignature(bytes32(1n), bytes32(2n)));
+    expect(() => parseDerSignature(valid)).not.toThrow();
+
+    const withTag = (index: number, value: number) => {
+        const copy = Buffer.from(valid);
+        copy[index] = value;
+        return copy;
+    };
+    expect(() => parseDerSignature(withTag(0, 0x31))).toThrow("SEQUENCE");                      // not a SEQUENCE
+    expect(() => parseDerSignature(withTag(1, valid[1] + 1))).toThrow("SEQUENCE 길이");          // wrong length
+    expect(() => parseDerSignature(withTag(2, 0x04))).toThrow("INTEGER 태그");                   // r is not an INTEGER
+    expect(() => parseDerSignature(Buffer.concat([withTag(1, valid[1] + 1), Buffer.from([0])]))).toThrow("불필요한"); // trailing byte
+    expect(() => parseDerSignature(Buffer.from("3006020181020101", "hex"))).toThrow("음수");     // negative r
+    expect(() => parseDerSignature(Buffer.from("300702020001020101", "hex"))).toThrow("최소 인코딩"); // non-minimal r
+    expect(() => parseDerSignature(Buffer.from("30260221" + "01" + "00".repeat(32) + "020101", "hex"))).toThrow("32바이트"); // 33-byte r
+});
+
+test("normalised signatures from a real P-256 key still verify", () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const message = Buffer.from("authenticatorData || sha256(clientDataJSON)");
+    for (let i = 0; i < 8; i++) {
+        const der = crypto.sign("sha256", message, { key: privateKey, dsaEncoding: "der" });
+        const raw = derToRawSignature(der);
+        expect(BigInt(raw.s) <= P256.n / 2n).toBe(true);
+        expect(crypto.verify("sha256", message, { key: publicKey, dsaEncoding: "ieee-p1363" }, Buffer.from(raw.signature.slice(2), "hex"))).toBe(true);
+    }
+});
@@ -0,0 +1,178 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { usePublicClient } from 'wagmi';
+import {
+  inspectDelegation,
+  loadDelegationHistory,
+  recordSetCodeTransaction,
+  type DelegationHistoryEntry,
+  type DelegationState
+} from '@/lib/delegationInspector';
+
+interface DelegationInspectorProps {
+  userAddress: string;
+  refreshTrigger: number;
+}
+
+const DELEGATE_LABELS: Record<string, string> = {
+  SessionDelegate: '🔐 SessionDelegate',
+  DeviceManager: '📱 DeviceManager',
+  WebAuthnAccount: '🪪 WebAuthnAccount',
+  unknown: '❓ 알 수 없는 컨트랙트',
+  cleared: '🧹 delegation 해제 (0x0)'
+};
+
+function shortHex(value: string) {
+  return `${value.slice(0, 10)}...${value.slice(-6)}`;
+}
+
+export function DelegationInspector({ userAddress, refreshTrigger }: DelegationInspectorProps) {
+  const publicClient = usePublicClient();
+  const [state, setState] = useState<DelegationState | null>(null);
+  const [history, setHistory] = useState<DelegationHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [txHashInput, setTxHashInput] = useState('');
+
+  const inspect = useCallback(async () => {
+    if (!publicClient || !userAddress) return;
+    setIsLoading(true);
+    setError('');
+    try {
+      const [current, past] = await Promise.all([
+        inspectDelegation(publicClient, userAddress),
+        loadDelegationHistory(publicClient, userAddress)
+      ]);
+      setState(current);
+      setHistory(past);
+      console.log('🔎 Delegation 상태:', current, { history: past.length });
+    } catch (err) {
+      console.error('❌ Delegation 조회 실패:', err);
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient, userAddress]);
+
+  useEffect(() => {
+    inspect();
+  }, [inspect, refreshTrigger]);
+
+  const handleAddTransaction = async () => {
+    if (!publicClient) return;
+    try {
+      recordSetCodeTransaction(userAddress, txHashInput.trim(), await publicClient.getChainId());
+      setTxHashInput('');
+      await inspect();
+    } catch (err) {
+      alert('❌ 트랜잭션 추가 실패:\n' + (err as Error).message);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <h4 className="font-semibold text-gray-800">🔎 Delegation 상태</h4>
+        <button
+          onClick={inspect}
+          disabled={isLoading}
+          className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+        >
+          {isLoading ? '조회 중...' : '새로고침'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {state && (
+        <div className="space-y-2 text-sm text-gray-600">
+          <div className="flex justify-between">
+            <span>계정 유형:</span>
+            <span className={`font-medium ${state.kind === 'contract' ? 'text-orange-600' : 'text-green-600'}`}>
+              {state.kind === 'eoa' && '✅ EOA (delegation 없음)'}
+              {state.kind === 'delegated' && '🔗 Smart EOA (EIP-7702 delegation)'}
+              {state.kind === 'contract' && `❓ Contract (${state.codeSize} bytes)`}
+            </span>
+          </div>
+          {state.delegate && (
+            <>
+              <div className="flex justify-between">
+                <span>현재 delegate:</span>
+                <span className="font-medium">{DELEGATE_LABELS[state.delegateKind ?? 'unknown']}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>delegate 주소:</span>
+                <span className="font-mono">{state.delegate}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>code:</span>
+                <span className="font-mono break-all">{state.code}</span>
+              </div>
+              {!state.delegateDeployed && (
+                <p className="text-xs text-orange-600">
+                  ⚠️ delegate 주소에 배포된 코드가 없습니다 - 이 계정으로의 호출은 아무것도 실행하지 않습니다
+                </p>
+              )}
+              {state.delegateKind === 'unknown' && (
+                <p className="text-xs text-red-600">
+                  ⚠️ 배포 레지스트리에 없는 컨트랙트입니다 - 직접 서명한 delegation이 맞는지 확인하세요
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {/* 과거 set-code 트랜잭션 */}
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">📜 Delegation 기록</p>
+        {history.length === 0 ? (
+          <p className="text-xs text-gray-500">기록된 set-code 트랜잭션이 없습니다</p>
+        ) : (
+          <ul className="space-y-2">
+            {history.map(entry => (
+              <li key={`${entry.txHash}-${entry.authorizationNonce}`} className="text-xs bg-gray-50 rounded-md p-2">
+                <div className="flex justify-between">
+                  <span className="font-medium">{DELEGATE_LABELS[entry.delegateKind]}</span>
+                  <span className="text-gray-500">{new Date(entry.timestamp * 1000).toLocaleString()}</span>
+                </div>
+                <div className="font-mono text-gray-600">
+                  {entry.delegateKind !== 'cleared' && <span>{shortHex(entry.delegate)} · </span>}
+                  tx {shortHex(entry.txHash)} · block {entry.blockNumber.toString()}
+                </div>
+                <div className="text-gray-500">
+                  nonce {entry.authorizationNonce.toString()}
+                  {' · '}{entry.authorizationChainId === BigInt(0) ? '모든 체인' : `chain ${entry.authorizationChainId}`}
+                  {entry.sponsored && ` · sponsor ${shortHex(entry.sender)}`}
+                  {entry.status === 'reverted' && ' · 실행 revert (authorization은 적용됨)'}
+                  {entry.applied === false && ' · nonce 불일치로 적용되지 않음'}
+                  {entry.applied === null && ' · 적용 여부 미확인'}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2 mt-2">
+          <input
+            type="text"
+            value={txHashInput}
+            onChange={(e) => setTxHashInput(e.target.value)}
+            placeholder="다른 곳에서 보낸 set-code tx hash 추가 (0x...)"
+            className="flex-1 px-2 py-1 border border-gray-300 rounded-md font-mono text-xs"
+          />
+          <button
+            onClick={handleAddTransaction}
+            disabled={!txHashInput.trim()}
+            className="px-3 py-1 text-xs bg-gray-700 text-white rounded-md disabled:bg-gray-400"
+          >
+            추가
+          </button>
+        </div>
+        <p className="text-xs text-gray-400 mt-1">
+          RPC로는 주소별 type 4 트랜잭션을 조회할 수 없어 이 브라우저에서 보내거나 추가한 트랜잭션만 기록에 표시됩니다. 다른 브라우저나 지갑에서 보낸 delegation은 빠질 수 있습니다. 현재 상태는 항상 eth_getCode 기준입니다.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import {
+  getSignCounterPolicy,
+  setSignCounterPolicy,
+  type SignCountEvent
+} from '@/lib/signCounter';
 
 interface Device {
   id: string;
@@ -8,6 +13,22 @@ interface Device {
   registeredAt: string;
   credentialId: string;
   publicKey: string;
+  pubKeyX?: string;
+  pubKeyY?: string;
+  aaguid?: string;
+  authenticatorModel?: string;
+  attestation?: {
+    fmt: string;
+    type: string;
+    trusted: boolean;
+  };
+  prfEnabled?: boolean;
+  authenticatorMode?: 'platform' | 'cross-platform' | 'hybrid';
+  attachment?: string;
+  transports?: string[];
+  signCount?: number;
+  signCountHistory?: SignCountEvent[];
+  cloneSuspected?: boolean;
   isActive: boolean;
 }
 
@@ -20,6 +41,7 @@ interface DeviceListProps {
 export function DeviceList({ userAddress, refreshTrigger, onDeviceAction }: DeviceListProps) {
   const [devices, setDevices] = useState<Device[]>([]);
   const [loadingDeviceId, setLoadingDeviceId] = useState<string>('');
+  const [autoDeactivate, setAutoDeactivate] = useState(false);
 
   useEffect(() => {
     loadDevices();
@@ -28,6 +50,12 @@ export function DeviceList({ userAddress, refreshTrigger, onDeviceAction }: Devi
   const loadDevices = () => {
     const storedDevices = JSON.parse(localStorage.getItem(`devices_${userAddress}`) || '[]');
     setDevices(storedDevices);
+    setAutoDeactivate(getSignCounterPolicy(userAddress).autoDeactivate);
+  };
+
+  const handleToggleAutoDeactivate = (enabled: boolean) => {
+    setAutoDeactivate(enabled);
+    setSignCounterPolicy(userAddress, { autoDeactivate: enabled });
   };
 
   const handleToggleDevice = async (deviceId: string) => {
@@ -135,6 +163,11 @@ export function DeviceList({ userAddress, refreshTrigger, onDeviceAction }: Devi
                     device.isActive ? 'bg-green-500' : 'bg-gray-400'
                   }`}></span>
                   <h4 className="font-medium text-gray-800">{device.name}</h4>
+                  {device.cloneSuspected && (
+                    <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-700">
+                      ⚠️ Possible Clone
+                    </span>
+                  )}
                   <span className={`px-2 py-1 text-xs rounded-full ${
                     device.isActive 
                       ? 'bg-green-100 text-green-700' 
@@ -146,9 +179,49 @@ export function DeviceList({ userAddress, refreshTrigger, onDeviceAction }: Devi
                 
                 <div className="text-sm text-gray-600 space-y-1">
                   <p>Registered: {formatDate(device.registeredAt)}</p>
+                  <p>
+                    Authenticator: {device.authenticatorModel ?? 'Unknown Authenticator'}
+                    {device.attestation && (
+                      <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
+                        device.attestation.trusted
+                          ? 'bg-blue-100 text-blue-700'
+                          : 'bg-gray-100 text-gray-600'
+                      }`}>
+                        {device.attestation.fmt} · {device.attestation.trusted ? 'Verified' : 'Unverified'}
+                      </span>
+                    )}
+                  </p>
                   <p className="font-mono break-all">
-                    ID: {device.credentialId.slice(0, 20)}...
+                    ID: {device.credentialId ? `${device.credentialId.slice(0, 20)}...` : 'On-chain only (sign in with this passkey to link it)'}
                   </p>
+                  {device.attachment && (
+                    <p>
+                      Connection: {device.attachment === 'platform' ? 'Built-in' : 'Roaming'}
+                      {device.transports && device.transports.length > 0 && ` (${device.transports.join(', ')})`}
+                    </p>
+                  )}
+                  {device.prfEnabled !== undefined && (
+                    <p>PRF: {device.prfEnabled ? 'Supported' : 'Not supported (passphrase fallback)'}</p>
+                  )}
+                  <p>Sign Count: {device.signCount ?? 'Not tracked'}</p>
+                  {device.signCountHistory && device.signCountHistory.length > 0 && (
+                    <details className="text-xs">
+                      <summary className="cursor-pointer text-gray-500">
+                        Sign count history ({device.signCountHistory.length})
+                      </summary>
+                      <ul className="mt-1 space-y-0.5 font-mono">
+                        {device.signCountHistory.slice().reverse().map((event, index) => (
+                          <li
+                            key={`${event.observedAt}-${index}`}
+                            className={event.regression ? 'text-red-600' : 'text-gray-500'}
+                          >
+                            {formatDate(event.observedAt)} · {event.source} · {event.signCount}
+                            {event.regression && ' ⚠️ regression'}
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
                 </div>
               </div>
 
@@ -184,6 +257,16 @@ export function DeviceList({ userAddress, refreshTrigger, onDeviceAction }: Devi
         ))}
       </div>
 
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={autoDeactivate}
+          onChange={(e) => handleToggleAutoDeactivate(e.target.checked)}
+          className="rounded border-gray-300"
+        />
+        <span>Automatically deactivate devices when a sign counter regression (possible clone) is detected</span>
+      </label>
+
       <div className="bg-amber-50 border border-amber-200 rounded-md p-4 text-sm text-amber-700">
         <p className="font-medium mb-1">⚠️ Security Notice:</p>
         <ul className="space-y-1 text-amber-600">
@@ -1,26 +1,58 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useAccount } from 'wagmi';
 import { DeviceRegistration } from './DeviceRegistration';
 import { DeviceList } from './DeviceList';
 import { SessionManager } from './SessionManager';
 import { TouchToSignDemo } from './TouchToSignDemo';
+import { PasskeySignIn } from './PasskeySignIn';
+import {
+  getPasskeyAccount,
+  signOutPasskey,
+  type PasskeyAccount
+} from '@/lib/passkeyLogin';
 
 export function DeviceManager() {
-  const { address, isConnected } = useAccount();
+  const { address: walletAddress, isConnected } = useAccount();
+  const [passkeyAccount, setPasskeyAccount] = useState<PasskeyAccount | null>(null);
   const [activeTab, setActiveTab] = useState<'devices' | 'sessions' | 'touchsign'>('devices');
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
-  if (!isConnected) {
+  useEffect(() => {
+    // Restore a passkey sign-in from this tab
+    setPasskeyAccount(getPasskeyAccount());
+  }, []);
+
+  const handlePasskeySignIn = useCallback((account: PasskeyAccount) => {
+    setPasskeyAccount(account);
+    setActiveTab('sessions');
+  }, []);
+
+  const handlePasskeySignOut = () => {
+    signOutPasskey();
+    setPasskeyAccount(null);
+    setActiveTab('devices');
+  };
+
+  // Touch-only mode: signed in with a passkey, no wallet connected
+  const touchOnly = !isConnected && !!passkeyAccount;
+  const address = isConnected ? walletAddress : passkeyAccount?.address;
+
+  if (!address) {
     return (
-      <div className="bg-white rounded-lg shadow-md p-8 text-center">
-        <h2 className="text-xl font-semibold text-gray-800 mb-4">
-          🔗 Please Connect Your Wallet
-        </h2>
-        <p className="text-gray-600">
-          You need to connect your wallet first to use Device Manager.
-        </p>
+      <div className="bg-white rounded-lg shadow-md p-8 text-center space-y-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">
+            🔗 Please Connect Your Wallet
+          </h2>
+          <p className="text-gray-600">
+            You need to connect your wallet to register your first device.
+          </p>
+        </div>
+        <div className="border-t pt-6">
+          <PasskeySignIn onSignIn={handlePasskeySignIn} />
+        </div>
       </div>
     );
   }
@@ -51,12 +83,27 @@ export function DeviceManager() {
 
       {/* Account Information */}
       <div className="bg-white rounded-lg shadow-md p-6">
-        <h2 className="text-xl font-semibold text-gray-800 mb-2">
-          📱 Connected Account
-        </h2>
+        <div className="flex items-start justify-between">
+          <h2 className="text-xl font-semibold text-gray-800 mb-2">
+            {touchOnly ? '👆 Signed In with Passkey' : '📱 Connected Account'}
+          </h2>
+          {touchOnly && (
+            <button
+              onClick={handlePasskeySignOut}
+              className="px-3 py-1 text-sm bg-gray-100 text-gray-700 hover:bg-gray-200 rounded transition-colors"
+            >
+              Sign Out
+            </button>
+          )}
+        </div>
         <p className="text-gray-600 font-mono text-sm break-all">
           {address}
         </p>
+        {touchOnly && (
+          <p className="mt-2 text-sm text-purple-600">
+            Touch-only mode via {passkeyAccount.deviceName} - connect a wallet to register new devices.
+          </p>
+        )}
       </div>
 
       {/* Tab Navigation */}
@@ -97,24 +144,26 @@ export function DeviceManager() {
         <div className="p-6">
           {activeTab === 'devices' ? (
             <div className="space-y-6">
-              <DeviceRegistration 
-                userAddress={address!} 
-                onDeviceRegistered={refreshData}
-              />
+              {!touchOnly && (
+                <DeviceRegistration 
+                  userAddress={address} 
+                  onDeviceRegistered={refreshData}
+                />
+              )}
               <DeviceList 
-                userAddress={address!} 
+                userAddress={address} 
                 refreshTrigger={refreshTrigger}
                 onDeviceAction={refreshData}
               />
             </div>
           ) : activeTab === 'sessions' ? (
             <SessionManager 
-              userAddress={address!} 
+              userAddress={address} 
               refreshTrigger={refreshTrigger}
             />
           ) : (
             <TouchToSignDemo 
-              userAddress={address!}
+              userAddress={address}
             />
           )}
         </div>
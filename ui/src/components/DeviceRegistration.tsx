@@ -1,36 +1,77 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { 
   registerWebAuthnDevice, 
+  authenticateWebAuthn,
   isWebAuthnSupported, 
   isPlatformAuthenticatorAvailable,
   extractPublicKeyFromRegistration,
+  parseAuthenticatorData,
   generateDeviceId,
-  formatWebAuthnForContract
+  formatWebAuthnForContract,
+  isPrfEnabled,
+  getAuthenticatorTransportInfo,
+  type AuthenticatorMode
 } from '@/lib/webauthn';
+import {
+  enforceAttestationPolicy,
+  getUntrustedAttestationPolicy,
+  verifyRegistrationAttestation
+} from '@/lib/attestation';
+import { initialSignCountFields, trackAssertionSignCount } from '@/lib/signCounter';
+import { decode as cborDecode } from 'cbor-x';
+import base64url from 'base64url';
 import { 
   generateDeviceRegistrationProof,
-  createEIP7702Authorization
+  UNPINNED_VERIFICATION_KEY_MESSAGE,
+  verifyZKProofOffchain
 } from '@/lib/zkProofs';
+import { computeIdentity } from '@/lib/identity';
+import {
+  createEip7702Authorization,
+  signEip7702Authorization,
+  toAuthorizationListEntry
+} from '@/lib/eip7702';
+import { createProofEnvelope, encodeRegisterDeviceCalldata } from '@/lib/proofEnvelope';
+import {
+  buildActionChallenge,
+  challengeDeadline,
+  newChallengeNonce
+} from '@/lib/challenge';
+import type { ProvingStage } from '@/lib/noirProver';
 import { ethers } from 'ethers';
+import { useChainId } from 'wagmi';
 
 interface DeviceRegistrationProps {
   userAddress: string;
   onDeviceRegistered: () => void;
 }
 
+const DEVICE_TYPES: Array<{ mode: AuthenticatorMode; icon: string; label: string; description: string }> = [
+  { mode: 'platform', icon: '💻', label: 'This Device', description: 'Touch ID / Face ID / Windows Hello' },
+  { mode: 'cross-platform', icon: '🔑', label: 'Security Key', description: 'YubiKey / FIDO2 key over USB or NFC' },
+  { mode: 'hybrid', icon: '📱', label: 'Phone', description: 'Use a phone passkey via QR code' },
+];
+
 export function DeviceRegistration({ userAddress, onDeviceRegistered }: DeviceRegistrationProps) {
   const [isRegistering, setIsRegistering] = useState(false);
   const [webAuthnSupported, setWebAuthnSupported] = useState(false);
   const [platformAuthAvailable, setPlatformAuthAvailable] = useState(false);
+  const [authenticatorMode, setAuthenticatorMode] = useState<AuthenticatorMode>('platform');
+  const [provingStage, setProvingStage] = useState<ProvingStage | null>(null);
+  const proofAbortRef = useRef<AbortController | null>(null);
+  const chainId = useChainId();
 
   useEffect(() => {
     // Check WebAuthn support
     setWebAuthnSupported(isWebAuthnSupported());
     
-    // Check platform authenticator availability
-    isPlatformAuthenticatorAvailable().then(setPlatformAuthAvailable);
+    // Check platform authenticator availability (fall back to roaming keys)
+    isPlatformAuthenticatorAvailable().then(available => {
+      setPlatformAuthAvailable(available);
+      if (!available) setAuthenticatorMode('cross-platform');
+    });
   }, []);
 
   const handleRegisterDevice = async () => {
@@ -47,10 +88,19 @@ export function DeviceRegistration({ userAddress, onDeviceRegistered }: DeviceRe
       console.log('🚀 Option 4 Device Registration Starting...');
 
       // 1. Execute WebAuthn registration
-      const registrationResponse = await registerWebAuthnDevice(userAddress, finalDeviceName);
+      const registrationResponse = await registerWebAuthnDevice(userAddress, finalDeviceName, authenticatorMode);
+      const { attachment, transports } = getAuthenticatorTransportInfo(registrationResponse);
+      
+      // 2. Extract public key (COSE → P-256 x, y)
+      const devicePublicKey = extractPublicKeyFromRegistration(registrationResponse);
+      const publicKey = devicePublicKey.x + devicePublicKey.y.slice(2);
       
-      // 2. Extract public key
-      const publicKey = extractPublicKeyFromRegistration(registrationResponse);
+      // 2-1. Verify attestation statement and identify authenticator model
+      const attestation = await verifyRegistrationAttestation(registrationResponse);
+      // Unverified chains (none / self / unbundled root) are rejected or need explicit confirmation
+      await enforceAttestationPolicy(attestation, getUntrustedAttestationPolicy(), message => window.confirm(message));
+      const { authData } = cborDecode(base64url.toBuffer(registrationResponse.response.attestationObject));
+      const { signCount } = parseAuthenticatorData(new Uint8Array(authData));
       
       // 3. Generate device ID
       const deviceId = await generateDeviceId(registrationResponse.id);
@@ -58,30 +108,65 @@ export function DeviceRegistration({ userAddress, onDeviceRegistered }: DeviceRe
       // 4. Generate ZK Proof (P-256 signature → ZK proof)
       console.log('🔄 Generating ZK Proof...');
       
-      // Extract required data from registration response
-      const mockSignature = '0x' + Array.from(crypto.getRandomValues(new Uint8Array(64)))
-        .map(b => b.toString(16).padStart(2, '0')).join('');
+      // Sign once with the new credential: registration responses carry no
+      // P-256 signature by the device key itself, only the attestation statement
+      const { challenge } = buildActionChallenge({
+        type: 'registerDevice',
+        chainId: BigInt(chainId),
+        owner: userAddress,
+        nonce: newChallengeNonce(),
+        deadline: challengeDeadline(),
+        pubKeyX: BigInt(devicePublicKey.x),
+        pubKeyY: BigInt(devicePublicKey.y)
+      });
+      const possessionResponse = await authenticateWebAuthn(registrationResponse.id, challenge, undefined, transports);
+      const possessionData = formatWebAuthnForContract(possessionResponse);
       
+      proofAbortRef.current = new AbortController();
       const zkProof = await generateDeviceRegistrationProof(publicKey, {
-        r: mockSignature.slice(0, 66), // First 32 bytes
-        s: mockSignature.slice(66, 132), // Next 32 bytes
-        clientDataJSON: registrationResponse.response.clientDataJSON,
-        authenticatorData: registrationResponse.response.attestationObject
+        r: possessionData.r,
+        s: possessionData.s,
+        clientDataJSON: possessionData.clientDataJSON,
+        authenticatorData: possessionData.authenticatorData
+      }, { onProgress: setProvingStage, signal: proofAbortRef.current.signal });
+      setProvingStage(null);
+
+      // Verify with the exported verification key before anything is sent on-chain
+      const verification = await verifyZKProofOffchain(zkProof, {
+        identity: computeIdentity(devicePublicKey.x, devicePublicKey.y),
+        challenge
       });
+      // Fails closed on a fresh checkout until the vkey hash is pinned - say so instead of a generic failure
+      if (!verification.vkeyPinned) {
+        throw new Error(UNPINNED_VERIFICATION_KEY_MESSAGE);
+      }
+      if (!verification.valid) {
+        throw new Error(`ZK Proof verification failed: ${verification.reason}`);
+      }
+      const proofEnvelope = createProofEnvelope(zkProof);
+      const registerCalldata = encodeRegisterDeviceCalldata(proofEnvelope, finalDeviceName);
 
       // 5. Prepare EIP-7702 Authorization (required for actual deployment)
       const mockWallet = new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)));
-      const eip7702Auth = await createEIP7702Authorization(
-        '0x1234567890123456789012345678901234567890', // DeviceManager address
-        0, // nonce
-        11155111, // Sepolia chain ID
+      const eip7702Auth = toAuthorizationListEntry(signEip7702Authorization(
+        createEip7702Authorization(
+          '0x1234567890123456789012345678901234567890', // DeviceManager address
+          0, // nonce
+          11155111 // Sepolia chain ID
+        ),
         mockWallet
-      );
+      ));
 
       console.log('✅ Option 4 Registration Flow Complete:', {
         deviceId: deviceId,
         publicKey,
+        authenticatorModel: attestation.authenticatorModel,
+        authenticatorMode,
+        attachment,
+        transports,
         zkProofLength: zkProof.proof.length,
+        zkProofVerified: verification.circuitId,
+        registerCalldataLength: ethers.dataLength(registerCalldata),
         eip7702Ready: !!eip7702Auth
       });
       
@@ -93,8 +178,23 @@ export function DeviceRegistration({ userAddress, onDeviceRegistered }: DeviceRe
         registeredAt: new Date().toISOString(),
         credentialId: registrationResponse.id,
         publicKey,
+        pubKeyX: devicePublicKey.x,
+        pubKeyY: devicePublicKey.y,
+        alg: devicePublicKey.alg,
+        aaguid: devicePublicKey.aaguid,
+        authenticatorModel: attestation.authenticatorModel,
+        attestation: {
+          fmt: attestation.fmt,
+          type: attestation.attestationType,
+          trusted: attestation.trusted
+        },
+        prfEnabled: isPrfEnabled(registrationResponse),
+        authenticatorMode,
+        attachment,
+        transports,
         zkProof: zkProof.proof,
         isActive: true,
+        ...initialSignCountFields(signCount),
         // Option 4 specific data
         model: 'AuthDevice7702_Option4',
         registrationData: {
@@ -105,22 +205,35 @@ export function DeviceRegistration({ userAddress, onDeviceRegistered }: DeviceRe
       };
       devices.push(newDevice);
       localStorage.setItem(`devices_${userAddress}`, JSON.stringify(devices));
+      trackAssertionSignCount(userAddress, possessionResponse);
 
       alert('✅ EIP-7702 + ZK Proof Device Registration Successful!\n\n' +
             `📱 Device ID: ${deviceId.slice(0, 10)}...\n` +
-            `🔐 ZK Proof: ${zkProof.proof.length} bytes\n` +
+            `🔑 Authenticator: ${attestation.authenticatorModel} (${attestation.fmt}${attestation.trusted ? ', trusted' : ''})\n` +
+            `🔐 ZK Proof: ${zkProof.proof.length} bytes (verified, ${verification.circuitId})\n` +
+            `🪪 Identity: ${verification.publicInputs.identity.slice(0, 10)}...\n` +
             `🔗 EIP-7702 Ready: ${!!eip7702Auth}`);
       
       onDeviceRegistered();
 
     } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        console.log('🛑 Device registration cancelled');
+        return;
+      }
       console.error('❌ Option 4 Registration Failed:', error);
       alert('❌ EIP-7702 Device Registration Failed:\n' + (error as Error).message);
     } finally {
+      proofAbortRef.current = null;
+      setProvingStage(null);
       setIsRegistering(false);
     }
   };
 
+  const cancelProof = () => {
+    proofAbortRef.current?.abort();
+  };
+
   return (
     <div className="space-y-4">
       {/* Non-functional Warning */}
@@ -149,6 +262,32 @@ export function DeviceRegistration({ userAddress, onDeviceRegistered }: DeviceRe
             <li><strong>On-chain Registration</strong> - Device registered to DeviceManager</li>
           </ol>
         </div>
+
+        {/* Device Type Picker */}
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-2">Device Type</p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {DEVICE_TYPES.map(({ mode, icon, label, description }) => {
+              const disabled = mode === 'platform' && !platformAuthAvailable;
+              return (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setAuthenticatorMode(mode)}
+                  disabled={disabled || isRegistering}
+                  className={`p-3 text-left rounded-md border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                    authenticatorMode === mode
+                      ? 'bg-blue-100 border-blue-500 text-blue-700'
+                      : 'bg-gray-50 border-gray-300 text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  <span className="block font-medium">{icon} {label}</span>
+                  <span className="block text-xs mt-1">{disabled ? 'Not available on this device' : description}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
         
         <button
           onClick={handleRegisterDevice}
@@ -161,12 +300,20 @@ export function DeviceRegistration({ userAddress, onDeviceRegistered }: DeviceRe
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              Processing EIP-7702 Upgrade...
+              {provingStage ? `Generating ZK Proof (${provingStage})...` : 'Processing EIP-7702 Upgrade...'}
             </span>
           ) : (
             '🔐 Start EIP-7702 Device Registration'
           )}
         </button>
+        {provingStage && (
+          <button
+            onClick={cancelProof}
+            className="w-full bg-gray-100 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Cancel Proof Generation
+          </button>
+        )}
       </div>
 
       {/* WebAuthn Support Status */}
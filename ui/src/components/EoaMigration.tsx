@@ -2,6 +2,44 @@
 
 import { useState, useEffect } from 'react';
 import { useAccount, useWalletClient, useChainId, usePublicClient } from 'wagmi';
+import { ethers } from 'ethers';
+import { DelegationInspector } from './DelegationInspector';
+import { CONTRACT_ADDRESSES, KNOWN_DELEGATES } from '@/lib/contracts';
+import {
+  identifyDelegate,
+  inspectDelegation,
+  recordSetCodeTransaction
+} from '@/lib/delegationInspector';
+import {
+  checkRedelegationLayouts,
+  describeLeftoverStorage,
+  previousDelegateKinds,
+  type RedelegationLayoutCheck
+} from '@/lib/delegateStorage';
+import { loadDelegateStorageLayouts } from '@/lib/storageLayout';
+import {
+  ANY_CHAIN_ID,
+  authorizationNonce,
+  createEip7702Authorization,
+  hashEip7702Authorization,
+  signEip7702Authorization,
+  signEip7702AuthorizationWithWallet,
+  toAuthorizationListEntry,
+  verifyEip7702Authorization
+} from '@/lib/eip7702';
+import {
+  broadcastSetCodeTransaction,
+  buildSetCodeTransaction,
+  parseSetCodeTransaction,
+  prepareSetCodeTransaction,
+  signSetCodeTransaction,
+  waitForDelegation,
+  type SetCodeBroadcastResult
+} from '@/lib/setCodeTransaction';
+
+// EOA 개인키 입력은 개발 / 테스트 계정 전용 - 배포 빌드에서는 기본으로 숨김
+// (NEXT_PUBLIC_ENABLE_LOCAL_KEY_SIGNING=true로 빌드해야 표시)
+const LOCAL_KEY_SIGNING_ENABLED = process.env.NEXT_PUBLIC_ENABLE_LOCAL_KEY_SIGNING === 'true';
 
 interface EoaMigrationProps {
   userAddress: string;
@@ -10,19 +48,35 @@ interface EoaMigrationProps {
 export function EoaMigration({ userAddress }: EoaMigrationProps) {
   const [isCreatingAuth, setIsCreatingAuth] = useState(false);
   const [accountNonce, setAccountNonce] = useState<number | null>(null);
-  const [codeSize, setCodeSize] = useState<number | null>(null);
+  const [inspectorRefresh, setInspectorRefresh] = useState(0);
+  const [anyChain, setAnyChain] = useState(false);
+  const [authorityKey, setAuthorityKey] = useState('');
+  // delegate할 컨트랙트 - ethers.ZeroAddress이면 delegation 해제
+  const [targetDelegate, setTargetDelegate] = useState<string>(CONTRACT_ADDRESSES.DEVICE_MANAGER);
+  // delegate 이름 → storage layout 검사 결과 (null이면 아직 검사 전)
+  const [layoutChecks, setLayoutChecks] = useState<Record<string, RedelegationLayoutCheck> | null>(null);
+  // storage-layouts.json이 생성되지 않음 - 이전 delegate와 다른 delegate로의 변경은 차단
+  const [layoutsMissing, setLayoutsMissing] = useState(false);
   const [authorizationResult, setAuthorizationResult] = useState<{
     txHash: string;
-    deviceManagerAddress: string;
+    delegateAddress: string;
     status: string;
     authData?: any;
   } | null>(null);
 
+  const isRevocationTarget = targetDelegate === ethers.ZeroAddress;
+  const targetName = isRevocationTarget ? 'Delegation 해제' : identifyDelegate(targetDelegate);
+  const targetLayoutCheck = isRevocationTarget ? null : layoutChecks?.[targetName] ?? null;
+
   const { data: walletClient } = useWalletClient();
   const { isConnected } = useAccount();
   const chainId = useChainId();
   const publicClient = usePublicClient();
 
+  // 브라우저 지갑(json-rpc 계정)은 EIP-7702 authorization 서명을 지원하지 않음 - 로컬 계정이거나 로컬 키가 있어야 서명 가능
+  const canSignWithWallet = walletClient?.account?.type === 'local';
+  const canSignAuthorization = canSignWithWallet || (LOCAL_KEY_SIGNING_ENABLED && authorityKey.trim() !== '');
+
   // EIP-7702 데모 지원 여부 확인
   const isEip7702Supported = [17000, 11155111].includes(chainId); // Holesky (기본값), Sepolia
 
@@ -32,24 +86,16 @@ export function EoaMigration({ userAddress }: EoaMigrationProps) {
       if (!isConnected || !publicClient || !userAddress) return;
 
       try {
-        // nonce 확인 (EIP-7702는 모든 nonce에서 사용 가능)
+        // nonce 확인 (code / delegation은 DelegationInspector에서 조회)
         const nonce = await publicClient.getTransactionCount({
           address: userAddress as `0x${string}`,
         });
 
-        // 코드 크기 확인 (EOA인지 확인)
-        const code = await publicClient.getBytecode({
-          address: userAddress as `0x${string}`,
-        });
-        
         setAccountNonce(nonce);
-        setCodeSize(code ? code.length : 0);
 
         console.log('계정 상태 확인:', {
           address: userAddress,
-          nonce,
-          codeSize: code ? code.length : 0,
-          isEOA: !code || code === '0x'
+          nonce
         });
 
       } catch (error) {
@@ -60,8 +106,30 @@ export function EoaMigration({ userAddress }: EoaMigrationProps) {
     checkAccountStatus();
   }, [isConnected, publicClient, userAddress]);
 
+  // 이전 delegate들과 storage layout이 충돌하는 delegate는 선택지에서 제외
+  useEffect(() => {
+    const checkLayouts = async () => {
+      if (!publicClient || !userAddress) return;
+
+      try {
+        const layouts = await loadDelegateStorageLayouts();
+        setLayoutsMissing(!layouts);
+        const previous = await previousDelegateKinds(publicClient, userAddress);
+        setLayoutChecks(Object.fromEntries(KNOWN_DELEGATES.map(delegate => [
+          delegate.name,
+          checkRedelegationLayouts(layouts, previous, delegate.name)
+        ])));
+        console.log('🧱 Storage layout 검사:', { previous });
+      } catch (error) {
+        console.error('Storage layout 검사 실패:', error);
+      }
+    };
+
+    checkLayouts();
+  }, [publicClient, userAddress, inspectorRefresh]);
+
   const handleCreateAuthorization = async () => {
-    if (!isConnected || !walletClient) {
+    if (!isConnected || !walletClient || !publicClient) {
       alert('지갑이 연결되지 않았습니다');
       return;
     }
@@ -71,110 +139,171 @@ export function EoaMigration({ userAddress }: EoaMigrationProps) {
       return;
     }
 
+    if (!canSignAuthorization) {
+      alert('연결된 지갑은 EIP-7702 authorization 서명을 지원하지 않습니다.' +
+            (LOCAL_KEY_SIGNING_ENABLED ? '\n로컬 키로 서명하세요.' : ''));
+      return;
+    }
+
     setIsCreatingAuth(true);
     setAuthorizationResult(null);
 
     try {
       console.log('🚀 EIP-7702 Authorization 생성 시작...');
 
-      // 1. DeviceManager 컨트랙트 주소 (실제로는 배포된 주소 사용)
-      const deviceManagerAddress = '0x1234567890123456789012345678901234567890';
-      
-      // 2. 현재 nonce 가져오기
-      const currentNonce = accountNonce || 0;
+      // 1. delegate 주소 (배포된 delegate 또는 해제용 0x0)
+      const delegateAddress = ethers.getAddress(targetDelegate);
+      const targetKind = identifyDelegate(delegateAddress);
+      const isRevocation = targetKind === 'cleared';
 
-      console.log('📝 Authorization 데이터 준비:', {
-        chainId,
-        address: deviceManagerAddress,
-        nonce: currentNonce
+      // 현재 delegation 확인 - 이미 같은 상태면 중단
+      const current = await inspectDelegation(publicClient, userAddress);
+      if (current.kind === 'contract') {
+        throw new Error('컨트랙트 계정은 EIP-7702 authorization을 서명할 수 없습니다');
+      }
+      if (isRevocation ? current.kind === 'eoa' : current.delegate === delegateAddress) {
+        alert(isRevocation ? 'ℹ️ 이미 delegation이 없는 EOA입니다' : `ℹ️ 이미 ${targetKind}로 delegate되어 있습니다`);
+        return;
+      }
+
+      // 기존 delegate가 남긴 storage는 code를 바꿔도 지워지지 않으므로 전송 전에 확인
+      const warnings = await describeLeftoverStorage(publicClient, userAddress, targetKind);
+
+      // 이전 delegate들과 storage layout이 충돌하면 re-delegation 차단
+      // storage-layouts.json이 없으면 이전 delegate와 다른 delegate로는 변경할 수 없음 (해제는 허용)
+      const layoutCheck = checkRedelegationLayouts(
+        await loadDelegateStorageLayouts(),
+        await previousDelegateKinds(publicClient, userAddress),
+        targetKind
+      );
+      if (layoutCheck.conflicts.length > 0) {
+        throw new Error(`${targetKind}의 storage layout이 이전 delegate와 충돌하거나 확인할 수 없습니다:\n` +
+                        layoutCheck.conflicts.map(conflict => `• ${conflict}`).join('\n'));
+      }
+      warnings.push(...layoutCheck.warnings);
+      if (layoutCheck.missing.length > 0) {
+        warnings.push(`storage layout이 없어 비교하지 못한 delegate: ${layoutCheck.missing.join(', ')}`);
+      }
+
+      if (warnings.length > 0) {
+        console.warn('⚠️ 기존 delegate storage:', warnings);
+        const proceed = window.confirm(
+          `⚠️ ${isRevocation ? 'Delegation 해제' : `${targetKind}로 변경`} 전 확인\n\n` +
+          warnings.map(warning => `• ${warning}`).join('\n') +
+          '\n\n계속하시겠습니까?'
+        );
+        if (!proceed) {
+          console.log('🚫 Delegation 변경 취소');
+          return;
+        }
+      }
+
+      // 2. nonce / 수수료 / gas 조회 (자기 자신에게 보내는 set-code 트랜잭션)
+      const fields = await prepareSetCodeTransaction(publicClient, {
+        from: userAddress,
+        to: userAddress
       });
 
-      // 3. EIP-712 도메인 및 타입 정의 (EIP-7702 사양)
-      const domain = {
-        name: 'AuthDevice7702',
-        version: '1',
-        chainId,
-        verifyingContract: userAddress as `0x${string}` // EOA 주소
-      };
-
-      const types = {
-        Authorization: [
-          { name: 'chainId', type: 'uint256' },
-          { name: 'address', type: 'address' },
-          { name: 'nonce', type: 'uint256' }
-        ]
-      };
-
-      // 4. Authorization 메시지
-      const authorization = {
-        chainId: BigInt(chainId),
-        address: deviceManagerAddress,
-        nonce: BigInt(currentNonce)
-      };
-
-      console.log('✍️ EIP-712 Authorization 서명 중...');
-
-      // 5. Authorization 서명 (EIP-712)
-      const signature = await walletClient.signTypedData({
-        account: userAddress as `0x${string}`,
-        domain,
-        types,
-        primaryType: 'Authorization',
-        message: authorization
+      // 3. authorization nonce (authority가 직접 트랜잭션을 보내므로 tx nonce + 1)
+      const authorization = createEip7702Authorization(
+        delegateAddress,
+        authorizationNonce(fields.nonce, true),
+        anyChain ? ANY_CHAIN_ID : chainId
+      );
+
+      console.log('📝 Authorization 데이터 준비:', {
+        chainId: authorization.chainId.toString(),
+        address: authorization.address,
+        nonce: authorization.nonce.toString(),
+        txNonce: fields.nonce.toString(),
+        digest: hashEip7702Authorization(authorization)
       });
 
-      console.log('✅ Authorization 서명 완료:', signature);
+      console.log('✍️ EIP-7702 Authorization 서명 중...');
 
-      // 6. authorizationList 구성 (EIP-7702 트랜잭션용)
-      const r = signature.slice(0, 66);
-      const s = '0x' + signature.slice(66, 130);
-      const v = parseInt(signature.slice(130, 132), 16);
-      
-      const authorizationList = [{
-        chainId: `0x${chainId.toString(16)}`,
-        address: deviceManagerAddress,
-        nonce: `0x${currentNonce.toString(16)}`,
-        yParity: v === 27 ? '0x0' : '0x1',
-        r: r,
-        s: s
-      }];
+      // 4. keccak256(0x05 || rlp([chain_id, address, nonce])) 서명 - 로컬 키 또는 지원하는 지갑
+      const localKey = LOCAL_KEY_SIGNING_ENABLED ? authorityKey.trim() : '';
+      const signedAuthorization = localKey
+        ? signEip7702Authorization(authorization, localKey)
+        : await signEip7702AuthorizationWithWallet(walletClient, authorization);
+
+      // 5. 서명한 authority가 현재 계정인지 확인
+      const check = verifyEip7702Authorization(signedAuthorization, { chainId, authority: userAddress });
+      if (!check.valid) {
+        throw new Error('Authorization 검증 실패: ' + check.reason);
+      }
+      console.log('✅ Authorization 서명 완료:', { authority: check.authority });
 
+      const authorizationList = [toAuthorizationListEntry(signedAuthorization)];
       console.log('📋 authorizationList 생성:', authorizationList);
 
-      // 7. 데모 트랜잭션 실행 (실제로는 이 authorization을 사용하는 트랜잭션)
-      // 실제 EIP-7702에서는 이 authorizationList를 포함한 트랜잭션을 전송
-      const demoTx = await walletClient.sendTransaction({
-        account: userAddress as `0x${string}`,
-        to: userAddress as `0x${string}`, // 자기 자신에게 (데모용)
-        value: BigInt(0),
-        data: '0x' // 빈 데이터 (실제로는 DeviceManager 함수 호출)
-        // authorizationList: authorizationList // EIP-7702 지원 시 추가
-      });
+      // 6. type 4 트랜잭션 서명 / 전송 후 code = 0xef0100 || delegate 확인
+      let serializedTransaction: string | undefined;
+      let broadcast: SetCodeBroadcastResult;
+      if (localKey) {
+        const tx = buildSetCodeTransaction({ ...fields, authorizationList: [signedAuthorization] });
+        serializedTransaction = signSetCodeTransaction(tx, localKey);
+        console.log('📦 Set-code 트랜잭션:', parseSetCodeTransaction(serializedTransaction));
+        broadcast = await broadcastSetCodeTransaction(publicClient, serializedTransaction);
+      } else {
+        const txHash = await walletClient.sendTransaction({
+          account: walletClient.account,
+          chain: walletClient.chain,
+          to: userAddress as `0x${string}`,
+          value: BigInt(0),
+          data: '0x',
+          gas: fields.gasLimit,
+          authorizationList: [{
+            address: signedAuthorization.address as `0x${string}`,
+            chainId: Number(signedAuthorization.chainId),
+            nonce: Number(signedAuthorization.nonce),
+            yParity: signedAuthorization.yParity,
+            r: signedAuthorization.r as `0x${string}`,
+            s: signedAuthorization.s as `0x${string}`
+          }]
+        });
+        broadcast = await waitForDelegation(publicClient, txHash, [userAddress]);
+      }
 
-      console.log('✅ EIP-7702 Authorization 트랜잭션 완료:', demoTx);
+      // delegation 기록 (inspector가 tx의 authorizationList를 다시 읽어 표시)
+      recordSetCodeTransaction(userAddress, broadcast.txHash, chainId);
+      setInspectorRefresh(prev => prev + 1);
+
+      const delegation = broadcast.delegations.find(item => item.authority === ethers.getAddress(userAddress));
+      console.log('✅ EIP-7702 Set-code 트랜잭션 완료:', broadcast);
+      // 0x0 authorization은 code를 0x로 비움 (0xef0100 || 0x0 이 아님)
+      const applied = isRevocation
+        ? delegation?.code === '0x'
+        : delegation?.delegate === delegateAddress;
+      if (!delegation || !applied) {
+        throw new Error(`계정 code가 기대한 값으로 바뀌지 않았습니다 (code: ${delegation?.code ?? '0x'})`);
+      }
+      setAccountNonce(Number(fields.nonce) + 2);
 
       setAuthorizationResult({
-        txHash: demoTx,
-        deviceManagerAddress: deviceManagerAddress,
+        txHash: broadcast.txHash,
+        delegateAddress,
         status: 'SUCCESS',
         authData: {
-          authorization,
-          signature,
-          authorizationList
+          authority: check.authority,
+          authorizationList,
+          serializedTransaction,
+          code: delegation.code
         }
       });
 
       alert('✅ EIP-7702 Authorization 생성 성공!\n\n' +
-            `📝 Transaction: ${demoTx.slice(0, 20)}...\n` +
-            `🏗️ DeviceManager: ${deviceManagerAddress.slice(0, 20)}...\n` +
-            `🎉 이제 이 Authorization을 사용하여 DeviceManager를 delegate call할 수 있습니다!`);
+            `📝 Transaction: ${broadcast.txHash.slice(0, 20)}...\n` +
+            `🏗️ Delegate: ${isRevocation ? '없음 (0x0)' : `${targetKind} ${delegateAddress.slice(0, 20)}...`}\n` +
+            `🔗 Code: ${delegation.code}\n` +
+            (isRevocation ? '🧹 Delegation이 해제되어 일반 EOA로 돌아왔습니다!' : `🎉 EOA가 ${targetKind}로 delegate되었습니다!`));
 
     } catch (error: any) {
       console.error('❌ Authorization 생성 실패:', error);
       
       setAuthorizationResult({
         txHash: '',
-        deviceManagerAddress: '',
+        delegateAddress: '',
         status: 'FAILED'
       });
 
@@ -192,16 +321,16 @@ export function EoaMigration({ userAddress }: EoaMigrationProps) {
           🔄 EIP-7702 Authorization 생성
         </h3>
         <p className="text-green-600 text-sm mb-4">
-          EOA가 DeviceManager 컨트랙트를 delegate call할 수 있도록 일시적 권한을 부여합니다.
+          Set-code 트랜잭션으로 EOA의 code를 선택한 컨트랙트로 delegate하거나, 0x0 authorization으로 해제합니다.
         </p>
         
         <div className="bg-green-100 rounded-md p-4 text-sm text-green-700">
           <p className="font-medium mb-2">🎯 EIP-7702 특징:</p>
           <ul className="space-y-1">
-            <li>• <strong>일시적 권한</strong>: 각 트랜잭션에서만 유효</li>
-            <li>• <strong>유연한 선택</strong>: 매번 다른 컨트랙트 선택 가능</li>
-            <li>• <strong>되돌리기 가능</strong>: 언제든지 일반 EOA로 복원</li>
-            <li>• <strong>nonce 제한 없음</strong>: 모든 nonce에서 사용 가능</li>
+            <li>• <strong>Set-code 트랜잭션</strong>: type 4 트랜잭션의 authorizationList로 code 설정</li>
+            <li>• <strong>지속되는 delegation</strong>: EOA code가 0xef0100 || delegate 주소로 유지</li>
+            <li>• <strong>되돌리기 가능</strong>: 다른 주소나 0x0으로 다시 authorization하면 변경 / 해제</li>
+            <li>• <strong>nonce 규칙</strong>: 직접 전송하면 authorization nonce = 트랜잭션 nonce + 1</li>
           </ul>
         </div>
       </div>
@@ -218,13 +347,7 @@ export function EoaMigration({ userAddress }: EoaMigrationProps) {
             <span>Nonce:</span>
             <span className="font-medium text-blue-600">
               {accountNonce !== null ? accountNonce : 'Loading...'}
-              <span className="text-xs text-gray-500 ml-1">(제한 없음)</span>
-            </span>
-          </div>
-          <div className="flex justify-between">
-            <span>계정 유형:</span>
-            <span className={`font-medium ${codeSize === 0 ? 'text-green-600' : 'text-orange-600'}`}>
-              {codeSize === 0 ? '✅ EOA' : `❓ Contract (${codeSize} bytes)`}
+              <span className="text-xs text-gray-500 ml-1">(authorization은 nonce + 1)</span>
             </span>
           </div>
           <div className="flex justify-between">
@@ -236,10 +359,85 @@ export function EoaMigration({ userAddress }: EoaMigrationProps) {
         </div>
       </div>
 
+      {/* 현재 delegate / delegation 기록 */}
+      <DelegationInspector userAddress={userAddress} refreshTrigger={inspectorRefresh} />
+
+      {/* chain_id = 0 authorization은 모든 체인에서 재사용 가능 */}
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={anyChain}
+          onChange={(e) => setAnyChain(e.target.checked)}
+          disabled={isCreatingAuth}
+        />
+        <span>모든 체인에서 유효한 Authorization (chain_id = 0)</span>
+      </label>
+
+      {/* delegate 선택 - 다른 컨트랙트로 변경하거나 0x0으로 해제 */}
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">
+          Delegate 대상
+        </label>
+        <select
+          value={targetDelegate}
+          onChange={(e) => setTargetDelegate(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          disabled={isCreatingAuth}
+        >
+          {KNOWN_DELEGATES.map(delegate => {
+            const blocked = (layoutChecks?.[delegate.name]?.conflicts.length ?? 0) > 0;
+            return (
+              <option key={delegate.name} value={delegate.address} disabled={blocked}>
+                {delegate.name} ({delegate.address.slice(0, 10)}...){blocked && (layoutsMissing ? ' - ⛔ storage layout 없음' : ' - ⛔ storage 충돌')}
+              </option>
+            );
+          })}
+          <option value={ethers.ZeroAddress}>Delegation 해제 (0x0)</option>
+        </select>
+        <p className="text-xs text-gray-500">
+          code만 바뀌고 storage는 남으므로, 기존 delegate의 세션 / 기기 데이터가 있으면 전송 전에 경고합니다
+        </p>
+        {layoutsMissing && (
+          <p className="text-xs text-orange-600">
+            ⚠️ storage layout이 생성되지 않아 이전 delegate와 다른 delegate로는 변경할 수 없습니다 (noir-webauthn/prover에서 npm run storage-layout)
+          </p>
+        )}
+        {targetLayoutCheck && targetLayoutCheck.conflicts.length > 0 && (
+          <ul className="text-xs text-red-600 space-y-1">
+            {targetLayoutCheck.conflicts.map(conflict => <li key={conflict}>⛔ {conflict}</li>)}
+          </ul>
+        )}
+      </div>
+
+      {/* 브라우저 지갑은 EIP-7702 서명을 지원하지 않아 로컬 키로 authorization / 트랜잭션 서명 (개발 빌드 전용) */}
+      {LOCAL_KEY_SIGNING_ENABLED && (
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-gray-700">
+            EOA 개인키 (테스트넷 전용, 선택)
+          </label>
+          <input
+            type="password"
+            value={authorityKey}
+            onChange={(e) => setAuthorityKey(e.target.value)}
+            placeholder={canSignWithWallet ? '0x... (비워두면 연결된 지갑으로 서명)' : '0x...'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+            disabled={isCreatingAuth}
+            autoComplete="off"
+          />
+          <p className="text-xs text-gray-500">키는 저장되지 않으며 이 페이지에서 서명에만 사용됩니다</p>
+        </div>
+      )}
+      {!canSignAuthorization && (
+        <p className="text-xs text-orange-600">
+          ⚠️ 연결된 지갑은 EIP-7702 authorization 서명을 지원하지 않습니다
+          {LOCAL_KEY_SIGNING_ENABLED && ' - 로컬 키를 입력하세요'}
+        </p>
+      )}
+
       {/* Authorization 생성 버튼 */}
       <button
         onClick={handleCreateAuthorization}
-        disabled={isCreatingAuth || !isConnected || !isEip7702Supported}
+        disabled={isCreatingAuth || !isConnected || !isEip7702Supported || !canSignAuthorization || (targetLayoutCheck?.conflicts.length ?? 0) > 0}
         className="w-full bg-gradient-to-r from-green-600 to-blue-600 text-white py-4 px-6 rounded-lg hover:from-green-700 hover:to-blue-700 disabled:from-gray-400 disabled:to-gray-400 disabled:cursor-not-allowed transition-all duration-200 font-medium"
       >
         {isCreatingAuth ? (
@@ -251,7 +449,7 @@ export function EoaMigration({ userAddress }: EoaMigrationProps) {
             EIP-7702 Authorization 생성 중...
           </span>
         ) : (
-          '🚀 DeviceManager Authorization 생성'
+          isRevocationTarget ? '🧹 Delegation 해제 (0x0 Authorization)' : `🚀 ${targetName} Authorization 생성`
         )}
       </button>
 
@@ -275,8 +473,8 @@ export function EoaMigration({ userAddress }: EoaMigrationProps) {
                 <span className="font-mono break-all">{authorizationResult.txHash}</span>
               </div>
               <div className="flex justify-between">
-                <span>DeviceManager 주소:</span>
-                <span className="font-mono">{authorizationResult.deviceManagerAddress}</span>
+                <span>Delegate 주소:</span>
+                <span className="font-mono">{authorizationResult.delegateAddress}</span>
               </div>
               
               {authorizationResult.authData && (
@@ -285,12 +483,17 @@ export function EoaMigration({ userAddress }: EoaMigrationProps) {
                   <pre className="text-xs bg-white p-2 rounded overflow-x-auto">
                     {JSON.stringify(authorizationResult.authData.authorizationList, null, 2)}
                   </pre>
+                  <p className="mt-2 font-mono text-xs break-all">code: {authorizationResult.authData.code}</p>
                 </div>
               )}
               
               <div className="mt-3 p-3 bg-green-100 rounded-md">
                 <p className="font-medium">🎉 사용 방법:</p>
-                <p>이제 DeviceManager 함수를 호출하는 트랜잭션에 이 Authorization을 포함하여 delegate call을 실행할 수 있습니다.</p>
+                {authorizationResult.delegateAddress === ethers.ZeroAddress ? (
+                  <p>EOA code가 비워져 일반 EOA로 동작합니다. 이전 delegate의 storage는 그대로 남아 있습니다.</p>
+                ) : (
+                  <p>이제 EOA 주소로 {identifyDelegate(authorizationResult.delegateAddress)} 함수를 직접 호출할 수 있습니다 (EOA code가 delegate됨).</p>
+                )}
               </div>
             </div>
           )}
@@ -301,10 +504,10 @@ export function EoaMigration({ userAddress }: EoaMigrationProps) {
       <div className="bg-blue-50 border border-blue-200 rounded-md p-4 text-sm text-blue-700">
         <p className="font-medium mb-2">🔧 EIP-7702 동작 방식:</p>
         <ul className="space-y-1">
-          <li>• <strong>트랜잭션별 적용</strong>: Authorization은 해당 트랜잭션에서만 유효</li>
-          <li>• <strong>일시적 권한 위임</strong>: 트랜잭션 종료 후 EOA는 원래 상태로 복원</li>
-          <li>• <strong>언제든 변경 가능</strong>: 다른 컨트랙트로 delegate call하거나 일반 EOA로 동작 가능</li>
-          <li>• <strong>유연한 선택</strong>: 매번 사용할 컨트랙트 코드를 자유롭게 선택</li>
+          <li>• <strong>서명</strong>: keccak256(0x05 || rlp([chain_id, address, nonce])) - chain_id = 0이면 모든 체인에서 유효</li>
+          <li>• <strong>적용</strong>: 트랜잭션 실행 전에 authorization이 처리되어 EOA code가 설정됨</li>
+          <li>• <strong>확인</strong>: 전송 후 eth_getCode가 0xef0100 || delegate 주소인지 (해제 시 0x인지) 확인</li>
+          <li>• <strong>언제든 변경 가능</strong>: 새 authorization으로 다른 컨트랙트로 바꾸거나 해제</li>
         </ul>
       </div>
 
@@ -314,8 +517,9 @@ export function EoaMigration({ userAddress }: EoaMigrationProps) {
         <ul className="space-y-1">
           <li>• EIP-7702를 지원하는 네트워크에서만 작동합니다</li>
           <li>• Authorization 서명 시 신뢰할 수 있는 컨트랙트인지 확인하세요</li>
+          <li>• Delegation을 바꾸거나 해제해도 storage는 지워지지 않습니다 - 활성 세션은 먼저 폐기하세요</li>
           <li>• 반드시 테스트넷에서 먼저 테스트해보세요</li>
-          <li>• 각 트랜잭션마다 새로운 Authorization이 필요할 수 있습니다</li>
+          {LOCAL_KEY_SIGNING_ENABLED && <li>• 개인키 입력은 테스트 계정에만 사용하세요</li>}
         </ul>
       </div>
     </div>
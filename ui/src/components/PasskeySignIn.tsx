@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { usePublicClient } from 'wagmi';
+import { isConditionalMediationAvailable, isWebAuthnSupported } from '@/lib/webauthn';
+import { signInWithPasskey, WALLET_CONNECTION_REQUIRED, type PasskeyAccount } from '@/lib/passkeyLogin';
+
+interface PasskeySignInProps {
+  onSignIn: (account: PasskeyAccount) => void;
+}
+
+export function PasskeySignIn({ onSignIn }: PasskeySignInProps) {
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [webAuthnSupported, setWebAuthnSupported] = useState(false);
+  const [walletRequired, setWalletRequired] = useState(false);
+  const publicClient = usePublicClient();
+
+  useEffect(() => {
+    let cancelled = false;
+    setWebAuthnSupported(isWebAuthnSupported());
+
+    // Conditional UI: offer registered passkeys in the input's autofill dropdown
+    isConditionalMediationAvailable().then(available => {
+      if (cancelled || !available) return;
+      console.log('🔑 Waiting for passkey autofill...');
+      signInWithPasskey(true, publicClient)
+        .then(account => {
+          if (!cancelled) onSignIn(account);
+        })
+        .catch(error => {
+          // Aborted when the modal sign-in button starts a new request
+          if ((error as Error).name === 'AbortError') return;
+          if ((error as Error).name === WALLET_CONNECTION_REQUIRED) {
+            if (!cancelled) setWalletRequired(true);
+            return;
+          }
+          console.error('❌ Passkey autofill sign-in failed:', error);
+          if (!cancelled) alert('❌ Passkey Sign-In Failed:\n' + (error as Error).message);
+        });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [onSignIn, publicClient]);
+
+  const handleSignIn = async () => {
+    setIsSigningIn(true);
+    setWalletRequired(false);
+    try {
+      console.log('🚀 Passkey Sign-In Starting...');
+      const account = await signInWithPasskey(false, publicClient);
+      onSignIn(account);
+    } catch (error) {
+      // Security keys registered without a discoverable credential carry no account
+      if ((error as Error).name === WALLET_CONNECTION_REQUIRED) {
+        setWalletRequired(true);
+        return;
+      }
+      console.error('❌ Passkey Sign-In Failed:', error);
+      alert('❌ Passkey Sign-In Failed:\n' + (error as Error).message);
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-left">
+      <h3 className="text-lg font-semibold text-gray-800">
+        👆 Sign In with Passkey (No MetaMask Required)
+      </h3>
+      <p className="text-sm text-gray-600">
+        Already registered a device? Your passkey resolves your account automatically.
+      </p>
+
+      {/* Must be in the DOM before the conditional request starts */}
+      <input
+        type="text"
+        name="username"
+        autoComplete="username webauthn"
+        placeholder="Choose a passkey..."
+        className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-purple-500"
+      />
+
+      <button
+        onClick={handleSignIn}
+        disabled={isSigningIn || !webAuthnSupported}
+        className="w-full bg-purple-600 text-white py-3 px-4 rounded-md hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+      >
+        {isSigningIn ? 'Waiting for passkey...' : '🔐 Sign In with Passkey'}
+      </button>
+
+      {walletRequired && (
+        <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">
+          🔗 This security key does not store your account. Connect your wallet to use it.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,25 +1,56 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { ethers } from 'ethers';
+import base64url from 'base64url';
+import { useChainId } from 'wagmi';
 import { 
   authenticateWebAuthn,
-  formatWebAuthnForContract 
+  formatWebAuthnForContract,
+  generatePrfSalt,
+  getPrfOutput,
+  isPrfSupported
 } from '@/lib/webauthn';
-import { 
+import {
   generateSessionStartProof,
-  createEncryptedSessionKey
+  UNPINNED_VERIFICATION_KEY_MESSAGE,
+  verifyZKProofOffchain
 } from '@/lib/zkProofs';
+import { isCircuitAuthenticatorData } from '@/lib/circuitInputs';
+import { computeIdentity } from '@/lib/identity';
+import type { ProvingStage } from '@/lib/noirProver';
+import {
+  putSessionKey,
+  deleteSessionKey,
+  discardLegacySessions
+} from '@/lib/keystore';
+import {
+  buildActionChallenge,
+  challengeDeadline,
+  newChallengeNonce,
+  sessionDelegateDeviceId
+} from '@/lib/challenge';
+import { trackAssertionSignCount } from '@/lib/signCounter';
 
 interface Session {
   id: string;
   name: string;
-  sessionKey: string;
   publicKey: string;
   expiresAt: string;
   createdAt: string;
   isActive: boolean;
   permissions: string[];
+  credentialId?: string;
+  prfSalt?: string;
+  keySource?: 'prf' | 'passphrase';
+}
+
+function promptSessionPassphrase(reason: string): string {
+  const passphrase = window.prompt(`${reason}\nEnter a passphrase to encrypt the session key:`);
+  if (!passphrase) {
+    throw new Error('A passphrase is required to encrypt the session key.');
+  }
+  return passphrase;
 }
 
 interface SessionManagerProps {
@@ -32,9 +63,23 @@ export function SessionManager({ userAddress, refreshTrigger }: SessionManagerPr
   const [isCreating, setIsCreating] = useState(false);
   const [expirationHours, setExpirationHours] = useState(24);
   const [loadingSessionId, setLoadingSessionId] = useState<string>('');
+  const [provingStage, setProvingStage] = useState<ProvingStage | null>(null);
+  const proofAbortRef = useRef<AbortController | null>(null);
+  const chainId = useChainId();
 
   useEffect(() => {
-    loadSessions();
+    // Legacy localStorage session keys cannot be decrypted any more - remove them and tell the user
+    discardLegacySessions(userAddress)
+      .then(discarded => {
+        if (discarded.length > 0) {
+          alert(`⚠️ ${discarded.length} legacy session(s) were removed.\n\n` +
+                'Their keys were encrypted with a key that cannot be re-derived, so they can no longer be used.\n' +
+                'Revoke them on-chain if they are still active, then start a new session.\n\n' +
+                discarded.map(session => `• ${session.address}`).join('\n'));
+        }
+      })
+      .catch(error => console.error('❌ Legacy session cleanup failed:', error))
+      .finally(loadSessions);
   }, [userAddress, refreshTrigger]);
 
   const loadSessions = () => {
@@ -56,34 +101,106 @@ export function SessionManager({ userAddress, refreshTrigger }: SessionManagerPr
     try {
       console.log('🚀 Option 4 Session Creation Starting...');
 
-      // 1. Require Touch ID authentication
+      // 1. Generate new session key
+      const sessionWallet = new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)));
+      const sessionPubKey = ethers.getBytes(sessionWallet.signingKey.publicKey); // 0x04 || x || y
+
+      // 2. Find the registered device that authorizes this session
+      const devices = JSON.parse(localStorage.getItem(`devices_${userAddress}`) || '[]');
+      // Devices restored from SessionDelegate have no credentialId until their passkey signs in
+      const device = devices.find((d: { isActive: boolean; credentialId: string }) => d.isActive && d.credentialId);
+      if (!device) {
+        throw new Error('No active device registered. Please register a device first.');
+      }
+      if (!device.pubKeyX || !device.pubKeyY) {
+        throw new Error('Device public key is not stored. Please re-register the device.');
+      }
+
+      // 3. Require Touch ID authentication bound to the session parameters
       console.log('👆 Touch ID session start authentication...');
-      const touchResponse = await authenticateWebAuthn();
-      const touchData = formatWebAuthnForContract(touchResponse);
+      const { challenge, hash: challengeHash } = buildActionChallenge({
+        type: 'startSession',
+        chainId: BigInt(chainId),
+        owner: userAddress,
+        nonce: newChallengeNonce(),
+        deadline: challengeDeadline(),
+        sessionPubKeyX: BigInt(ethers.hexlify(sessionPubKey.slice(1, 33))),
+        sessionPubKeyY: BigInt(ethers.hexlify(sessionPubKey.slice(33, 65))),
+        ttl: BigInt(expirationHours * 60 * 60),
+        deviceId: sessionDelegateDeviceId(device.pubKeyX, device.pubKeyY)
+      });
+      // Choose PRF or passphrase before the touch: skip the PRF request when the browser
+      // or the registered credential is known not to support it
+      const usePrf = device.prfEnabled !== false && await isPrfSupported();
+      let keySource: 'prf' | 'passphrase' = usePrf ? 'prf' : 'passphrase';
+      const passphrase = usePrf
+        ? null
+        : promptSessionPassphrase('This browser or passkey does not support the PRF extension.');
 
-      // 2. Generate new session key
-      const sessionWallet = new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)));
+      // Fixed PRF salt per session: the same passkey + salt always yields the same secret
+      const prfSalt = usePrf ? generatePrfSalt() : undefined;
+      const touchResponse = await authenticateWebAuthn(device.credentialId, challenge, prfSalt, device.transports);
+      trackAssertionSignCount(userAddress, touchResponse);
+
+      // Fall back to a passphrase when the authenticator ignored the PRF request
+      let encryptionSecret = passphrase ?? getPrfOutput(touchResponse);
+      if (!encryptionSecret) {
+        console.warn('⚠️ PRF extension not supported, falling back to passphrase');
+        keySource = 'passphrase';
+        encryptionSecret = promptSessionPassphrase('This authenticator does not support the PRF extension.');
+      }
+      // Security keys answer a PRF (hmac-secret) request with extension data in authenticatorData (ED flag),
+      // which the circuit cannot prove - ask for a second touch without PRF for the proof, same challenge
+      let proofResponse = touchResponse;
+      if (!isCircuitAuthenticatorData(base64url.toBuffer(touchResponse.response.authenticatorData))) {
+        console.warn('⚠️ Authenticator returned extension data, touch again to sign the session proof');
+        proofResponse = await authenticateWebAuthn(device.credentialId, challenge, undefined, device.transports);
+        trackAssertionSignCount(userAddress, proofResponse);
+      }
+      const touchData = formatWebAuthnForContract(proofResponse);
       
-      // 3. Structure Touch signature data
+      // Structure Touch signature data
       const touchSignature = {
-        r: touchData.signature.slice(0, 66),
-        s: touchData.signature.slice(66, 132),
-        challenge: touchData.clientDataJSON
+        r: touchData.r,
+        s: touchData.s,
+        challenge: challengeHash,
+        clientDataJSON: touchData.clientDataJSON,
+        authenticatorData: touchData.authenticatorData
       };
 
       // 4. Generate ZK Proof (session start proof)
       console.log('🔄 Generating session start ZK Proof...');
+      if (!device.pubKeyX || !device.pubKeyY) {
+        throw new Error('Device public key not found. Please re-register this device.');
+      }
+      proofAbortRef.current = new AbortController();
       const sessionZkProof = await generateSessionStartProof(
         sessionWallet.address,
         touchSignature,
-        'mock_device_id' // Actually use registered device ID
+        { id: device.id, pubKeyX: device.pubKeyX, pubKeyY: device.pubKeyY },
+        { onProgress: setProvingStage, signal: proofAbortRef.current.signal }
       );
+      setProvingStage(null);
+
+      // Verify with the exported verification key before the session is stored
+      const verification = await verifyZKProofOffchain(sessionZkProof, {
+        identity: computeIdentity(device.pubKeyX, device.pubKeyY),
+        challenge
+      });
+      // Fails closed on a fresh checkout until the vkey hash is pinned - say so instead of a generic failure
+      if (!verification.vkeyPinned) {
+        throw new Error(UNPINNED_VERIFICATION_KEY_MESSAGE);
+      }
+      if (!verification.valid) {
+        throw new Error(`ZK Proof verification failed: ${verification.reason}`);
+      }
 
-      // 5. Generate AES encrypted session key
-      console.log('🔐 Encrypting session key with Touch ID...');
-      const encryptedSession = createEncryptedSessionKey(
-        JSON.stringify(touchSignature),
-        sessionWallet.privateKey
+      // 5. Store the session key in the AES-GCM keystore (IndexedDB)
+      console.log(`🔐 Encrypting session key (${keySource})...`);
+      const keyId = ethers.keccak256(ethers.toUtf8Bytes(sessionWallet.address));
+      const storedKey = await putSessionKey(
+        { id: keyId, owner: userAddress, privateKey: sessionWallet.privateKey },
+        encryptionSecret
       );
       
       // 6. Calculate expiration time
@@ -93,20 +210,23 @@ export function SessionManager({ userAddress, refreshTrigger }: SessionManagerPr
       console.log('✅ Option 4 Session Creation Complete:', {
         sessionAddress: sessionWallet.address,
         zkProofLength: sessionZkProof.proof.length,
-        encryptedKeyLength: encryptedSession.encryptedKey.length,
-        keyId: encryptedSession.keyId,
-        expiresAt: expiresAt.toISOString()
+        zkProofVerified: verification.circuitId,
+        keyId: storedKey.id,
+        expiresAt: expiresAt.toISOString(),
+        keySource
       });
 
       const newSession: Session = {
-        id: encryptedSession.keyId,
+        id: storedKey.id,
         name: sessionName,
-        sessionKey: encryptedSession.encryptedKey, // Store encrypted key
         publicKey: sessionWallet.address,
         expiresAt: expiresAt.toISOString(),
         createdAt: new Date().toISOString(),
         isActive: true,
         permissions: ['transfer', 'approve'],
+        credentialId: touchResponse.id,
+        prfSalt,
+        keySource,
       };
 
       const updatedSessions = [...sessions, newSession];
@@ -114,20 +234,31 @@ export function SessionManager({ userAddress, refreshTrigger }: SessionManagerPr
       localStorage.setItem(`sessions_${userAddress}`, JSON.stringify(updatedSessions));
 
       alert('✅ EIP-7702 + ZK Proof Session Creation Successful!\n\n' +
-            `🎫 Session ID: ${encryptedSession.keyId.slice(0, 10)}...\n` +
-            `🔐 Encrypted: ${encryptedSession.encryptedKey.length} chars\n` +
+            `🎫 Session ID: ${storedKey.id.slice(0, 10)}...\n` +
+            `🔐 ZK Proof: verified (${verification.circuitId})\n` +
+            `🔐 Encrypted: AES-GCM keystore (${keySource === 'prf' ? 'Passkey PRF' : 'Passphrase'})\n` +
             `👆 Touch-to-Sign Ready!`);
       
       setExpirationHours(24);
 
     } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        console.log('🛑 Session creation cancelled');
+        return;
+      }
       console.error('❌ Option 4 Session Creation Failed:', error);
       alert('❌ EIP-7702 Session Creation Failed:\n' + (error as Error).message);
     } finally {
+      proofAbortRef.current = null;
+      setProvingStage(null);
       setIsCreating(false);
     }
   };
 
+  const cancelProof = () => {
+    proofAbortRef.current?.abort();
+  };
+
   const revokeSession = async (sessionId: string) => {
     if (!confirm('Are you sure you want to revoke this session?')) {
       return;
@@ -135,6 +266,7 @@ export function SessionManager({ userAddress, refreshTrigger }: SessionManagerPr
 
     setLoadingSessionId(sessionId);
     try {
+      await deleteSessionKey(sessionId);
       const updatedSessions = sessions.map(session =>
         session.id === sessionId ? { ...session, isActive: false } : session
       );
@@ -150,9 +282,9 @@ export function SessionManager({ userAddress, refreshTrigger }: SessionManagerPr
     }
   };
 
-  const copySessionKey = (sessionKey: string) => {
-    navigator.clipboard.writeText(sessionKey);
-    alert('📋 Session key copied to clipboard!');
+  const copySessionAddress = (sessionAddress: string) => {
+    navigator.clipboard.writeText(sessionAddress);
+    alert('📋 Session address copied to clipboard!');
   };
 
   const formatDate = (dateString: string) => {
@@ -241,12 +373,20 @@ export function SessionManager({ userAddress, refreshTrigger }: SessionManagerPr
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              Creating Session...
+              {provingStage ? `Generating ZK Proof (${provingStage})...` : 'Creating Session...'}
             </span>
           ) : (
             '🎫 Create Session with Touch ID'
           )}
         </button>
+        {provingStage && (
+          <button
+            onClick={cancelProof}
+            className="w-full bg-gray-100 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            Cancel Proof Generation
+          </button>
+        )}
       </div>
 
       {/* Active Sessions */}
@@ -289,15 +429,18 @@ export function SessionManager({ userAddress, refreshTrigger }: SessionManagerPr
                         <p className="font-mono text-xs break-all">
                           ID: {session.id.slice(0, 20)}...
                         </p>
+                        <p className="text-xs">
+                          🔐 Key: {session.keySource === 'passphrase' ? 'Passphrase' : 'Passkey PRF'}
+                        </p>
                       </div>
                     </div>
 
                     <div className="flex space-x-2 ml-4">
                       <button
-                        onClick={() => copySessionKey(session.sessionKey)}
+                        onClick={() => copySessionAddress(session.publicKey)}
                         className="px-3 py-1 text-sm bg-blue-100 text-blue-700 hover:bg-blue-200 rounded transition-colors"
                       >
-                        📋 Copy Key
+                        📋 Copy Address
                       </button>
                       
                       <button
@@ -359,7 +502,7 @@ export function SessionManager({ userAddress, refreshTrigger }: SessionManagerPr
         <p className="font-medium mb-1">ℹ️ Session Information:</p>
         <ul className="space-y-1 text-blue-600">
           <li>• Sessions enable Touch-to-Sign functionality</li>
-          <li>• Each session has a unique encrypted key</li>
+          <li>• Each session has a unique key, AES-GCM encrypted in IndexedDB and unlocked by the passkey PRF extension (or a passphrase)</li>
           <li>• Sessions automatically expire after the set time</li>
           <li>• You can revoke sessions manually at any time</li>
         </ul>
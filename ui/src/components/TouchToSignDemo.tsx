@@ -2,11 +2,20 @@
 
 import { useState } from 'react';
 import { ethers } from 'ethers';
+import { useChainId } from 'wagmi';
 import { 
   authenticateWebAuthn,
-  formatWebAuthnForContract 
+  formatWebAuthnForContract,
+  getPrfOutput
 } from '@/lib/webauthn';
 import { touchToSignTransaction } from '@/lib/zkProofs';
+import { discardLegacySessions } from '@/lib/keystore';
+import {
+  buildActionChallenge,
+  challengeDeadline,
+  newChallengeNonce
+} from '@/lib/challenge';
+import { trackAssertionSignCount } from '@/lib/signCounter';
 
 interface TouchToSignDemoProps {
   userAddress: string;
@@ -33,6 +42,7 @@ export function TouchToSignDemo({ userAddress }: TouchToSignDemoProps) {
     touchId: string;
     transactionHash: string;
   } | null>(null);
+  const chainId = useChainId();
 
   // Mock transaction templates
   const mockTransactions: Record<string, MockTransaction> = {
@@ -69,6 +79,7 @@ export function TouchToSignDemo({ userAddress }: TouchToSignDemoProps) {
       console.log('🚀 Touch-to-Sign Demo Starting...');
 
       // 1. Load session information
+      await discardLegacySessions(userAddress);
       const sessions = JSON.parse(localStorage.getItem(`sessions_${userAddress}`) || '[]');
       const session = sessions.find((s: { id: string }) => s.id === selectedSession);
       
@@ -99,24 +110,53 @@ export function TouchToSignDemo({ userAddress }: TouchToSignDemoProps) {
         value: txData.value
       });
 
-      // 3. Touch ID authentication
+      const transactionHash = ethers.keccak256(ethers.toUtf8Bytes(transactionData));
+
+      // 3. Touch ID authentication bound to this transaction
       console.log('👆 Touch ID authentication request...');
-      const touchResponse = await authenticateWebAuthn();
+      const { challenge, hash: challengeHash } = buildActionChallenge({
+        type: 'executeTx',
+        chainId: BigInt(chainId),
+        owner: userAddress,
+        nonce: newChallengeNonce(),
+        deadline: challengeDeadline(),
+        txHash: transactionHash
+      });
+      const devices = JSON.parse(localStorage.getItem(`devices_${userAddress}`) || '[]');
+      const device = devices.find((d: { credentialId: string }) => d.credentialId === session.credentialId);
+      if (!device?.isActive) {
+        throw new Error('The device that started this session is not registered or has been deactivated.');
+      }
+      const touchResponse = await authenticateWebAuthn(session.credentialId, challenge, session.prfSalt, device?.transports);
+      trackAssertionSignCount(userAddress, touchResponse);
       const touchData = formatWebAuthnForContract(touchResponse);
 
-      // Generate Touch signature data
-      const touchSignature = JSON.stringify({
-        r: touchData.signature.slice(0, 66),
-        s: touchData.signature.slice(66, 132),
-        challenge: touchData.clientDataJSON
+      console.log('✍️ Touch signature:', {
+        r: touchData.r,
+        s: touchData.s,
+        challenge: challengeHash
       });
 
+      // Re-derive the session key encryption secret (same passkey + same salt)
+      let encryptionSecret: string | null;
+      if (session.keySource === 'passphrase') {
+        encryptionSecret = window.prompt('Enter the passphrase for this session key:');
+      } else {
+        encryptionSecret = getPrfOutput(touchResponse);
+        if (!encryptionSecret) {
+          throw new Error('PRF output missing. Use the passkey that created this session.');
+        }
+      }
+      if (!encryptionSecret) {
+        throw new Error('A passphrase is required to unlock the session key.');
+      }
+
       // 4. Execute Touch-to-Sign
       console.log('🔐 Executing Touch-to-Sign...');
       const signResult = await touchToSignTransaction(
         transactionData,
-        session.sessionKey, // Encrypted session key
-        touchSignature
+        session.id, // Keystore entry holding the encrypted session key
+        encryptionSecret
       );
 
       console.log('✅ Touch-to-Sign Complete:', signResult);
@@ -127,7 +167,7 @@ export function TouchToSignDemo({ userAddress }: TouchToSignDemoProps) {
         sessionAddress: signResult.sessionAddress,
         timestamp: new Date().toISOString(),
         touchId: touchResponse.id,
-        transactionHash: ethers.keccak256(ethers.toUtf8Bytes(transactionData))
+        transactionHash
       });
 
       alert('✅ Touch-to-Sign Success!\n\n' +
@@ -0,0 +1,609 @@
+// WebAuthn attestation statement verification for device registration
+import { X509Certificate, ExtendedKeyUsageExtension, BasicConstraintsExtension } from '@peculiar/x509';
+import type { RegistrationResponseJSON } from '@simplewebauthn/types';
+import { decode as cborDecode } from 'cbor-x';
+import base64url from 'base64url';
+import {
+  COSE_ALG,
+  extractPublicKeyFromRegistration,
+  parseDerSignature,
+  type DevicePublicKey
+} from './webauthn';
+import fidoMetadata from './fidoMetadata.json';
+
+/**
+ * 지원하는 attestation 형식
+ */
+export type AttestationFormat = 'packed' | 'fido-u2f' | 'apple' | 'tpm' | 'none';
+
+/**
+ * attestation 검증 결과
+ * trusted는 x5c 체인이 메타데이터의 루트 인증서까지 검증되었을 때만 true
+ */
+export interface AttestationVerificationResult {
+  fmt: AttestationFormat;
+  attestationType: 'None' | 'Self' | 'Basic' | 'AttCA' | 'AnonCA';
+  aaguid: string;
+  authenticatorModel: string;
+  trusted: boolean;
+}
+
+/**
+ * 루트까지 검증되지 않은 attestation(none / self / 번들에 없는 루트) 처리 방침
+ * reject: 등록 거부, confirm: 사용자가 확인해야 등록
+ */
+export type UntrustedAttestationPolicy = 'reject' | 'confirm';
+
+interface MetadataEntry {
+  aaguid: string;
+  metadataStatement: {
+    description: string;
+    attestationTypes: string[];
+    attestationRootCertificates: string[];
+  };
+}
+
+const UNKNOWN_AUTHENTICATOR = 'Unknown Authenticator';
+const ZERO_AAGUID = '00000000-0000-0000-0000-000000000000';
+
+// 인증서 확장 OID
+const OID_FIDO_GEN_CE_AAGUID = '1.3.6.1.4.1.45724.1.1.4';
+const OID_APPLE_NONCE = '1.2.840.113635.100.8.2';
+const OID_TCG_KP_AIK_CERTIFICATE = '2.23.133.8.3';
+const OID_SUBJECT_ALT_NAME = '2.5.29.17';
+
+// TPM 2.0 상수 (TPM 2.0 Part 2: Structures)
+const TPM_GENERATED_VALUE = 0xff544347;
+const TPM_ST_ATTEST_CERTIFY = 0x8017;
+const TPM_ALG_ECC = 0x0023;
+const TPM_ALG_NULL = 0x0010;
+const TPM_ECC_NIST_P256 = 0x0003;
+const TPM_ALG_HASH: Record<number, string> = {
+  0x0004: 'SHA-1',
+  0x000b: 'SHA-256',
+  0x000c: 'SHA-384',
+  0x000d: 'SHA-512',
+};
+
+/**
+ * AAGUID로 번들된 FIDO 메타데이터 항목 조회
+ */
+export function getAuthenticatorMetadata(aaguid: string): MetadataEntry | undefined {
+  return (fidoMetadata.entries as MetadataEntry[]).find(
+    entry => entry.aaguid.toLowerCase() === aaguid.toLowerCase()
+  );
+}
+
+/**
+ * attestation 신뢰 루트 (base64 DER)
+ * apple(익명 attestation)과 fido-u2f는 AAGUID가 0이라 메타데이터 항목이 없으므로 형식별 루트를 함께 사용
+ */
+export function getAttestationRootCertificates(fmt: AttestationFormat, aaguid: string): string[] {
+  const formatRoots: Record<string, string[]> = fidoMetadata.formatAttestationRootCertificates;
+  return [
+    ...(getAuthenticatorMetadata(aaguid)?.metadataStatement.attestationRootCertificates ?? []),
+    ...(formatRoots[fmt] ?? []),
+  ];
+}
+
+/**
+ * AAGUID로 인증기 모델명 조회 (iPhone/YubiKey 등 구분용)
+ */
+export function getAuthenticatorModel(aaguid: string): string {
+  return getAuthenticatorMetadata(aaguid)?.metadataStatement.description ?? UNKNOWN_AUTHENTICATOR;
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+async function digest(algorithm: string, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data));
+}
+
+/**
+ * COSE 알고리즘별 WebCrypto 서명 검증 파라미터
+ */
+function getVerifyParams(alg: number): {
+  importParams: EcKeyImportParams | RsaHashedImportParams;
+  verifyParams: EcdsaParams | RsaPssParams | Algorithm;
+  hash: string;
+} {
+  switch (alg) {
+    case COSE_ALG.ES256:
+      return {
+        importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+        verifyParams: { name: 'ECDSA', hash: 'SHA-256' },
+        hash: 'SHA-256',
+      };
+    case COSE_ALG.RS256:
+      return {
+        importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        verifyParams: { name: 'RSASSA-PKCS1-v1_5' },
+        hash: 'SHA-256',
+      };
+    case -37: // PS256
+      return {
+        importParams: { name: 'RSA-PSS', hash: 'SHA-256' },
+        verifyParams: { name: 'RSA-PSS', saltLength: 32 },
+        hash: 'SHA-256',
+      };
+    case -65535: // RS1 (구형 TPM)
+      return {
+        importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-1' },
+        verifyParams: { name: 'RSASSA-PKCS1-v1_5' },
+        hash: 'SHA-1',
+      };
+    default:
+      throw new Error(`지원하지 않는 attestation 서명 알고리즘입니다 (alg: ${alg})`);
+  }
+}
+
+/**
+ * attestation 서명 검증 (ECDSA는 DER 서명을 WebCrypto용 r || s로 변환)
+ */
+async function verifySignature(
+  alg: number,
+  key: X509Certificate | DevicePublicKey,
+  signature: Uint8Array,
+  data: Uint8Array
+): Promise<boolean> {
+  const { importParams, verifyParams } = getVerifyParams(alg);
+  const cryptoKey = key instanceof X509Certificate
+    ? await key.publicKey.export(importParams, ['verify'])
+    : await crypto.subtle.importKey(
+        'raw',
+        concatBytes(new Uint8Array([0x04]), Buffer.from(key.x.slice(2), 'hex'), Buffer.from(key.y.slice(2), 'hex')),
+        importParams,
+        false,
+        ['verify']
+      );
+  const rawSignature = alg === COSE_ALG.ES256
+    ? (({ r, s }) => concatBytes(r, s))(parseDerSignature(signature))
+    : signature;
+  return crypto.subtle.verify(verifyParams, cryptoKey, rawSignature, data);
+}
+
+function parseCertificates(x5c: unknown): X509Certificate[] {
+  if (!Array.isArray(x5c) || x5c.length === 0) {
+    throw new Error('x5c 인증서 체인이 없습니다');
+  }
+  return x5c.map(der => new X509Certificate(new Uint8Array(der)));
+}
+
+/**
+ * 인증서의 id-fido-gen-ce-aaguid 확장이 authData의 AAGUID와 일치하는지 확인
+ */
+function checkAaguidExtension(certificate: X509Certificate, aaguid: string) {
+  const extension = certificate.getExtension(OID_FIDO_GEN_CE_AAGUID);
+  if (!extension) return;
+  if (extension.critical) {
+    throw new Error('AAGUID 확장은 critical일 수 없습니다');
+  }
+  // OCTET STRING (04 10) + 16바이트 AAGUID
+  const value = new Uint8Array(extension.value).slice(2);
+  if (Buffer.from(value).toString('hex') !== aaguid.replace(/-/g, '')) {
+    throw new Error('인증서의 AAGUID가 authenticator data와 일치하지 않습니다');
+  }
+}
+
+function checkNotCa(certificate: X509Certificate) {
+  const basicConstraints = certificate.getExtension(BasicConstraintsExtension);
+  if (basicConstraints?.ca) {
+    throw new Error('attestation 인증서가 CA 인증서입니다');
+  }
+}
+
+/**
+ * x5c 체인 검증
+ * 체인 내부 서명/유효기간이 잘못되면 에러, 신뢰 루트(rootCertificates)까지 이어지면 true
+ */
+async function verifyCertificateChain(certificates: X509Certificate[], rootCertificates: string[]): Promise<boolean> {
+  const now = new Date();
+  for (const [index, certificate] of certificates.entries()) {
+    if (certificate.notBefore > now || certificate.notAfter < now) {
+      throw new Error(`attestation 인증서가 유효기간을 벗어났습니다 (${certificate.subject})`);
+    }
+    const issuer = certificates[index + 1];
+    if (issuer && !(await certificate.verify({ publicKey: issuer.publicKey, signatureOnly: true }))) {
+      throw new Error(`attestation 인증서 체인 서명이 올바르지 않습니다 (${certificate.subject})`);
+    }
+  }
+
+  const roots = rootCertificates.map(pem => new X509Certificate(pem));
+  const last = certificates[certificates.length - 1];
+  for (const root of roots) {
+    const isRoot = bytesEqual(new Uint8Array(last.rawData), new Uint8Array(root.rawData));
+    if (isRoot || (await last.verify({ publicKey: root.publicKey, signatureOnly: true }))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function verifyPacked(
+  attStmt: Record<string, unknown>,
+  authData: Uint8Array,
+  clientDataHash: Uint8Array,
+  credential: DevicePublicKey
+): Promise<Pick<AttestationVerificationResult, 'attestationType' | 'trusted'>> {
+  const alg = attStmt.alg as number;
+  const sig = new Uint8Array(attStmt.sig as Uint8Array);
+  const signedData = concatBytes(authData, clientDataHash);
+
+  // Self attestation: 자격증명 키로 직접 서명
+  if (!attStmt.x5c) {
+    if (alg !== credential.alg) {
+      throw new Error('self attestation 알고리즘이 자격증명 키와 일치하지 않습니다');
+    }
+    if (!(await verifySignature(alg, credential, sig, signedData))) {
+      throw new Error('packed self attestation 서명이 올바르지 않습니다');
+    }
+    return { attestationType: 'Self', trusted: false };
+  }
+
+  const certificates = parseCertificates(attStmt.x5c);
+  const [leaf] = certificates;
+  if (!(await verifySignature(alg, leaf, sig, signedData))) {
+    throw new Error('packed attestation 서명이 올바르지 않습니다');
+  }
+  if (!leaf.subject.includes('OU=Authenticator Attestation')) {
+    throw new Error('packed attestation 인증서의 OU가 올바르지 않습니다');
+  }
+  checkNotCa(leaf);
+  checkAaguidExtension(leaf, credential.aaguid);
+
+  return {
+    attestationType: 'Basic',
+    trusted: await verifyCertificateChain(certificates, getAttestationRootCertificates('packed', credential.aaguid))
+  };
+}
+
+async function verifyFidoU2F(
+  attStmt: Record<string, unknown>,
+  authData: Uint8Array,
+  clientDataHash: Uint8Array,
+  credential: DevicePublicKey
+): Promise<Pick<AttestationVerificationResult, 'attestationType' | 'trusted'>> {
+  const certificates = parseCertificates(attStmt.x5c);
+  if (certificates.length !== 1) {
+    throw new Error('fido-u2f attestation은 인증서 1개만 허용됩니다');
+  }
+  if (credential.aaguid !== ZERO_AAGUID) {
+    throw new Error('fido-u2f 인증기의 AAGUID는 0이어야 합니다');
+  }
+
+  // verificationData = 0x00 || rpIdHash || clientDataHash || credentialId || 0x04 || x || y
+  const verificationData = concatBytes(
+    new Uint8Array([0x00]),
+    authData.slice(0, 32),
+    clientDataHash,
+    base64url.toBuffer(credential.credentialId),
+    new Uint8Array([0x04]),
+    Buffer.from(credential.x.slice(2), 'hex'),
+    Buffer.from(credential.y.slice(2), 'hex')
+  );
+  const sig = new Uint8Array(attStmt.sig as Uint8Array);
+  if (!(await verifySignature(COSE_ALG.ES256, certificates[0], sig, verificationData))) {
+    throw new Error('fido-u2f attestation 서명이 올바르지 않습니다');
+  }
+
+  return {
+    attestationType: 'Basic',
+    trusted: await verifyCertificateChain(certificates, getAttestationRootCertificates('fido-u2f', credential.aaguid))
+  };
+}
+
+/**
+ * DER TLV 하나 읽기 (tag 확인, short / long form 길이)
+ */
+function readDerElement(data: Uint8Array, offset: number, tag: number): { value: Uint8Array; next: number } {
+  if (offset + 2 > data.length || data[offset] !== tag) {
+    throw new Error(`DER tag가 올바르지 않습니다 (0x${tag.toString(16)} 예상)`);
+  }
+  let length = data[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 2) {
+      throw new Error('DER 길이 형식이 올바르지 않습니다');
+    }
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = (length << 8) | data[start + i];
+    }
+    start += lengthBytes;
+  }
+  if (start + length > data.length) {
+    throw new Error('DER 길이가 데이터보다 깁니다');
+  }
+  return { value: data.slice(start, start + length), next: start + length };
+}
+
+/**
+ * Apple nonce 확장 값: SEQUENCE { [1] EXPLICIT { OCTET STRING nonce } }
+ */
+function parseAppleNonceExtension(value: Uint8Array): Uint8Array {
+  const sequence = readDerElement(value, 0, 0x30);
+  const tagged = readDerElement(sequence.value, 0, 0xa1);
+  const nonce = readDerElement(tagged.value, 0, 0x04);
+  if (sequence.next !== value.length || tagged.next !== sequence.value.length || nonce.next !== tagged.value.length) {
+    throw new Error('apple attestation nonce 확장 뒤에 불필요한 데이터가 있습니다');
+  }
+  if (nonce.value.length !== 32) {
+    throw new Error('apple attestation nonce 길이가 올바르지 않습니다');
+  }
+  return nonce.value;
+}
+
+async function verifyApple(
+  attStmt: Record<string, unknown>,
+  authData: Uint8Array,
+  clientDataHash: Uint8Array,
+  credential: DevicePublicKey
+): Promise<Pick<AttestationVerificationResult, 'attestationType' | 'trusted'>> {
+  const certificates = parseCertificates(attStmt.x5c);
+  const [leaf] = certificates;
+
+  // nonce = SHA-256(authData || clientDataHash)가 인증서 확장에 포함되어야 함
+  const nonce = await digest('SHA-256', concatBytes(authData, clientDataHash));
+  const extension = leaf.getExtension(OID_APPLE_NONCE);
+  if (!extension) {
+    throw new Error('apple attestation 인증서에 nonce 확장이 없습니다');
+  }
+  const extensionNonce = parseAppleNonceExtension(new Uint8Array(extension.value));
+  if (!bytesEqual(extensionNonce, nonce)) {
+    throw new Error('apple attestation nonce가 일치하지 않습니다');
+  }
+
+  // 인증서 공개키와 자격증명 공개키가 같아야 함
+  const certificateKey = await crypto.subtle.exportKey(
+    'raw',
+    await leaf.publicKey.export({ name: 'ECDSA', namedCurve: 'P-256' }, ['verify'])
+  );
+  const credentialKey = concatBytes(
+    new Uint8Array([0x04]),
+    Buffer.from(credential.x.slice(2), 'hex'),
+    Buffer.from(credential.y.slice(2), 'hex')
+  );
+  if (!bytesEqual(new Uint8Array(certificateKey), credentialKey)) {
+    throw new Error('apple attestation 인증서 공개키가 자격증명 키와 일치하지 않습니다');
+  }
+
+  return {
+    attestationType: 'AnonCA',
+    trusted: await verifyCertificateChain(certificates, getAttestationRootCertificates('apple', credential.aaguid))
+  };
+}
+
+/**
+ * TPM 구조체 순차 읽기 (big-endian)
+ */
+class TpmReader {
+  private offset = 0;
+  constructor(private readonly data: Uint8Array) {}
+
+  u8(): number {
+    return this.data[this.offset++];
+  }
+
+  u16(): number {
+    const value = (this.data[this.offset] << 8) | this.data[this.offset + 1];
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    return (this.u16() * 0x10000) + this.u16();
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new Error('TPM 구조체 길이가 올바르지 않습니다');
+    }
+    const value = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  sized(): Uint8Array {
+    return this.bytes(this.u16());
+  }
+
+  end() {
+    if (this.offset !== this.data.length) {
+      throw new Error('TPM 구조체 뒤에 불필요한 데이터가 있습니다');
+    }
+  }
+}
+
+async function verifyTpm(
+  attStmt: Record<string, unknown>,
+  authData: Uint8Array,
+  clientDataHash: Uint8Array,
+  credential: DevicePublicKey
+): Promise<Pick<AttestationVerificationResult, 'attestationType' | 'trusted'>> {
+  if (attStmt.ver !== '2.0') {
+    throw new Error('TPM 버전 2.0만 지원합니다');
+  }
+  const alg = attStmt.alg as number;
+  const pubArea = new Uint8Array(attStmt.pubArea as Uint8Array);
+  const certInfo = new Uint8Array(attStmt.certInfo as Uint8Array);
+
+  // 1. pubArea (TPMT_PUBLIC)의 키가 자격증명 키와 같은지 확인
+  const pub = new TpmReader(pubArea);
+  const type = pub.u16();
+  const nameAlg = pub.u16();
+  pub.u32(); // objectAttributes
+  pub.sized(); // authPolicy
+  if (type !== TPM_ALG_ECC) {
+    throw new Error('TPM pubArea가 ECC 키가 아닙니다');
+  }
+  // TPMS_ECC_PARMS: NULL이 아닌 알고리즘 뒤에는 세부 필드가 따라옴
+  if (pub.u16() !== TPM_ALG_NULL) {
+    pub.u16(); // symmetric keyBits
+    pub.u16(); // symmetric mode
+  }
+  if (pub.u16() !== TPM_ALG_NULL) {
+    pub.u16(); // scheme hashAlg
+  }
+  const curveId = pub.u16();
+  if (pub.u16() !== TPM_ALG_NULL) {
+    pub.u16(); // kdf hashAlg
+  }
+  const uniqueX = pub.sized();
+  const uniqueY = pub.sized();
+  pub.end();
+  if (
+    curveId !== TPM_ECC_NIST_P256 ||
+    Buffer.from(uniqueX).toString('hex') !== credential.x.slice(2) ||
+    Buffer.from(uniqueY).toString('hex') !== credential.y.slice(2)
+  ) {
+    throw new Error('TPM pubArea 공개키가 자격증명 키와 일치하지 않습니다');
+  }
+
+  // 2. certInfo (TPMS_ATTEST) 검증
+  const info = new TpmReader(certInfo);
+  if (info.u32() !== TPM_GENERATED_VALUE) {
+    throw new Error('TPM certInfo magic 값이 올바르지 않습니다');
+  }
+  if (info.u16() !== TPM_ST_ATTEST_CERTIFY) {
+    throw new Error('TPM certInfo type이 올바르지 않습니다');
+  }
+  info.sized(); // qualifiedSigner
+  const extraData = info.sized();
+  info.bytes(17); // clockInfo
+  info.bytes(8); // firmwareVersion
+  const attestedName = info.sized();
+
+  const { hash } = getVerifyParams(alg);
+  const expectedExtraData = await digest(hash, concatBytes(authData, clientDataHash));
+  if (!bytesEqual(extraData, expectedExtraData)) {
+    throw new Error('TPM certInfo extraData가 일치하지 않습니다');
+  }
+  const nameHash = TPM_ALG_HASH[nameAlg];
+  if (!nameHash) {
+    throw new Error(`지원하지 않는 TPM nameAlg입니다 (${nameAlg})`);
+  }
+  const expectedName = concatBytes(
+    new Uint8Array([nameAlg >> 8, nameAlg & 0xff]),
+    await digest(nameHash, pubArea)
+  );
+  if (!bytesEqual(attestedName, expectedName)) {
+    throw new Error('TPM certInfo attested name이 pubArea와 일치하지 않습니다');
+  }
+
+  // 3. AIK 인증서 검증 및 certInfo 서명 확인
+  const certificates = parseCertificates(attStmt.x5c);
+  const [aik] = certificates;
+  const sig = new Uint8Array(attStmt.sig as Uint8Array);
+  if (!(await verifySignature(alg, aik, sig, certInfo))) {
+    throw new Error('TPM attestation 서명이 올바르지 않습니다');
+  }
+  if (aik.subject !== '') {
+    throw new Error('TPM AIK 인증서의 subject는 비어 있어야 합니다');
+  }
+  if (!aik.getExtension(OID_SUBJECT_ALT_NAME)) {
+    throw new Error('TPM AIK 인증서에 SAN 확장이 없습니다');
+  }
+  const extendedKeyUsage = aik.getExtension(ExtendedKeyUsageExtension);
+  if (!extendedKeyUsage?.usages.includes(OID_TCG_KP_AIK_CERTIFICATE)) {
+    throw new Error('TPM AIK 인증서의 EKU가 올바르지 않습니다');
+  }
+  checkNotCa(aik);
+  checkAaguidExtension(aik, credential.aaguid);
+
+  return {
+    attestationType: 'AttCA',
+    trusted: await verifyCertificateChain(certificates, getAttestationRootCertificates('tpm', credential.aaguid))
+  };
+}
+
+/**
+ * 빌드 설정의 방침 (NEXT_PUBLIC_REJECT_UNTRUSTED_ATTESTATION=true면 reject, 기본은 confirm)
+ */
+export function getUntrustedAttestationPolicy(): UntrustedAttestationPolicy {
+  return process.env.NEXT_PUBLIC_REJECT_UNTRUSTED_ATTESTATION === 'true' ? 'reject' : 'confirm';
+}
+
+/**
+ * 신뢰되지 않은 attestation에 방침 적용 - 거부되거나 사용자가 취소하면 에러
+ */
+export async function enforceAttestationPolicy(
+  result: AttestationVerificationResult,
+  policy: UntrustedAttestationPolicy,
+  confirm: (message: string) => boolean | Promise<boolean>
+): Promise<void> {
+  if (result.trusted) {
+    return;
+  }
+  const description = `${result.authenticatorModel} (${result.fmt}, ${result.attestationType})`;
+  if (policy === 'reject') {
+    throw new Error(`신뢰할 수 있는 루트 인증서로 검증되지 않은 인증기는 등록할 수 없습니다: ${description}`);
+  }
+  const accepted = await confirm(
+    `${description}의 attestation은 번들된 루트 인증서로 검증되지 않았습니다.\n` +
+    '인증기 제조사를 확인할 수 없습니다. 그래도 등록하시겠습니까?'
+  );
+  if (!accepted) {
+    throw new Error('검증되지 않은 인증기 등록이 취소되었습니다');
+  }
+}
+
+/**
+ * 등록 응답의 attestation statement 검증
+ */
+export async function verifyRegistrationAttestation(
+  response: RegistrationResponseJSON
+): Promise<AttestationVerificationResult> {
+  const attestationObject = cborDecode(base64url.toBuffer(response.response.attestationObject));
+  const fmt = attestationObject.fmt as string;
+  const attStmt = (attestationObject.attStmt ?? {}) as Record<string, unknown>;
+  const authData = new Uint8Array(attestationObject.authData);
+  const clientDataHash = await digest('SHA-256', base64url.toBuffer(response.response.clientDataJSON));
+  const credential = extractPublicKeyFromRegistration(response);
+
+  let verified: Pick<AttestationVerificationResult, 'attestationType' | 'trusted'>;
+  switch (fmt) {
+    case 'none':
+      if (Object.keys(attStmt).length !== 0) {
+        throw new Error('none attestation의 attStmt는 비어 있어야 합니다');
+      }
+      verified = { attestationType: 'None', trusted: false };
+      break;
+    case 'packed':
+      verified = await verifyPacked(attStmt, authData, clientDataHash, credential);
+      break;
+    case 'fido-u2f':
+      verified = await verifyFidoU2F(attStmt, authData, clientDataHash, credential);
+      break;
+    case 'apple':
+      verified = await verifyApple(attStmt, authData, clientDataHash, credential);
+      break;
+    case 'tpm':
+      verified = await verifyTpm(attStmt, authData, clientDataHash, credential);
+      break;
+    default:
+      throw new Error(`지원하지 않는 attestation 형식입니다 (${fmt})`);
+  }
+
+  const result: AttestationVerificationResult = {
+    fmt: fmt as AttestationFormat,
+    ...verified,
+    aaguid: credential.aaguid,
+    authenticatorModel: getAuthenticatorModel(credential.aaguid),
+  };
+
+  console.log('📜 Attestation 검증 완료:', result);
+  return result;
+}
@@ -0,0 +1,147 @@
+// Action-bound WebAuthn challenges for AuthDevice7702
+// 아직 컨트랙트가 이 구조체를 해시하지 않으므로 클라이언트 측 바인딩만 제공:
+// SessionDelegate는 proof를 검증할 뿐 challengeHash를 액션 필드로 재계산하지 않음
+import { ethers } from 'ethers';
+import base64url from 'base64url';
+
+/**
+ * 챌린지 기본 유효 시간 (초)
+ */
+export const DEFAULT_CHALLENGE_TTL = 5 * 60;
+
+/**
+ * 모든 액션에 공통으로 포함되는 필드
+ * deadline/nonce는 컨트랙트에서 재사용(replay) 방지에 사용
+ */
+interface ChallengeBase {
+  chainId: bigint;
+  owner: string;    // EOA 주소
+  nonce: bigint;
+  deadline: bigint; // unix timestamp (초)
+}
+
+export interface RegisterDeviceAction extends ChallengeBase {
+  type: 'registerDevice';
+  pubKeyX: bigint;
+  pubKeyY: bigint;
+}
+
+export interface StartSessionAction extends ChallengeBase {
+  type: 'startSession';
+  sessionPubKeyX: bigint;
+  sessionPubKeyY: bigint;
+  ttl: bigint;
+  deviceId: string; // bytes32, SessionDelegate deviceId (sessionDelegateDeviceId)
+}
+
+export interface RevokeSessionAction extends ChallengeBase {
+  type: 'revokeSession';
+}
+
+export interface ExecuteTxAction extends ChallengeBase {
+  type: 'executeTx';
+  txHash: string; // bytes32
+}
+
+export type ChallengeAction =
+  | RegisterDeviceAction
+  | StartSessionAction
+  | RevokeSessionAction
+  | ExecuteTxAction;
+
+/**
+ * 액션별 타입 문자열
+ * 해시는 keccak256(abi.encode(keccak256(TYPE), chainId, owner, nonce, deadline, ...)) - Solidity에서 같은 값으로 계산 가능
+ */
+export const CHALLENGE_TYPES = {
+  registerDevice:
+    'RegisterDevice(uint256 chainId,address owner,uint256 nonce,uint256 deadline,uint256 pubKeyX,uint256 pubKeyY)',
+  startSession:
+    'StartSession(uint256 chainId,address owner,uint256 nonce,uint256 deadline,uint256 sessionPubKeyX,uint256 sessionPubKeyY,uint256 ttl,bytes32 deviceId)',
+  revokeSession:
+    'RevokeSession(uint256 chainId,address owner,uint256 nonce,uint256 deadline)',
+  executeTx:
+    'ExecuteTx(uint256 chainId,address owner,uint256 nonce,uint256 deadline,bytes32 txHash)',
+} as const;
+
+/**
+ * SessionDelegate가 쓰는 기기 ID = keccak256(abi.encodePacked(pubKeyX, pubKeyY))
+ * (credential ID 기반 generateDeviceId는 로컬 목록용이라 컨트랙트와 다름)
+ */
+export function sessionDelegateDeviceId(pubKeyX: ethers.BigNumberish, pubKeyY: ethers.BigNumberish): string {
+  return ethers.solidityPackedKeccak256(['uint256', 'uint256'], [pubKeyX, pubKeyY]);
+}
+
+function encodeActionFields(action: ChallengeAction): { types: string[]; values: unknown[] } {
+  switch (action.type) {
+    case 'registerDevice':
+      return {
+        types: ['uint256', 'uint256'],
+        values: [action.pubKeyX, action.pubKeyY],
+      };
+    case 'startSession':
+      return {
+        types: ['uint256', 'uint256', 'uint256', 'bytes32'],
+        values: [action.sessionPubKeyX, action.sessionPubKeyY, action.ttl, action.deviceId],
+      };
+    case 'revokeSession':
+      return { types: [], values: [] };
+    case 'executeTx':
+      return { types: ['bytes32'], values: [action.txHash] };
+  }
+}
+
+/**
+ * 액션으로부터 32바이트 챌린지 해시 계산
+ */
+export function hashChallengeAction(action: ChallengeAction): string {
+  const fields = encodeActionFields(action);
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+    ['bytes32', 'uint256', 'address', 'uint256', 'uint256', ...fields.types],
+    [
+      ethers.id(CHALLENGE_TYPES[action.type]),
+      action.chainId,
+      action.owner,
+      action.nonce,
+      action.deadline,
+      ...fields.values,
+    ]
+  );
+  return ethers.keccak256(encoded);
+}
+
+/**
+ * 챌린지 해시를 clientDataJSON에 들어가는 base64url 문자열로 변환
+ * 32바이트 → 43자 (Noir 회로의 challenge: [u8; 43], client_data_json[36..]과 비교)
+ */
+export function challengeToBase64url(challengeHash: string): string {
+  return base64url.encode(Buffer.from(ethers.getBytes(challengeHash)));
+}
+
+/**
+ * WebAuthn 옵션에 사용할 액션 바인딩 챌린지 생성
+ */
+export function buildActionChallenge(action: ChallengeAction): {
+  hash: string;
+  challenge: string;
+} {
+  if (action.deadline <= BigInt(Math.floor(Date.now() / 1000))) {
+    throw new Error('챌린지 유효 기간(deadline)이 이미 지났습니다');
+  }
+  const hash = hashChallengeAction(action);
+  return { hash, challenge: challengeToBase64url(hash) };
+}
+
+/**
+ * 기본 deadline 계산 (현재 시각 + ttl)
+ */
+export function challengeDeadline(ttlSeconds: number = DEFAULT_CHALLENGE_TTL): bigint {
+  return BigInt(Math.floor(Date.now() / 1000) + ttlSeconds);
+}
+
+/**
+ * 무작위 챌린지 nonce 생성
+ */
+export function newChallengeNonce(): bigint {
+  return BigInt(ethers.hexlify(ethers.randomBytes(16)));
+}
@@ -0,0 +1,216 @@
+// noir-webauthn circuit input builder (main.nr / blobs.nr layout)
+// Shared by zkProofs.ts and the noir-webauthn/prover scripts
+import type { InputMap } from '@noir-lang/noir_js';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/types';
+import base64url from 'base64url';
+import { ethers } from 'ethers';
+import {
+  CLIENT_DATA_JSON_MAX_LEN,
+  parseClientDataJSON,
+  toNoirClientData
+} from './clientData';
+import { computeIdentity, IDENTITY_LEN, isValidIdentity } from './identity';
+import { derToRawSignature } from './webauthn';
+
+/**
+ * main.nr 고정 파라미터
+ */
+export const CIRCUIT_VERSION = 1;
+export const CIRCUIT_BLOBS_LEN = 2800;
+
+/**
+ * WebAuthn blob 크기 (blobs.nr parse_webauthn_cairo_blob)
+ * 각 필드는 [길이 1바이트 | 값] 형태, client_data_json은 [실제 길이 | 255 | 255바이트 padding]
+ */
+export const WEBAUTHN_BLOB_LEN = 470;
+const AUTHENTICATOR_DATA_LEN = 37;
+const CHALLENGE_LEN = 43;
+const SIGNATURE_LEN = 64;
+const COORDINATE_LEN = 32;
+
+export interface WebAuthnCircuitData {
+  authenticatorData: string; // 0x hex
+  clientDataJSON: string;    // 0x hex (raw JSON 바이트)
+  signature: string;         // 0x hex, raw r || s (64바이트, low-s)
+  pubKeyX: string;           // 0x hex 32바이트
+  pubKeyY: string;           // 0x hex 32바이트
+}
+
+export interface CircuitInputOptions {
+  /** 기대하는 identity - 공개키에서 계산한 값과 다르면 에러 */
+  identity?: string;
+}
+
+function lengthPrefixed(bytes: Uint8Array, expectedLength: number, name: string): number[] {
+  if (bytes.length !== expectedLength) {
+    throw new Error(`${name} 길이가 ${expectedLength}바이트가 아닙니다 (${bytes.length})`);
+  }
+  return [expectedLength, ...bytes];
+}
+
+/**
+ * 회로가 증명할 수 있는 authenticatorData인지 (rpIdHash + flags + signCount, 37바이트)
+ * 확장 데이터(ED)나 attested credential data가 포함되면 37바이트를 넘음 -
+ * 보안키는 PRF(hmac-secret) 요청 시 ED 플래그와 확장 데이터를 붙여 응답함
+ */
+export function isCircuitAuthenticatorData(authenticatorData: Uint8Array): boolean {
+  return authenticatorData.length === AUTHENTICATOR_DATA_LEN;
+}
+
+/**
+ * 470바이트 WebAuthn blob 생성
+ */
+export function encodeWebAuthnBlob(data: WebAuthnCircuitData): number[] {
+  const authenticatorData = ethers.getBytes(data.authenticatorData);
+  if (!isCircuitAuthenticatorData(authenticatorData)) {
+    throw new Error(`회로는 37바이트 authenticatorData만 지원합니다 (${authenticatorData.length}바이트)`);
+  }
+
+  const clientDataBytes = ethers.getBytes(data.clientDataJSON);
+  if (clientDataBytes.length > CLIENT_DATA_JSON_MAX_LEN) {
+    throw new Error(`clientDataJSON이 회로 최대 길이를 초과합니다 (${clientDataBytes.length} > ${CLIENT_DATA_JSON_MAX_LEN})`);
+  }
+  const clientData = parseClientDataJSON(clientDataBytes);
+  const { client_data_json_len, client_data_json } = toNoirClientData(clientData);
+  const challenge = new TextEncoder().encode(clientData.challenge);
+
+  const blob = [
+    ...lengthPrefixed(authenticatorData, AUTHENTICATOR_DATA_LEN, 'authenticatorData'),
+    client_data_json_len,
+    client_data_json.length,
+    ...client_data_json,
+    ...lengthPrefixed(challenge, CHALLENGE_LEN, 'challenge'),
+    ...lengthPrefixed(ethers.getBytes(data.signature), SIGNATURE_LEN, 'signature'),
+    ...lengthPrefixed(ethers.getBytes(data.pubKeyX), COORDINATE_LEN, 'pubKeyX'),
+    ...lengthPrefixed(ethers.getBytes(data.pubKeyY), COORDINATE_LEN, 'pubKeyY'),
+  ];
+  if (blob.length !== WEBAUTHN_BLOB_LEN) {
+    throw new Error(`WebAuthn blob 길이가 올바르지 않습니다 (${blob.length})`);
+  }
+  return blob;
+}
+
+/**
+ * main.nr 입력 전체 생성
+ * blobs = [blob 개수, 470, ...webauthn blob, 0 padding...] (parse_cairo_blobs, index 0)
+ */
+export function buildWebAuthnCircuitInputs(
+  data: WebAuthnCircuitData,
+  options: CircuitInputOptions = {}
+): InputMap {
+  const identity = computeIdentity(data.pubKeyX, data.pubKeyY);
+  if (options.identity !== undefined && options.identity.toLowerCase() !== identity) {
+    throw new Error(`identity가 공개키와 일치하지 않습니다 (기대값 ${options.identity}, 계산값 ${identity})`);
+  }
+
+  const blobs = new Array<number>(CIRCUIT_BLOBS_LEN).fill(0);
+  [1, WEBAUTHN_BLOB_LEN, ...encodeWebAuthnBlob(data)].forEach((value, i) => { blobs[i] = value; });
+
+  const inputs: InputMap = {
+    version: CIRCUIT_VERSION,
+    initial_state_len: 4,
+    initial_state: [0, 0, 0, 0],
+    next_state_len: 4,
+    next_state: [0, 0, 0, 0],
+    identity_len: identity.length,
+    identity,
+    tx_hash_len: 0,
+    tx_hash: [],
+    index: 0,
+    blobs_len: CIRCUIT_BLOBS_LEN,
+    blobs,
+    success: true,
+  };
+  validateCircuitInputs(inputs);
+  return inputs;
+}
+
+/**
+ * WebAuthn assertion 응답 + 디바이스 공개키로 회로 입력 생성 (DER 서명은 low-s raw로 변환)
+ */
+export function buildCircuitInputsFromAssertion(
+  response: Pick<AuthenticationResponseJSON['response'], 'authenticatorData' | 'clientDataJSON' | 'signature'>,
+  publicKey: { x: string; y: string },
+  options: CircuitInputOptions = {}
+): InputMap {
+  const { signature } = derToRawSignature(new Uint8Array(base64url.toBuffer(response.signature)));
+  return buildWebAuthnCircuitInputs({
+    authenticatorData: ethers.hexlify(base64url.toBuffer(response.authenticatorData)),
+    clientDataJSON: ethers.hexlify(base64url.toBuffer(response.clientDataJSON)),
+    signature,
+    pubKeyX: publicKey.x,
+    pubKeyY: publicKey.y,
+  }, options);
+}
+
+/**
+ * main.nr의 assert 조건을 proving 전에 확인 (회로 실행 실패보다 원인 파악이 쉬움)
+ */
+export function validateCircuitInputs(inputs: InputMap) {
+  const { identity, identity_len, blobs, blobs_len, tx_hash_len, version, index } = inputs;
+  if (version !== CIRCUIT_VERSION) {
+    throw new Error(`지원하지 않는 회로 버전입니다: ${String(version)}`);
+  }
+  if (typeof identity !== 'string' || identity.length !== IDENTITY_LEN || identity_len !== IDENTITY_LEN) {
+    throw new Error(`identity는 ${IDENTITY_LEN}자여야 합니다`);
+  }
+  if (!isValidIdentity(identity)) {
+    throw new Error(`identity 형식이 올바르지 않습니다: ${identity}`);
+  }
+  if (!Array.isArray(blobs) || blobs.length !== CIRCUIT_BLOBS_LEN || Number(blobs_len) > CIRCUIT_BLOBS_LEN) {
+    throw new Error(`blobs는 ${CIRCUIT_BLOBS_LEN}개의 Field여야 합니다`);
+  }
+  if (Number(blobs[1]) !== WEBAUTHN_BLOB_LEN) {
+    throw new Error(`첫 번째 blob은 ${WEBAUTHN_BLOB_LEN}바이트 WebAuthn blob이어야 합니다`);
+  }
+  if (tx_hash_len !== 0 || index !== 0) {
+    throw new Error('회로는 tx_hash_len = 0, index = 0만 지원합니다');
+  }
+}
+
+/**
+ * main.nr 공개 입력 (proof.publicInputs, 필드당 32바이트 hex)
+ * version, initial_state_len, initial_state[4], next_state_len, next_state[4], identity_len,
+ * identity[56], tx_hash_len, tx_hash[0], index, blobs_len, blobs[2800], success 순서
+ */
+const PUBLIC_IDENTITY_OFFSET = 12;
+const PUBLIC_BLOBS_OFFSET = PUBLIC_IDENTITY_OFFSET + IDENTITY_LEN + 3;
+export const PUBLIC_INPUTS_LEN = PUBLIC_BLOBS_OFFSET + CIRCUIT_BLOBS_LEN + 1;
+
+// blobs 내 위치: [blob 개수, 470, 37, authData, cdj 길이, 255, cdj, 43, challenge, 64, sig, 32, x, 32, y]
+const BLOB_CHALLENGE_OFFSET = 2 + 1 + AUTHENTICATOR_DATA_LEN + 2 + CLIENT_DATA_JSON_MAX_LEN + 1;
+const BLOB_PUB_KEY_X_OFFSET = BLOB_CHALLENGE_OFFSET + CHALLENGE_LEN + 1 + SIGNATURE_LEN + 1;
+const BLOB_PUB_KEY_Y_OFFSET = BLOB_PUB_KEY_X_OFFSET + COORDINATE_LEN + 1;
+
+export interface DecodedPublicInputs {
+  version: number;
+  identity: string;
+  challenge: string; // base64url (clientDataJSON.challenge)
+  pubKeyX: string;   // 0x hex 32바이트
+  pubKeyY: string;   // 0x hex 32바이트
+  blobsLen: number;
+  success: boolean;
+}
+
+/**
+ * proof의 공개 입력을 회로 입력 형태로 복원
+ */
+export function decodePublicInputs(publicInputs: string[]): DecodedPublicInputs {
+  if (publicInputs.length !== PUBLIC_INPUTS_LEN) {
+    throw new Error(`공개 입력 개수가 올바르지 않습니다 (${publicInputs.length} != ${PUBLIC_INPUTS_LEN})`);
+  }
+  const field = (i: number) => Number(BigInt(publicInputs[i]));
+  const bytesAt = (offset: number, length: number) =>
+    Array.from({ length }, (_, i) => field(offset + i));
+
+  const blobs = (i: number) => PUBLIC_BLOBS_OFFSET + i;
+  return {
+    version: field(0),
+    identity: String.fromCharCode(...bytesAt(PUBLIC_IDENTITY_OFFSET, IDENTITY_LEN)),
+    challenge: String.fromCharCode(...bytesAt(blobs(BLOB_CHALLENGE_OFFSET), CHALLENGE_LEN)),
+    pubKeyX: ethers.hexlify(new Uint8Array(bytesAt(blobs(BLOB_PUB_KEY_X_OFFSET), COORDINATE_LEN))),
+    pubKeyY: ethers.hexlify(new Uint8Array(bytesAt(blobs(BLOB_PUB_KEY_Y_OFFSET), COORDINATE_LEN))),
+    blobsLen: field(PUBLIC_BLOBS_OFFSET - 1),
+    success: field(PUBLIC_INPUTS_LEN - 1) === 1,
+  };
+}
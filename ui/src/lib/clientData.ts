@@ -0,0 +1,168 @@
+// clientDataJSON parsing, verification and contract/circuit encoding
+import base64url from 'base64url';
+
+/**
+ * Noir 회로의 client_data_json 고정 길이 (blobs.nr CLIENT_DATA_JSON_LEN)
+ */
+export const CLIENT_DATA_JSON_MAX_LEN = 255;
+
+/**
+ * prefix_sha256_hash가 지원하는 clientDataJSON 길이 (utils.nr)
+ */
+export const NOIR_CLIENT_DATA_JSON_LENGTHS = [113, 114, 133, 134, 242, 243] as const;
+
+/**
+ * 회로는 challenge가 client_data_json[36..36+43]에 있다고 가정
+ * ({"type":"webauthn.get","challenge":" 가 정확히 36바이트)
+ */
+export const NOIR_CHALLENGE_OFFSET = 36;
+export const NOIR_CHALLENGE_LEN = 43;
+
+export type ClientDataType = 'webauthn.get' | 'webauthn.create';
+
+export interface ParsedClientData {
+  type: ClientDataType;
+  challenge: string; // base64url
+  origin: string;
+  crossOrigin: boolean;
+  topOrigin?: string;
+  bytes: Uint8Array;
+  /** "type": 키 시작 위치 (WebAuthn.sol 계열 typeIndex와 동일) */
+  typeOffset: number;
+  /** challenge 값 시작 위치 (WebAuthn256r1.generateMessage의 clientChallengeOffset) */
+  challengeOffset: number;
+}
+
+export interface ClientDataExpectations {
+  type: ClientDataType;
+  challenge: string; // base64url
+  origin?: string | string[];
+  allowCrossOrigin?: boolean;
+}
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array): number {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * clientDataJSON 파싱 (base64url 문자열 또는 raw 바이트)
+ * 오프셋은 UTF-8 바이트 기준이며 해당 위치의 바이트가 파싱된 값과 일치하는지 확인
+ */
+export function parseClientDataJSON(clientDataJSON: string | Uint8Array): ParsedClientData {
+  const bytes = typeof clientDataJSON === 'string'
+    ? new Uint8Array(base64url.toBuffer(clientDataJSON))
+    : clientDataJSON;
+
+  let json: Record<string, unknown>;
+  try {
+    json = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('clientDataJSON이 올바른 JSON이 아닙니다');
+  }
+
+  const { type, challenge, origin, crossOrigin, topOrigin } = json;
+  if (type !== 'webauthn.get' && type !== 'webauthn.create') {
+    throw new Error(`지원하지 않는 clientData type: ${String(type)}`);
+  }
+  if (typeof challenge !== 'string' || !/^[A-Za-z0-9_-]+$/.test(challenge)) {
+    throw new Error('clientData challenge가 base64url 문자열이 아닙니다');
+  }
+  if (typeof origin !== 'string') {
+    throw new Error('clientData origin이 없습니다');
+  }
+  if (crossOrigin !== undefined && typeof crossOrigin !== 'boolean') {
+    throw new Error('clientData crossOrigin이 boolean이 아닙니다');
+  }
+
+  const encoder = new TextEncoder();
+  const typeOffset = indexOfBytes(bytes, encoder.encode(`"type":"${type}"`));
+  const challengeKey = encoder.encode('"challenge":"');
+  const challengeKeyOffset = indexOfBytes(bytes, challengeKey);
+  if (typeOffset === -1 || challengeKeyOffset === -1) {
+    // 브라우저는 공백 없이 직렬화하므로 키를 찾지 못하면 비표준 clientDataJSON
+    throw new Error('clientDataJSON에서 type/challenge 위치를 찾을 수 없습니다');
+  }
+  const challengeOffset = challengeKeyOffset + challengeKey.length;
+  const challengeBytes = bytes.slice(challengeOffset, challengeOffset + challenge.length);
+  if (new TextDecoder().decode(challengeBytes) !== challenge) {
+    throw new Error('clientDataJSON challenge 오프셋이 파싱된 값과 일치하지 않습니다');
+  }
+
+  return {
+    type,
+    challenge,
+    origin,
+    crossOrigin: crossOrigin === true,
+    topOrigin: typeof topOrigin === 'string' ? topOrigin : undefined,
+    bytes,
+    typeOffset,
+    challengeOffset,
+  };
+}
+
+/**
+ * clientData 검증 (WebAuthn §7.1 step 7-9, §7.2 step 11-13)
+ */
+export function verifyClientData(parsed: ParsedClientData, expected: ClientDataExpectations) {
+  if (parsed.type !== expected.type) {
+    throw new Error(`clientData type 불일치: ${parsed.type} (기대값 ${expected.type})`);
+  }
+  if (parsed.challenge !== expected.challenge) {
+    throw new Error('clientData challenge가 요청한 챌린지와 일치하지 않습니다');
+  }
+  if (expected.origin !== undefined) {
+    const origins = Array.isArray(expected.origin) ? expected.origin : [expected.origin];
+    if (!origins.includes(parsed.origin)) {
+      throw new Error(`허용되지 않은 origin: ${parsed.origin}`);
+    }
+  }
+  if (parsed.crossOrigin && !expected.allowCrossOrigin) {
+    throw new Error('cross-origin iframe에서 생성된 응답은 허용되지 않습니다');
+  }
+}
+
+/**
+ * Noir 회로 입력 형태로 변환: 255바이트 zero-padding 배열 + 실제 길이
+ */
+export function toNoirClientData(parsed: ParsedClientData): {
+  client_data_json_len: number;
+  client_data_json: number[];
+} {
+  const length = parsed.bytes.length;
+  if (length > CLIENT_DATA_JSON_MAX_LEN) {
+    throw new Error(`clientDataJSON이 너무 깁니다 (${length} > ${CLIENT_DATA_JSON_MAX_LEN})`);
+  }
+  if (!(NOIR_CLIENT_DATA_JSON_LENGTHS as readonly number[]).includes(length)) {
+    throw new Error(`회로가 지원하지 않는 clientDataJSON 길이입니다: ${length}`);
+  }
+  if (parsed.challengeOffset !== NOIR_CHALLENGE_OFFSET || parsed.challenge.length !== NOIR_CHALLENGE_LEN) {
+    throw new Error('회로는 32바이트 challenge가 client_data_json[36..]에 있어야 합니다');
+  }
+
+  const padded = new Array<number>(CLIENT_DATA_JSON_MAX_LEN).fill(0);
+  parsed.bytes.forEach((byte, i) => { padded[i] = byte; });
+  return { client_data_json_len: length, client_data_json: padded };
+}
+
+/**
+ * WebAuthn256r1.verify / WebAuthnAccount 서명 인코딩에 필요한 clientData 필드
+ */
+export function toContractClientData(parsed: ParsedClientData): {
+  clientData: string;
+  clientChallenge: string;
+  clientChallengeOffset: number;
+  typeOffset: number;
+} {
+  return {
+    clientData: '0x' + Buffer.from(parsed.bytes).toString('hex'),
+    clientChallenge: '0x' + base64url.toBuffer(parsed.challenge).toString('hex'),
+    clientChallengeOffset: parsed.challengeOffset,
+    typeOffset: parsed.typeOffset,
+  };
+}
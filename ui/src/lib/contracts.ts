@@ -14,6 +14,13 @@ export const CONTRACT_ADDRESSES = {
   MOCK_ERC721: '0x7890123456789012345678901234567890123456',
 } as const;
 
+// EIP-7702 delegate로 쓰는 컨트랙트 (delegation inspector가 EOA code의 delegate 주소 식별에 사용)
+export const KNOWN_DELEGATES = [
+  { name: 'SessionDelegate', address: CONTRACT_ADDRESSES.SESSION_DELEGATE },
+  { name: 'DeviceManager', address: CONTRACT_ADDRESSES.DEVICE_MANAGER },
+  { name: 'WebAuthnAccount', address: CONTRACT_ADDRESSES.WEBAUTHN_ACCOUNT },
+] as const;
+
 // 간단한 ABI들 (실제 배포된 컨트랙트에서 가져와야 함)
 export const DEVICE_MANAGER_ABI = [
   // Device 관련 함수들
@@ -29,15 +36,19 @@ export const DEVICE_MANAGER_ABI = [
 ] as const;
 
 export const SESSION_DELEGATE_ABI = [
-  // Session 관련 함수들
-  'function createSession(address sessionKey, uint256 expiresAt, bytes4[] calldata allowedSelectors) external',
-  'function revokeSession(address sessionKey) external',
-  'function isSessionActive(address user, address sessionKey) external view returns (bool)',
-  'function getSessionInfo(address user, address sessionKey) external view returns (uint256 expiresAt, bool isActive)',
+  // Device / Session 관련 함수들 (publicInputs = [challengeHash, pubKeyX, pubKeyY])
+  'function registerDevice(bytes proof, uint256[] publicInputs, string deviceName) external',
+  'function startSession(bytes proof, uint256[] publicInputs, bytes walletSig, uint256 sessionPubKeyX, uint256 sessionPubKeyY, uint256 ttl, bytes32 encryptedSessionKey) external',
+  'function execute(bytes data, uint256 r, uint256 s, uint8 v, bytes hardwareProof, uint256[] hardwarePublicInputs) external',
+  'function revokeSession() external',
+  'function getSessionInfo(address owner) external view returns (bool isActive, uint256 expiresAt, uint256 timeRemaining, uint256 sessionPubKeyX, uint256 sessionPubKeyY, bytes32 deviceId, bytes32 encryptedSessionKey)',
+  'function getOwnerDevices(address owner) external view returns (bytes32[])',
+  'function devices(address owner, bytes32 deviceId) external view returns (uint256 pubKeyX, uint256 pubKeyY, bool isRegistered, uint256 registeredAt, string deviceName)',
   
   // Events
-  'event SessionCreated(address indexed user, address indexed sessionKey, uint256 expiresAt)',
-  'event SessionRevoked(address indexed user, address indexed sessionKey)',
+  'event DeviceRegistered(address indexed owner, bytes32 indexed deviceId, uint256 pubKeyX, uint256 pubKeyY, string deviceName)',
+  'event SessionStarted(address indexed owner, uint256 sessionPubKeyX, uint256 sessionPubKeyY, uint256 expires, bytes32 deviceId)',
+  'event SessionRevoked(address indexed owner)',
 ] as const;
 
 export const WEBAUTHN_ACCOUNT_ABI = [
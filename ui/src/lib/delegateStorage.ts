@@ -0,0 +1,221 @@
+// Storage a delegate leaves in a smart EOA (EIP-7702 never clears it) and layout gates for re-delegation
+import { ethers } from 'ethers';
+import type { PublicClient } from 'viem';
+import { inspectDelegation, loadDelegationHistory, type DelegateKind } from './delegationInspector';
+import {
+  compareStorageLayouts,
+  formatStorageCollision,
+  type DelegateStorageLayouts
+} from './storageLayout';
+
+/**
+ * SessionDelegate 상태 변수 slot (contracts/src/SessionDelegate.sol 선언 순서, verifier는 immutable)
+ */
+export const SESSION_DELEGATE_STORAGE_SLOTS = {
+  sessions: 0,     // mapping(address => Session)
+  devices: 1,      // mapping(address => mapping(bytes32 => Device))
+  ownerDevices: 2  // mapping(address => bytes32[])
+} as const;
+
+/**
+ * 어느 delegate였는지 모를 때 값이 남았는지 확인하는 선두 slot 수 (mapping이 아닌 상태 변수 자리)
+ */
+const PLAIN_STORAGE_PROBE_SLOTS = 4;
+
+// Session 구조체 내 필드 offset
+const SESSION_EXPIRES_OFFSET = 3;
+const SESSION_IS_ACTIVE_OFFSET = 4;
+
+export interface RedelegationLayoutCheck {
+  previous: DelegateKind[];  // 이 계정이 써온 delegate (현재 + 기록된 set-code 트랜잭션 + 남은 storage)
+  missing: DelegateKind[];   // 레이아웃이 없어 비교하지 못한 delegate
+  conflicts: string[];       // type-conflict / overlap / 레이아웃 없음 - re-delegation 차단
+  warnings: string[];        // renamed
+}
+
+export interface SessionDelegateStorage {
+  deviceIds: string[];     // ownerDevices[owner]
+  session: {
+    expires: bigint;
+    isActive: boolean;
+  } | null;
+}
+
+/**
+ * mapping(key => ...) 의 slot = keccak256(abi.encode(key, slot))
+ */
+export function mappingSlot(key: string, slot: ethers.BigNumberish): bigint {
+  return ethers.toBigInt(ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(['address', 'uint256'], [key, slot])
+  ));
+}
+
+/**
+ * 동적 배열 원소 시작 slot = keccak256(length slot)
+ */
+export function arrayDataSlot(lengthSlot: bigint): bigint {
+  return ethers.toBigInt(ethers.keccak256(ethers.toBeHex(lengthSlot, 32)));
+}
+
+async function readSlot(publicClient: PublicClient, account: string, slot: bigint): Promise<bigint> {
+  const value = await publicClient.getStorageAt({
+    address: account as `0x${string}`,
+    slot: ethers.toBeHex(slot, 32) as `0x${string}`
+  });
+  return value ? ethers.toBigInt(value) : BigInt(0);
+}
+
+/**
+ * EOA storage에 남은 SessionDelegate 데이터 (owner = EOA가 자기 자신을 호출할 때의 msg.sender)
+ * 현재 delegate와 무관하게 eth_getStorageAt으로 읽음
+ */
+export async function readSessionDelegateStorage(
+  publicClient: PublicClient,
+  account: string,
+  maxDevices = 20
+): Promise<SessionDelegateStorage> {
+  const owner = ethers.getAddress(account);
+  const ownerDevicesSlot = mappingSlot(owner, SESSION_DELEGATE_STORAGE_SLOTS.ownerDevices);
+  const sessionSlot = mappingSlot(owner, SESSION_DELEGATE_STORAGE_SLOTS.sessions);
+
+  const [deviceCount, sessionOwner, expires, isActive] = await Promise.all([
+    readSlot(publicClient, owner, ownerDevicesSlot),
+    readSlot(publicClient, owner, sessionSlot),
+    readSlot(publicClient, owner, sessionSlot + BigInt(SESSION_EXPIRES_OFFSET)),
+    readSlot(publicClient, owner, sessionSlot + BigInt(SESSION_IS_ACTIVE_OFFSET))
+  ]);
+
+  const dataSlot = arrayDataSlot(ownerDevicesSlot);
+  const deviceIds = await Promise.all(
+    Array.from({ length: Number(deviceCount < BigInt(maxDevices) ? deviceCount : BigInt(maxDevices)) }, (_, i) =>
+      readSlot(publicClient, owner, dataSlot + BigInt(i)).then(value => ethers.toBeHex(value, 32))
+    )
+  );
+
+  return {
+    deviceIds,
+    session: sessionOwner === BigInt(0) ? null : { expires, isActive: isActive !== BigInt(0) }
+  };
+}
+
+/**
+ * delegation 해제 / 변경 전에 보여줄 경고
+ */
+export async function describeLeftoverStorage(
+  publicClient: PublicClient,
+  account: string,
+  nextDelegateKind: DelegateKind
+): Promise<string[]> {
+  const storage = await readSessionDelegateStorage(publicClient, account);
+  const warnings: string[] = [];
+  const now = BigInt(Math.floor(Date.now() / 1000));
+
+  if (storage.deviceIds.length > 0) {
+    warnings.push(
+      `SessionDelegate devices / ownerDevices에 등록된 기기 ${storage.deviceIds.length}개가 storage에 남습니다. ` +
+      '나중에 SessionDelegate로 다시 delegate하면 그대로 유효합니다.'
+    );
+  }
+  if (storage.session?.isActive && storage.session.expires > now) {
+    warnings.push(
+      `SessionDelegate sessions에 활성 세션이 남습니다 (만료 ${new Date(Number(storage.session.expires) * 1000).toLocaleString()}). ` +
+      '다시 SessionDelegate로 delegate하면 세션 키가 되살아나므로 먼저 revokeSession을 호출하세요.'
+    );
+  }
+  if (warnings.length === 0) {
+    return warnings;
+  }
+
+  if (nextDelegateKind === 'cleared') {
+    warnings.push('delegation을 해제하면 code는 지워지지만 storage는 EIP-7702로 삭제되지 않습니다.');
+  } else if (nextDelegateKind !== 'SessionDelegate') {
+    warnings.push(
+      `새 delegate(${nextDelegateKind})가 slot ${Object.values(SESSION_DELEGATE_STORAGE_SLOTS).join(', ')}을 ` +
+      '다른 용도로 사용하면 남은 값을 잘못 해석할 수 있습니다.'
+    );
+  }
+  return warnings;
+}
+
+/**
+ * SessionDelegate가 기기나 세션을 남겼는지
+ */
+export function hasSessionDelegateStorage(storage: SessionDelegateStorage): boolean {
+  return storage.deviceIds.length > 0 || storage.session !== null;
+}
+
+/**
+ * 선두 slot 중 값이 남은 것이 있는지 (SessionDelegate의 slot 0~2는 mapping이라 항상 0)
+ */
+async function hasPlainStorage(publicClient: PublicClient, account: string): Promise<boolean> {
+  const values = await Promise.all(
+    Array.from({ length: PLAIN_STORAGE_PROBE_SLOTS }, (_, i) => readSlot(publicClient, account, BigInt(i)))
+  );
+  return values.some(value => value !== BigInt(0));
+}
+
+/**
+ * 이 계정이 delegate했던 컨트랙트 - 해제 후에도 storage는 남으므로 현재 delegate뿐 아니라 기록 전체
+ * 기록은 이 브라우저에 저장된 tx hash뿐이므로 온체인 storage로 보완
+ * - SessionDelegate 데이터가 남아 있으면 SessionDelegate
+ * - 그 외 기록이 없는데 선두 slot에 값이 있으면 'unknown' (레이아웃이 없어 다른 delegate로의 변경 차단)
+ */
+export async function previousDelegateKinds(publicClient: PublicClient, account: string): Promise<DelegateKind[]> {
+  const [current, history, sessionDelegateStorage] = await Promise.all([
+    inspectDelegation(publicClient, account),
+    loadDelegationHistory(publicClient, account),
+    readSessionDelegateStorage(publicClient, account)
+  ]);
+  // nonce가 맞지 않아 건너뛴 authorization은 제외, 확인하지 못한 것(null)은 포함
+  const kinds = history.filter(entry => entry.applied !== false).map(entry => entry.delegateKind);
+  if (current.delegateKind) {
+    kinds.push(current.delegateKind);
+  }
+  const known = kinds.filter(kind => kind !== 'cleared' && kind !== 'SessionDelegate');
+  if (hasSessionDelegateStorage(sessionDelegateStorage)) {
+    kinds.push('SessionDelegate');
+  }
+  if (known.length === 0 && await hasPlainStorage(publicClient, account)) {
+    kinds.push('unknown');
+  }
+  return [...new Set(kinds)].filter(kind => kind !== 'cleared');
+}
+
+/**
+ * 이전 delegate들의 storage layout과 다음 delegate를 비교 (EoaMigration의 re-delegation gate)
+ * 0x0 해제는 code만 지우므로 항상 허용, 레이아웃이 없으면(layouts = null 포함) 다른 delegate로의 변경은 차단
+ */
+export function checkRedelegationLayouts(
+  layouts: DelegateStorageLayouts | null,
+  previous: DelegateKind[],
+  nextDelegateKind: DelegateKind
+): RedelegationLayoutCheck {
+  const result: RedelegationLayoutCheck = { previous, missing: [], conflicts: [], warnings: [] };
+  if (nextDelegateKind === 'cleared') {
+    return result;
+  }
+  const others = previous.filter(item => item !== nextDelegateKind);
+  const unverifiable = (kind: DelegateKind) =>
+    `${kind} → ${nextDelegateKind} storage layout이 없어 충돌 여부를 확인할 수 없습니다`;
+
+  const next = layouts?.[nextDelegateKind];
+  if (!next) {
+    result.missing.push(nextDelegateKind);
+    result.conflicts.push(...others.map(unverifiable));
+    return result;
+  }
+
+  for (const kind of others) {
+    const layout = layouts?.[kind];
+    if (!layout) {
+      result.missing.push(kind);
+      result.conflicts.push(unverifiable(kind));
+      continue;
+    }
+    for (const collision of compareStorageLayouts(layout, next)) {
+      const message = `${kind} → ${nextDelegateKind} ${formatStorageCollision(collision)}`;
+      (collision.severity === 'error' ? result.conflicts : result.warnings).push(message);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,220 @@
+// EIP-7702 delegation inspector: current delegate of an EOA and history from past set-code transactions
+import { ethers } from 'ethers';
+import type { PublicClient } from 'viem';
+import { KNOWN_DELEGATES } from './contracts';
+import { ANY_CHAIN_ID, recoverEip7702Authority } from './eip7702';
+import { parseDelegationCode } from './setCodeTransaction';
+
+/**
+ * 표준 RPC로는 주소별 type 4 트랜잭션을 조회할 수 없어 앱이 보낸(또는 사용자가 추가한) tx hash를 기록
+ */
+const MAX_RECORDED_TRANSACTIONS = 50;
+
+export type DelegateKind = typeof KNOWN_DELEGATES[number]['name'] | 'unknown' | 'cleared';
+
+export type AccountCodeKind = 'eoa' | 'delegated' | 'contract';
+
+export interface DelegationState {
+  address: string;
+  code: string;
+  codeSize: number;
+  kind: AccountCodeKind;
+  delegate: string | null;
+  delegateKind: DelegateKind | null;
+  delegateDeployed: boolean | null; // delegate 주소에 코드가 있는지 (없으면 EOA 호출이 아무것도 실행하지 않음)
+}
+
+export interface RecordedSetCodeTransaction {
+  txHash: string;
+  chainId: number;
+  recordedAt: string;
+}
+
+export interface DelegationHistoryEntry {
+  txHash: string;
+  chainId: number;
+  blockNumber: bigint;
+  timestamp: number;       // 초 단위 block timestamp
+  sender: string;
+  sponsored: boolean;      // authority가 아닌 계정이 전송
+  authorizationChainId: bigint;
+  authorizationNonce: bigint;
+  delegate: string;
+  delegateKind: DelegateKind;
+  status: 'success' | 'reverted';
+  applied: boolean | null; // authority nonce로 확인한 적용 여부, 과거 nonce를 조회할 수 없으면 null (미확인)
+}
+
+/**
+ * delegate 주소를 배포 레지스트리(KNOWN_DELEGATES)에서 식별
+ * 0x0 delegate는 delegation 해제
+ */
+export function identifyDelegate(delegate: string): DelegateKind {
+  const address = ethers.getAddress(delegate);
+  if (address === ethers.ZeroAddress) {
+    return 'cleared';
+  }
+  const known = KNOWN_DELEGATES.find(item => ethers.getAddress(item.address) === address);
+  return known ? known.name : 'unknown';
+}
+
+/**
+ * EOA code 조회 → 0xef0100 delegation designator 해석
+ */
+export async function inspectDelegation(publicClient: PublicClient, address: string): Promise<DelegationState> {
+  const account = ethers.getAddress(address);
+  const code = (await publicClient.getCode({ address: account as `0x${string}` })) ?? '0x';
+  const codeSize = ethers.dataLength(code);
+  const delegate = parseDelegationCode(code);
+
+  if (!delegate) {
+    return {
+      address: account,
+      code,
+      codeSize,
+      kind: codeSize === 0 ? 'eoa' : 'contract',
+      delegate: null,
+      delegateKind: null,
+      delegateDeployed: null
+    };
+  }
+
+  const delegateCode = (await publicClient.getCode({ address: delegate as `0x${string}` })) ?? '0x';
+  return {
+    address: account,
+    code,
+    codeSize,
+    kind: 'delegated',
+    delegate,
+    delegateKind: identifyDelegate(delegate),
+    delegateDeployed: ethers.dataLength(delegateCode) > 0
+  };
+}
+
+export function getRecordedSetCodeTransactions(userAddress: string): RecordedSetCodeTransaction[] {
+  return JSON.parse(localStorage.getItem(`setCodeTxs_${userAddress}`) || '[]');
+}
+
+export function recordSetCodeTransaction(userAddress: string, txHash: string, chainId: number) {
+  if (!ethers.isHexString(txHash, 32)) {
+    throw new Error(`트랜잭션 해시 형식이 올바르지 않습니다: ${txHash}`);
+  }
+  const recorded = getRecordedSetCodeTransactions(userAddress)
+    .filter(item => item.txHash.toLowerCase() !== txHash.toLowerCase());
+  recorded.unshift({ txHash, chainId, recordedAt: new Date().toISOString() });
+  localStorage.setItem(
+    `setCodeTxs_${userAddress}`,
+    JSON.stringify(recorded.slice(0, MAX_RECORDED_TRANSACTIONS))
+  );
+}
+
+/**
+ * 블록 전후 nonce (과거 state를 제공하지 않는 노드면 null)
+ */
+async function nonceRangeAt(
+  publicClient: PublicClient,
+  account: string,
+  blockNumber: bigint
+): Promise<{ before: bigint; after: bigint } | null> {
+  try {
+    const [before, after] = await Promise.all([
+      publicClient.getTransactionCount({ address: account as `0x${string}`, blockNumber: blockNumber - BigInt(1) }),
+      publicClient.getTransactionCount({ address: account as `0x${string}`, blockNumber })
+    ]);
+    return { before: BigInt(before), after: BigInt(after) };
+  } catch (error) {
+    console.warn('⚠️ 블록 시점 nonce를 조회할 수 없어 authorization 적용 여부를 확인하지 않습니다:', blockNumber, error);
+    return null;
+  }
+}
+
+/**
+ * 기록된 type 4 트랜잭션에서 userAddress가 서명한 authorization만 추려 최신순으로 반환
+ * 트랜잭션이 revert되어도 authorization은 적용되므로 status와 무관하게 포함
+ * 다른 체인용 authorization은 노드가 건너뛰므로 chain_id가 0이거나 현재 체인인 것만 포함
+ * nonce가 맞지 않는 authorization도 노드가 건너뛰므로 applied로 구분
+ * - 적용됐다면 그 블록에서 nonce가 authorization nonce를 지나감 (before <= nonce < after)
+ * - authority가 직접 보낸 트랜잭션은 tx nonce가 먼저 올라가므로 tx nonce와 같은 authorization은 무효
+ * - 같은 트랜잭션에서 이미 쓰인 nonce는 무효
+ */
+export async function loadDelegationHistory(
+  publicClient: PublicClient,
+  userAddress: string
+): Promise<DelegationHistoryEntry[]> {
+  const account = ethers.getAddress(userAddress);
+  const chainId = await publicClient.getChainId();
+  const recorded = getRecordedSetCodeTransactions(userAddress).filter(item => item.chainId === chainId);
+
+  const entries = await Promise.all(recorded.map(async ({ txHash }): Promise<DelegationHistoryEntry[]> => {
+    let tx;
+    try {
+      tx = await publicClient.getTransaction({ hash: txHash as `0x${string}` });
+    } catch (error) {
+      console.warn('⚠️ 기록된 set-code 트랜잭션을 찾을 수 없습니다:', txHash, error);
+      return [];
+    }
+    if (tx.type !== 'eip7702' || tx.blockNumber === null) {
+      return [];
+    }
+
+    const [receipt, block, nonces] = await Promise.all([
+      publicClient.getTransactionReceipt({ hash: tx.hash }),
+      publicClient.getBlock({ blockNumber: tx.blockNumber }),
+      nonceRangeAt(publicClient, account, tx.blockNumber)
+    ]);
+    const sender = ethers.getAddress(tx.from);
+    const usedNonces = new Set<bigint>(sender === account ? [BigInt(tx.nonce)] : []);
+
+    return tx.authorizationList.flatMap(auth => {
+      const authorizationChainId = BigInt(auth.chainId);
+      if (authorizationChainId !== ANY_CHAIN_ID && authorizationChainId !== BigInt(chainId)) {
+        return [];
+      }
+      let authority: string;
+      try {
+        authority = recoverEip7702Authority({
+          chainId: authorizationChainId,
+          address: auth.address,
+          nonce: BigInt(auth.nonce),
+          yParity: auth.yParity as 0 | 1,
+          r: ethers.toBeHex(auth.r, 32),
+          s: ethers.toBeHex(auth.s, 32)
+        });
+      } catch {
+        return [];
+      }
+      if (authority !== account) {
+        return [];
+      }
+      const authorizationNonce = BigInt(auth.nonce);
+      let applied: boolean | null = null;
+      if (nonces) {
+        applied = !usedNonces.has(authorizationNonce) &&
+          nonces.before <= authorizationNonce && authorizationNonce < nonces.after;
+        if (applied) {
+          usedNonces.add(authorizationNonce);
+        }
+      }
+      return [{
+        txHash: tx.hash,
+        chainId,
+        blockNumber: tx.blockNumber,
+        timestamp: Number(block.timestamp),
+        sender,
+        sponsored: sender !== account,
+        authorizationChainId,
+        authorizationNonce,
+        delegate: ethers.getAddress(auth.address),
+        delegateKind: identifyDelegate(auth.address),
+        status: receipt.status,
+        applied
+      }];
+    });
+  }));
+
+  return entries.flat().sort((a, b) =>
+    a.blockNumber === b.blockNumber
+      ? Number(b.authorizationNonce - a.authorizationNonce)
+      : Number(b.blockNumber - a.blockNumber)
+  );
+}
@@ -0,0 +1,239 @@
+// EIP-7702 authorization tuples: digest, signing, verification and authority recovery
+import { ethers } from 'ethers';
+import type { WalletClient } from 'viem';
+
+/**
+ * authorization 서명 digest = keccak256(MAGIC || rlp([chain_id, address, nonce]))
+ */
+export const EIP7702_AUTHORIZATION_MAGIC = '0x05';
+
+/**
+ * chain_id = 0 인 authorization은 모든 체인에서 유효
+ */
+export const ANY_CHAIN_ID = BigInt(0);
+
+const MAX_CHAIN_ID = ethers.MaxUint256;
+const MAX_NONCE = BigInt(2) ** BigInt(64) - BigInt(1); // 스펙상 nonce < 2**64 - 1
+const SECP256K1_N = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+
+/**
+ * 서명 전 authorization (authority가 delegate할 컨트랙트 주소)
+ */
+export interface Eip7702Authorization {
+  chainId: bigint;
+  address: string;
+  nonce: bigint;
+}
+
+export interface SignedEip7702Authorization extends Eip7702Authorization {
+  yParity: 0 | 1;
+  r: string; // 0x hex 32바이트
+  s: string; // 0x hex 32바이트 (low-s)
+}
+
+/**
+ * authorizationList 항목 (eth_sendTransaction / RPC 형식, localStorage 저장용)
+ */
+export interface AuthorizationListEntry {
+  chainId: string;
+  address: string;
+  nonce: string;
+  yParity: string;
+  r: string;
+  s: string;
+}
+
+export interface AuthorizationCheckOptions {
+  /** 현재 체인 - authorization의 chain_id는 0 이거나 이 값이어야 함 */
+  chainId?: ethers.BigNumberish;
+  /** 기대하는 authority (서명한 EOA) */
+  authority?: string;
+}
+
+export interface AuthorizationCheckResult {
+  valid: boolean;
+  authority?: string;
+  reason?: string;
+}
+
+export type Eip7702LocalSigner = ethers.Wallet | ethers.SigningKey | string;
+
+function assertAuthorizationFields(auth: Eip7702Authorization) {
+  if (auth.chainId < BigInt(0) || auth.chainId > MAX_CHAIN_ID) {
+    throw new Error(`chain_id 범위가 올바르지 않습니다: ${auth.chainId}`);
+  }
+  if (auth.nonce < BigInt(0) || auth.nonce >= MAX_NONCE) {
+    throw new Error(`authorization nonce는 2^64 - 1 보다 작아야 합니다: ${auth.nonce}`);
+  }
+  if (!ethers.isAddress(auth.address)) {
+    throw new Error(`delegate 주소가 올바르지 않습니다: ${auth.address}`);
+  }
+}
+
+/**
+ * chainId는 필수 - 모든 체인에서 재사용 가능한 authorization은 ANY_CHAIN_ID를 명시적으로 전달
+ */
+export function createEip7702Authorization(
+  address: string,
+  nonce: ethers.BigNumberish,
+  chainId: ethers.BigNumberish
+): Eip7702Authorization {
+  const auth = {
+    chainId: ethers.toBigInt(chainId),
+    address: ethers.getAddress(address),
+    nonce: ethers.toBigInt(nonce)
+  };
+  assertAuthorizationFields(auth);
+  return auth;
+}
+
+export function isAnyChainAuthorization(auth: Eip7702Authorization): boolean {
+  return auth.chainId === ANY_CHAIN_ID;
+}
+
+/**
+ * authority가 트랜잭션 sender이기도 하면 sender nonce가 먼저 증가하므로 현재 nonce + 1로 서명
+ */
+export function authorizationNonce(accountNonce: ethers.BigNumberish, selfSponsored: boolean): bigint {
+  return ethers.toBigInt(accountNonce) + (selfSponsored ? BigInt(1) : BigInt(0));
+}
+
+/**
+ * keccak256(0x05 || rlp([chain_id, address, nonce])) - 정수는 최소 big-endian (0은 빈 바이트열)
+ */
+export function hashEip7702Authorization(auth: Eip7702Authorization): string {
+  assertAuthorizationFields(auth);
+  return ethers.keccak256(ethers.concat([
+    EIP7702_AUTHORIZATION_MAGIC,
+    ethers.encodeRlp([
+      ethers.toBeArray(auth.chainId),
+      ethers.getAddress(auth.address),
+      ethers.toBeArray(auth.nonce)
+    ])
+  ]));
+}
+
+export function toSigningKey(signer: Eip7702LocalSigner): ethers.SigningKey {
+  if (typeof signer === 'string') {
+    return new ethers.SigningKey(signer);
+  }
+  return 'signingKey' in signer ? signer.signingKey : signer;
+}
+
+/**
+ * 로컬 키로 authorization 서명
+ */
+export function signEip7702Authorization(
+  auth: Eip7702Authorization,
+  signer: Eip7702LocalSigner
+): SignedEip7702Authorization {
+  const signature = toSigningKey(signer).sign(hashEip7702Authorization(auth));
+  return {
+    ...auth,
+    address: ethers.getAddress(auth.address),
+    yParity: signature.yParity,
+    r: signature.r,
+    s: signature.s
+  };
+}
+
+/**
+ * 지갑으로 authorization 서명
+ * EIP-7702 서명 RPC가 표준화되지 않아 브라우저 지갑(json-rpc 계정)은 지원하지 않음 - viem local 계정만 가능
+ */
+export async function signEip7702AuthorizationWithWallet(
+  walletClient: WalletClient,
+  auth: Eip7702Authorization
+): Promise<SignedEip7702Authorization> {
+  const account = walletClient.account;
+  if (!account || account.type !== 'local') {
+    throw new Error('연결된 지갑은 EIP-7702 authorization 서명을 지원하지 않습니다 (로컬 키로 서명하세요)');
+  }
+  assertAuthorizationFields(auth);
+
+  const signed = await walletClient.signAuthorization({
+    account,
+    address: ethers.getAddress(auth.address) as `0x${string}`,
+    chainId: Number(auth.chainId),
+    nonce: Number(auth.nonce)
+  });
+  return {
+    chainId: BigInt(signed.chainId),
+    address: ethers.getAddress(signed.address),
+    nonce: BigInt(signed.nonce),
+    yParity: (signed.yParity ?? (Number(signed.v) - 27)) as 0 | 1,
+    r: ethers.toBeHex(signed.r, 32),
+    s: ethers.toBeHex(signed.s, 32)
+  };
+}
+
+/**
+ * 서명된 tuple에서 authority 복구 (노드와 같은 조건: yParity 0/1, 0 < r, s < n, s <= n/2)
+ */
+export function recoverEip7702Authority(signed: SignedEip7702Authorization): string {
+  if (signed.yParity !== 0 && signed.yParity !== 1) {
+    throw new Error(`yParity는 0 또는 1이어야 합니다: ${String(signed.yParity)}`);
+  }
+  const r = ethers.toBigInt(signed.r);
+  const s = ethers.toBigInt(signed.s);
+  if (r === BigInt(0) || r >= SECP256K1_N || s === BigInt(0) || s >= SECP256K1_N) {
+    throw new Error('authorization 서명의 r / s 범위가 올바르지 않습니다');
+  }
+  if (s > SECP256K1_N / BigInt(2)) {
+    throw new Error('authorization 서명은 low-s 형식이어야 합니다');
+  }
+  return ethers.recoverAddress(hashEip7702Authorization(signed), {
+    r: ethers.toBeHex(r, 32),
+    s: ethers.toBeHex(s, 32),
+    yParity: signed.yParity
+  });
+}
+
+/**
+ * 서명된 authorization 검증 - chain_id(0 또는 현재 체인)와 authority 확인
+ */
+export function verifyEip7702Authorization(
+  signed: SignedEip7702Authorization,
+  options: AuthorizationCheckOptions = {}
+): AuthorizationCheckResult {
+  let authority: string;
+  try {
+    authority = recoverEip7702Authority(signed);
+  } catch (error) {
+    return { valid: false, reason: (error as Error).message };
+  }
+
+  if (options.chainId !== undefined && !isAnyChainAuthorization(signed)
+      && signed.chainId !== ethers.toBigInt(options.chainId)) {
+    return { valid: false, authority, reason: `chain_id ${signed.chainId}는 현재 체인(${options.chainId})과 다릅니다` };
+  }
+  if (options.authority !== undefined && authority !== ethers.getAddress(options.authority)) {
+    return { valid: false, authority, reason: `authority ${authority}가 기대값 ${options.authority}와 다릅니다` };
+  }
+  return { valid: true, authority };
+}
+
+export function toAuthorizationListEntry(signed: SignedEip7702Authorization): AuthorizationListEntry {
+  return {
+    chainId: ethers.toQuantity(signed.chainId),
+    address: ethers.getAddress(signed.address),
+    nonce: ethers.toQuantity(signed.nonce),
+    yParity: ethers.toQuantity(signed.yParity),
+    r: ethers.toBeHex(signed.r, 32),
+    s: ethers.toBeHex(signed.s, 32)
+  };
+}
+
+export function fromAuthorizationListEntry(entry: AuthorizationListEntry): SignedEip7702Authorization {
+  const yParity = Number(entry.yParity);
+  if (yParity !== 0 && yParity !== 1) {
+    throw new Error(`yParity는 0 또는 1이어야 합니다: ${entry.yParity}`);
+  }
+  const auth = createEip7702Authorization(entry.address, entry.nonce, entry.chainId);
+  return {
+    ...auth,
+    yParity,
+    r: ethers.toBeHex(entry.r, 32),
+    s: ethers.toBeHex(entry.s, 32)
+  };
+}
@@ -0,0 +1,113 @@
+// secp256r1 identity used by the noir-webauthn circuit (check_pubkey_matches_identity)
+import { ethers } from 'ethers';
+import { decodeCoseKey } from './webauthn';
+
+/**
+ * identity = hex(sha256(x || y)[12..32]) + ".ecdsa_secp256r1" (소문자 hex 40자 + 16자 = 56자)
+ */
+export const IDENTITY_SCHEME = 'ecdsa_secp256r1';
+export const IDENTITY_SUFFIX = `.${IDENTITY_SCHEME}`;
+export const IDENTITY_HASH_LEN = 20;
+export const IDENTITY_LEN = IDENTITY_HASH_LEN * 2 + IDENTITY_SUFFIX.length;
+
+const COORDINATE_LEN = 32;
+const IDENTITY_PATTERN = /^([0-9a-f]{40})\.ecdsa_secp256r1$/;
+
+/**
+ * P-256 공개키 (0x hex 32바이트 좌표) - 디바이스 저장 형식(pubKeyX / pubKeyY)과 동일
+ */
+export interface Secp256r1PublicKey {
+  x: string;
+  y: string;
+}
+
+export interface ParsedIdentity {
+  hash: string; // 0x hex 20바이트 (sha256(x || y)의 마지막 20바이트)
+  scheme: typeof IDENTITY_SCHEME;
+}
+
+function coordinateBytes(value: ethers.BytesLike, name: string): Uint8Array {
+  const bytes = ethers.getBytes(value);
+  if (bytes.length !== COORDINATE_LEN) {
+    throw new Error(`${name}는 ${COORDINATE_LEN}바이트여야 합니다 (${bytes.length})`);
+  }
+  return bytes;
+}
+
+/**
+ * 공개키 → 회로 identity 문자열
+ */
+export function computeIdentity(pubKeyX: ethers.BytesLike, pubKeyY: ethers.BytesLike): string {
+  const hash = ethers.sha256(ethers.concat([
+    coordinateBytes(pubKeyX, 'pubKeyX'),
+    coordinateBytes(pubKeyY, 'pubKeyY')
+  ]));
+  return hash.slice(-IDENTITY_HASH_LEN * 2) + IDENTITY_SUFFIX;
+}
+
+/**
+ * identity 문자열 파싱 (회로는 소문자 hex만 허용)
+ */
+export function parseIdentity(identity: string): ParsedIdentity {
+  if (identity.length !== IDENTITY_LEN) {
+    throw new Error(`identity는 ${IDENTITY_LEN}자여야 합니다 (${identity.length})`);
+  }
+  const match = IDENTITY_PATTERN.exec(identity);
+  if (!match) {
+    throw new Error(`identity 형식이 올바르지 않습니다: ${identity}`);
+  }
+  return { hash: '0x' + match[1], scheme: IDENTITY_SCHEME };
+}
+
+export function isValidIdentity(identity: string): boolean {
+  return identity.length === IDENTITY_LEN && IDENTITY_PATTERN.test(identity);
+}
+
+export function identityMatchesPublicKey(identity: string, publicKey: Secp256r1PublicKey): boolean {
+  return isValidIdentity(identity) && identity === computeIdentity(publicKey.x, publicKey.y);
+}
+
+/**
+ * COSE_Key (attestedCredentialData의 credentialPublicKey) → 공개키
+ */
+export function publicKeyFromCoseKey(coseKey: Uint8Array): Secp256r1PublicKey {
+  const { x, y } = decodeCoseKey(coseKey);
+  return { x: ethers.hexlify(coordinateBytes(x, 'x')), y: ethers.hexlify(coordinateBytes(y, 'y')) };
+}
+
+/**
+ * 컨트랙트 형식 uint256[2] (SessionDelegate pubKeyX / pubKeyY)
+ */
+export function publicKeyToUint256(publicKey: Secp256r1PublicKey): [bigint, bigint] {
+  return [
+    ethers.toBigInt(coordinateBytes(publicKey.x, 'x')),
+    ethers.toBigInt(coordinateBytes(publicKey.y, 'y'))
+  ];
+}
+
+export function publicKeyFromUint256([x, y]: readonly [ethers.BigNumberish, ethers.BigNumberish]): Secp256r1PublicKey {
+  return { x: ethers.toBeHex(x, COORDINATE_LEN), y: ethers.toBeHex(y, COORDINATE_LEN) };
+}
+
+/**
+ * 회로 형식 바이트 배열 (WebAuthnBlob pub_key_x / pub_key_y: [u8; 32])
+ */
+export function publicKeyToCircuitBytes(publicKey: Secp256r1PublicKey): {
+  pub_key_x: number[];
+  pub_key_y: number[];
+} {
+  return {
+    pub_key_x: Array.from(coordinateBytes(publicKey.x, 'x')),
+    pub_key_y: Array.from(coordinateBytes(publicKey.y, 'y'))
+  };
+}
+
+export function publicKeyFromCircuitBytes(pubKeyX: number[], pubKeyY: number[]): Secp256r1PublicKey {
+  const toHex = (bytes: number[], name: string) => {
+    if (bytes.some(byte => !Number.isInteger(byte) || byte < 0 || byte > 255)) {
+      throw new Error(`${name}는 0~255 바이트 배열이어야 합니다`);
+    }
+    return ethers.hexlify(coordinateBytes(new Uint8Array(bytes), name));
+  };
+  return { x: toHex(pubKeyX, 'pub_key_x'), y: toHex(pubKeyY, 'pub_key_y') };
+}
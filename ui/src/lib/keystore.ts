@@ -0,0 +1,262 @@
+// Encrypted session keystore (WebCrypto AES-GCM + IndexedDB)
+import { ethers } from 'ethers';
+
+/**
+ * IndexedDB 스키마 버전 - object store/index 구조가 바뀌면 올리고 onupgradeneeded에서 처리
+ */
+export const KEYSTORE_DB_NAME = 'AuthDevice7702';
+export const KEYSTORE_DB_VERSION = 1;
+const SESSION_KEY_STORE = 'sessionKeys';
+
+/**
+ * 레코드 포맷 버전
+ * 1: PBKDF2-SHA256 → AES-GCM-256
+ */
+export const SESSION_KEY_RECORD_VERSION = 1;
+
+const PBKDF2_ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+interface SessionKeyRecordBase {
+  id: string;
+  owner: string;   // EOA 주소
+  address: string; // 세션 키 주소
+  createdAt: string;
+}
+
+export interface EncryptedSessionKeyRecord extends SessionKeyRecordBase {
+  version: typeof SESSION_KEY_RECORD_VERSION;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: Uint8Array };
+  cipher: { name: 'AES-GCM'; iv: Uint8Array; ciphertext: Uint8Array };
+}
+
+/**
+ * 암호문을 제외한 세션 키 메타데이터
+ */
+export type SessionKeyInfo = SessionKeyRecordBase & { version: number };
+
+/**
+ * discardLegacySessions가 삭제한 localStorage 세션
+ */
+export type DiscardedLegacySession = SessionKeyRecordBase;
+
+/**
+ * unlock된 레코드의 wrapping key (non-extractable, 메모리에만 보관)
+ */
+const unlockedKeys = new Map<string, CryptoKey>();
+
+function toInfo(record: EncryptedSessionKeyRecord): SessionKeyInfo {
+  return {
+    id: record.id,
+    owner: record.owner,
+    address: record.address,
+    createdAt: record.createdAt,
+    version: record.version,
+  };
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openKeystore(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('이 환경은 IndexedDB를 지원하지 않습니다'));
+  }
+
+  const request = indexedDB.open(KEYSTORE_DB_NAME, KEYSTORE_DB_VERSION);
+  request.onupgradeneeded = (event) => {
+    const db = request.result;
+    if (event.oldVersion < 1) {
+      const store = db.createObjectStore(SESSION_KEY_STORE, { keyPath: 'id' });
+      store.createIndex('owner', 'owner', { unique: false });
+    }
+  };
+  return requestToPromise(request);
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openKeystore();
+  try {
+    return await requestToPromise(fn(db.transaction(SESSION_KEY_STORE, mode).objectStore(SESSION_KEY_STORE)));
+  } finally {
+    db.close();
+  }
+}
+
+async function readRecord(id: string): Promise<EncryptedSessionKeyRecord | null> {
+  const record = await withStore<EncryptedSessionKeyRecord | undefined>('readonly', store => store.get(id));
+  return record ?? null;
+}
+
+/**
+ * 비밀값(PRF 출력 또는 passphrase)과 레코드별 salt로 wrapping key 유도
+ */
+async function deriveWrappingKey(secret: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * 레코드 식별 정보를 AAD로 묶어 다른 레코드와 암호문을 바꿔치기할 수 없게 함
+ */
+function additionalData(record: SessionKeyRecordBase): Uint8Array {
+  return new TextEncoder().encode(`${record.id}:${record.owner.toLowerCase()}:${record.address.toLowerCase()}`);
+}
+
+async function encryptRecord(
+  base: SessionKeyRecordBase,
+  privateKey: string,
+  secret: string
+): Promise<{ record: EncryptedSessionKeyRecord; wrappingKey: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const wrappingKey = await deriveWrappingKey(secret, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: additionalData(base) },
+    wrappingKey,
+    ethers.getBytes(privateKey)
+  );
+
+  return {
+    record: {
+      ...base,
+      version: SESSION_KEY_RECORD_VERSION,
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt },
+      cipher: { name: 'AES-GCM', iv, ciphertext: new Uint8Array(ciphertext) },
+    },
+    wrappingKey,
+  };
+}
+
+async function decryptRecord(record: EncryptedSessionKeyRecord, wrappingKey: CryptoKey): Promise<string> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: record.cipher.iv, additionalData: additionalData(record) },
+      wrappingKey,
+      record.cipher.ciphertext
+    );
+    return ethers.hexlify(new Uint8Array(plaintext));
+  } catch {
+    // AES-GCM 인증 태그 불일치 = 잘못된 비밀값 또는 변조된 레코드
+    throw new Error('세션 키 복호화 실패 - PRF 출력 또는 passphrase가 일치하지 않습니다');
+  }
+}
+
+/**
+ * 세션 개인키를 암호화하여 저장
+ */
+export async function putSessionKey(
+  entry: { id: string; owner: string; privateKey: string },
+  secret: string
+): Promise<SessionKeyInfo> {
+  const base: SessionKeyRecordBase = {
+    id: entry.id,
+    owner: entry.owner,
+    address: new ethers.Wallet(entry.privateKey).address,
+    createdAt: new Date().toISOString(),
+  };
+  const { record } = await encryptRecord(base, entry.privateKey, secret);
+  await withStore('readwrite', store => store.put(record));
+  unlockedKeys.delete(entry.id);
+
+  console.log('🔐 세션 키 저장 완료:', { id: record.id, address: record.address });
+  return toInfo(record);
+}
+
+/**
+ * 세션 키 메타데이터 조회 (암호문/평문은 반환하지 않음)
+ */
+export async function getSessionKey(id: string): Promise<SessionKeyInfo | null> {
+  const record = await readRecord(id);
+  return record ? toInfo(record) : null;
+}
+
+/**
+ * 세션 키 해제
+ * secret이 없으면 이전 unlock에서 캐시한 wrapping key 사용 (lock 상태면 에러)
+ */
+export async function unlockSessionKey(id: string, secret?: string): Promise<string> {
+  const record = await readRecord(id);
+  if (!record) {
+    throw new Error('키스토어에 세션 키가 없습니다');
+  }
+
+  let wrappingKey = unlockedKeys.get(id);
+  if (secret) {
+    wrappingKey = await deriveWrappingKey(secret, record.kdf.salt, record.kdf.iterations);
+  }
+  if (!wrappingKey) {
+    throw new Error('세션 키가 잠겨 있습니다');
+  }
+
+  const privateKey = await decryptRecord(record, wrappingKey);
+  unlockedKeys.set(id, wrappingKey);
+  return privateKey;
+}
+
+/**
+ * 캐시된 wrapping key 제거 (id가 없으면 전체)
+ */
+export function lockSessionKey(id?: string) {
+  if (id) {
+    unlockedKeys.delete(id);
+  } else {
+    unlockedKeys.clear();
+  }
+}
+
+export function isSessionKeyUnlocked(id: string): boolean {
+  return unlockedKeys.has(id);
+}
+
+/**
+ * 세션 키 삭제
+ */
+export async function deleteSessionKey(id: string): Promise<void> {
+  unlockedKeys.delete(id);
+  await withStore('readwrite', store => store.delete(id));
+}
+
+/**
+ * 레거시 세션 정리 - 복구할 수 없으므로 키스토어로 이전하지 않고 삭제
+ * 이전 포맷의 sessionKey(localStorage sessions_${userAddress})는 매번 달라지는 WebAuthn 서명에서 유도한 키로
+ * 암호화되어 다시 복호화할 수 없음. sessionKey가 있는 세션을 제거하고 반환 (온체인에서 아직 활성이면 폐기하도록 안내)
+ */
+export async function discardLegacySessions(userAddress: string): Promise<DiscardedLegacySession[]> {
+  const storageKey = `sessions_${userAddress}`;
+  const sessions: Array<{ id: string; publicKey: string; createdAt?: string; sessionKey?: string }> =
+    JSON.parse(localStorage.getItem(storageKey) || '[]');
+
+  const legacy = sessions.filter(session => typeof session.sessionKey === 'string');
+  if (legacy.length === 0) return [];
+
+  localStorage.setItem(storageKey, JSON.stringify(sessions.filter(session => typeof session.sessionKey !== 'string')));
+
+  console.warn('🗑️ 복구할 수 없는 레거시 세션 삭제:', { userAddress, count: legacy.length });
+  return legacy.map(session => ({
+    id: session.id,
+    owner: userAddress,
+    address: session.publicKey,
+    createdAt: session.createdAt ?? '',
+  }));
+}
@@ -0,0 +1,143 @@
+// Main-thread client for the Noir proving Web Worker
+import { ethers } from 'ethers';
+import type { InputMap } from '@noir-lang/noir_js';
+import { proveWithService } from './provingServiceClient';
+
+/**
+ * 컴파일된 회로 경로 (npm run circuit:copy 로 noir-webauthn/target/webauthn.json 복사)
+ */
+export const CIRCUIT_ARTIFACT_URL = '/circuits/webauthn.json';
+
+export type ProvingStage = 'queued' | 'loading-circuit' | 'executing' | 'proving';
+
+/**
+ * 증명 위치: 브라우저(Web Worker) 또는 로컬 증명 서비스 (저사양 기기용)
+ */
+export type ProverMode = 'browser' | 'service';
+
+export interface ProverConfig {
+  mode: ProverMode;
+  serviceUrl: string;
+}
+
+export const DEFAULT_PROVER_CONFIG: ProverConfig = {
+  mode: 'browser',
+  serviceUrl: 'http://127.0.0.1:8787'
+};
+
+const PROVER_CONFIG_KEY = 'proverConfig';
+
+export interface ProverRequest {
+  id: number;
+  circuitUrl: string;
+  inputs: InputMap;
+}
+
+export type ProverResponse =
+  | { id: number; type: 'progress'; stage: ProvingStage }
+  | { id: number; type: 'result'; proof: Uint8Array; publicInputs: string[] }
+  | { id: number; type: 'error'; message: string };
+
+export interface ProveOptions {
+  onProgress?: (stage: ProvingStage) => void;
+  signal?: AbortSignal;
+}
+
+export interface NoirProof {
+  proof: string;          // 0x hex
+  publicInputs: string[]; // 0x hex field
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/noirProver.worker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+}
+
+/**
+ * Barretenberg WASM은 중간에 멈출 수 없으므로 취소 시 워커를 종료하고 다음 요청에서 새로 생성
+ */
+function terminateWorker() {
+  worker?.terminate();
+  worker = null;
+}
+
+/**
+ * 워커에서 회로 실행 + proof 생성
+ */
+export function proveInWorker(inputs: InputMap, options: ProveOptions = {}): Promise<NoirProof> {
+  const { onProgress, signal } = options;
+  if (signal?.aborted) {
+    return Promise.reject(new DOMException('Proof generation was cancelled', 'AbortError'));
+  }
+
+  const id = ++nextRequestId;
+  const prover = getWorker();
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      prover.removeEventListener('message', onMessage);
+      prover.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const onMessage = (event: MessageEvent<ProverResponse>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+
+      if (message.type === 'progress') {
+        onProgress?.(message.stage);
+        return;
+      }
+      cleanup();
+      if (message.type === 'error') {
+        reject(new Error('ZK Proof 생성 실패: ' + message.message));
+      } else {
+        resolve({ proof: ethers.hexlify(message.proof), publicInputs: message.publicInputs });
+      }
+    };
+
+    const onError = (event: ErrorEvent) => {
+      cleanup();
+      terminateWorker();
+      reject(new Error('Prover 워커 오류: ' + event.message));
+    };
+
+    const onAbort = () => {
+      cleanup();
+      terminateWorker();
+      reject(new DOMException('Proof generation was cancelled', 'AbortError'));
+    };
+
+    prover.addEventListener('message', onMessage);
+    prover.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+
+    const request: ProverRequest = { id, circuitUrl: CIRCUIT_ARTIFACT_URL, inputs };
+    prover.postMessage(request);
+  });
+}
+
+export function getProverConfig(): ProverConfig {
+  if (typeof window === 'undefined') return DEFAULT_PROVER_CONFIG;
+  const stored = localStorage.getItem(PROVER_CONFIG_KEY);
+  return stored ? { ...DEFAULT_PROVER_CONFIG, ...JSON.parse(stored) } : DEFAULT_PROVER_CONFIG;
+}
+
+export function setProverConfig(config: Partial<ProverConfig>) {
+  localStorage.setItem(PROVER_CONFIG_KEY, JSON.stringify({ ...getProverConfig(), ...config }));
+}
+
+/**
+ * 설정에 따라 브라우저 워커 또는 증명 서비스에서 proof 생성
+ */
+export function prove(inputs: InputMap, options: ProveOptions = {}): Promise<NoirProof> {
+  const config = getProverConfig();
+  return config.mode === 'service'
+    ? proveWithService(config.serviceUrl, inputs, options)
+    : proveInWorker(inputs, options);
+}
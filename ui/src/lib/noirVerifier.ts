@@ -0,0 +1,105 @@
+// Off-chain verification of noir-webauthn proofs with the exported verification key
+import { ethers } from 'ethers';
+import type { BarretenbergVerifier } from '@noir-lang/backend_barretenberg';
+import { CIRCUIT_VERSION } from './circuitInputs';
+import circuitVerificationKeys from './circuitVerificationKeys.json';
+import type { NoirProof } from './noirProver';
+
+/**
+ * extractVerificationKey.ts가 만든 vkey.b64 (npm run circuit:copy 로 public/circuits 에 복사)
+ */
+export const VERIFICATION_KEY_URL = '/circuits/vkey.b64';
+
+export interface CircuitVerificationKey {
+  circuitId: string;
+  vkeyHash: string | null; // sha256(vkey), vkey를 export하기 전에는 null
+}
+
+/**
+ * 회로 버전별 기대 vkey 해시 (circuitVerificationKeys.json)
+ * extractVerificationKey.ts(bun cli.ts export-vkey / generateVerifier.ts)가 vkey.sha256과 함께 갱신
+ */
+export const CIRCUIT_VERIFICATION_KEYS: Record<number, CircuitVerificationKey> = circuitVerificationKeys;
+
+/**
+ * 고정된 vkey 해시 - 아직 export하지 않았으면 에러
+ */
+export function pinnedVerificationKeyHash(
+  version: number = CIRCUIT_VERSION,
+  keys: Record<number, CircuitVerificationKey> = CIRCUIT_VERIFICATION_KEYS
+): string {
+  const expected = keys[version];
+  if (!expected) {
+    throw new Error(`회로 버전 ${version}의 verification key가 등록되어 있지 않습니다`);
+  }
+  if (!expected.vkeyHash) {
+    throw new Error(
+      `${expected.circuitId}의 vkey 해시가 고정되지 않았습니다 - noir-webauthn/prover에서 bun cli.ts export-vkey 실행 후 npm run circuit:copy`
+    );
+  }
+  return expected.vkeyHash;
+}
+
+// 회로 버전별 vkey 캐시 (버전마다 기대 해시가 다름)
+const verificationKeyPromises = new Map<number, Promise<Uint8Array>>();
+let verifierPromise: Promise<BarretenbergVerifier> | null = null;
+
+/**
+ * vkey 로드 + 기대 해시 확인 (버전별로 한 번만 로드하여 재사용)
+ */
+export function loadVerificationKey(version: number = CIRCUIT_VERSION): Promise<Uint8Array> {
+  let expectedHash: string;
+  try {
+    expectedHash = pinnedVerificationKeyHash(version);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  let verificationKeyPromise = verificationKeyPromises.get(version);
+  if (!verificationKeyPromise) {
+    verificationKeyPromise = (async () => {
+      const response = await fetch(VERIFICATION_KEY_URL);
+      if (!response.ok) {
+        throw new Error(`verification key를 불러올 수 없습니다 (${VERIFICATION_KEY_URL}: ${response.status})`);
+      }
+      const vkey = ethers.decodeBase64((await response.text()).trim());
+      const vkeyHash = ethers.sha256(vkey);
+      if (vkeyHash !== expectedHash.toLowerCase()) {
+        throw new Error(`verification key 해시가 ${CIRCUIT_VERIFICATION_KEYS[version].circuitId}와 일치하지 않습니다 (${vkeyHash})`);
+      }
+      return vkey;
+    })();
+    verificationKeyPromises.set(version, verificationKeyPromise);
+    verificationKeyPromise.catch(() => {
+      verificationKeyPromises.delete(version);
+    });
+  }
+  return verificationKeyPromise;
+}
+
+/**
+ * Barretenberg verifier는 회로 없이 vkey만으로 검증 (WASM 로드 비용 때문에 재사용)
+ */
+function getVerifier(): Promise<BarretenbergVerifier> {
+  if (!verifierPromise) {
+    verifierPromise = import('@noir-lang/backend_barretenberg').then(
+      ({ BarretenbergVerifier }) => new BarretenbergVerifier({ threads: 1 })
+    );
+  }
+  return verifierPromise;
+}
+
+/**
+ * proof 검증 (publicInputs는 proof와 함께 vkey로 검증됨)
+ */
+export async function verifyWithVerificationKey(
+  proof: NoirProof,
+  version: number = CIRCUIT_VERSION
+): Promise<boolean> {
+  const vkey = await loadVerificationKey(version);
+  const verifier = await getVerifier();
+  return verifier.verifyProof(
+    { proof: ethers.getBytes(proof.proof), publicInputs: proof.publicInputs },
+    vkey
+  );
+}
@@ -0,0 +1,234 @@
+// Passkey-first sign-in: resolve the EOA from a discoverable credential's userHandle
+import type { AuthenticationResponseJSON } from '@simplewebauthn/types';
+import base64url from 'base64url';
+import { ethers } from 'ethers';
+import type { PublicClient } from 'viem';
+import { SESSION_DELEGATE_ABI } from './contracts';
+import { authenticateDiscoverable, derToRawSignature } from './webauthn';
+import { trackAssertionSignCount } from './signCounter';
+
+/**
+ * 지갑 연결 없이 패스키로 로그인한 계정 (탭 단위로 sessionStorage에 보관)
+ */
+export interface PasskeyAccount {
+  address: string;
+  credentialId: string;
+  deviceId: string;
+  deviceName: string;
+  signedInAt: string;
+}
+
+interface RegisteredDevice {
+  id: string;
+  name: string;
+  registeredAt?: string;
+  credentialId: string; // 온체인에서 복원한 디바이스는 해당 패스키로 로그인하기 전까지 빈 문자열
+  pubKeyX?: string;
+  pubKeyY?: string;
+  isActive: boolean;
+}
+
+const PASSKEY_ACCOUNT_KEY = 'passkeyAccount';
+
+/**
+ * 패스키만으로 계정을 알 수 없을 때 던지는 에러의 name - UI는 실패 대신 지갑 연결을 안내
+ */
+export const WALLET_CONNECTION_REQUIRED = 'WalletConnectionRequired';
+
+function walletConnectionRequired(message: string): Error {
+  const error = new Error(message);
+  error.name = WALLET_CONNECTION_REQUIRED;
+  return error;
+}
+
+const sessionDelegateInterface = new ethers.Interface(SESSION_DELEGATE_ABI);
+
+/**
+ * userHandle → EOA 주소
+ * 등록 시 user.id = base64url(EOA 주소 문자열)로 저장 (generateRegistrationOptions)
+ */
+export function userHandleToAddress(userHandle: string): string {
+  const decoded = base64url.decode(userHandle);
+  if (!ethers.isAddress(decoded)) {
+    throw new Error('userHandle이 EOA 주소가 아닙니다 - 이 앱에서 등록한 패스키인지 확인하세요');
+  }
+  return ethers.getAddress(decoded);
+}
+
+/**
+ * 등록된 디바이스 공개키로 assertion 서명 검증
+ * 서명 대상: authenticatorData || SHA-256(clientDataJSON)
+ */
+export async function verifyAssertionSignature(
+  response: AuthenticationResponseJSON,
+  publicKey: { x: string; y: string }
+): Promise<boolean> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    ethers.getBytes(ethers.concat(['0x04', publicKey.x, publicKey.y])),
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['verify']
+  );
+  const authenticatorData = new Uint8Array(base64url.toBuffer(response.response.authenticatorData));
+  const clientDataHash = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', base64url.toBuffer(response.response.clientDataJSON))
+  );
+  const { signature } = derToRawSignature(new Uint8Array(base64url.toBuffer(response.response.signature)));
+
+  return crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    ethers.getBytes(signature),
+    ethers.getBytes(ethers.concat([authenticatorData, clientDataHash]))
+  );
+}
+
+async function callSessionDelegate(
+  publicClient: PublicClient,
+  address: string,
+  functionName: string,
+  args: unknown[]
+): Promise<ethers.Result | null> {
+  const { data } = await publicClient.call({
+    to: address as `0x${string}`,
+    data: sessionDelegateInterface.encodeFunctionData(functionName, args) as `0x${string}`
+  });
+  // delegate되지 않은 EOA는 빈 결과
+  if (!data || data === '0x') {
+    return null;
+  }
+  return sessionDelegateInterface.decodeFunctionResult(functionName, data);
+}
+
+/**
+ * SessionDelegate에 등록된 디바이스 (getOwnerDevices / devices)
+ * EIP-7702 delegation이므로 storage는 EOA에 있고 EOA 주소로 호출
+ * credentialId는 온체인에 없으므로 빈 문자열 - 해당 패스키로 로그인하면 채워짐
+ */
+async function fetchOnchainDevices(publicClient: PublicClient, address: string): Promise<RegisteredDevice[]> {
+  const owned = await callSessionDelegate(publicClient, address, 'getOwnerDevices', [address]);
+  const deviceIds: string[] = owned ? [...owned[0]] : [];
+
+  const devices = await Promise.all(deviceIds.map(async deviceId => {
+    const device = await callSessionDelegate(publicClient, address, 'devices', [address, deviceId]);
+    if (!device?.isRegistered) {
+      return null;
+    }
+    return {
+      id: deviceId,
+      name: device.deviceName,
+      registeredAt: new Date(Number(device.registeredAt) * 1000).toISOString(),
+      credentialId: '',
+      pubKeyX: ethers.toBeHex(device.pubKeyX, 32),
+      pubKeyY: ethers.toBeHex(device.pubKeyY, 32),
+      isActive: true,
+    };
+  }));
+  return devices.filter((device): device is NonNullable<typeof device> => device !== null);
+}
+
+const publicKeyOf = (device: RegisteredDevice) => `${device.pubKeyX}:${device.pubKeyY}`.toLowerCase();
+
+/**
+ * localStorage에 없는 디바이스를 온체인에서 복원하여 devices_<address>에 저장
+ * 온체인 deviceId = keccak256(pubKeyX, pubKeyY)라 credentialId로는 찾을 수 없어 assertion 서명이 검증되는 공개키로 식별
+ * 이 브라우저에 없는 나머지 등록 디바이스도 함께 저장 (DeviceList / SessionManager가 같은 목록을 읽음)
+ */
+async function restoreOnchainDevices(
+  publicClient: PublicClient,
+  address: string,
+  response: AuthenticationResponseJSON,
+  localDevices: RegisteredDevice[]
+): Promise<RegisteredDevice | undefined> {
+  const onchainDevices = await fetchOnchainDevices(publicClient, address);
+
+  let signedInDevice: RegisteredDevice | undefined;
+  for (const device of onchainDevices) {
+    if (await verifyAssertionSignature(response, { x: device.pubKeyX!, y: device.pubKeyY! })) {
+      signedInDevice = { ...device, credentialId: response.id };
+      break;
+    }
+  }
+  if (!signedInDevice) {
+    return undefined;
+  }
+
+  const signedInKey = publicKeyOf(signedInDevice);
+  const known = new Set(localDevices.map(publicKeyOf));
+  const restored = onchainDevices
+    .filter(device => !known.has(publicKeyOf(device)))
+    .map(device => publicKeyOf(device) === signedInKey ? signedInDevice! : device);
+  const merged = [
+    // 같은 공개키의 로컬 기록에 credentialId가 없으면 로그인한 패스키로 채움
+    ...localDevices.map(device =>
+      publicKeyOf(device) === signedInKey && !device.credentialId ? { ...device, credentialId: response.id } : device
+    ),
+    ...restored
+  ];
+  localStorage.setItem(`devices_${address}`, JSON.stringify(merged));
+  console.log(`📥 Restored ${restored.length} on-chain device(s) for ${address}`);
+
+  return merged.find(device => publicKeyOf(device) === signedInKey);
+}
+
+/**
+ * 패스키로 로그인하여 EOA와 디바이스 확인
+ * useBrowserAutofill이면 conditional UI(자동완성)로 대기
+ * 이 브라우저에 등록 기록이 없으면 publicClient로 온체인 SessionDelegate 디바이스 조회
+ * userHandle이 없으면(residentKey 'preferred'로 등록된 보안 키 등) WALLET_CONNECTION_REQUIRED 에러
+ */
+export async function signInWithPasskey(
+  useBrowserAutofill: boolean = false,
+  publicClient?: PublicClient
+): Promise<PasskeyAccount> {
+  const response = await authenticateDiscoverable(useBrowserAutofill);
+  if (!response.response.userHandle) {
+    throw walletConnectionRequired(
+      '이 패스키는 계정 정보(userHandle)를 저장하지 않는 인증기입니다 - 지갑을 연결한 뒤 사용하세요'
+    );
+  }
+  const address = userHandleToAddress(response.response.userHandle);
+
+  const devices: RegisteredDevice[] = JSON.parse(localStorage.getItem(`devices_${address}`) || '[]');
+  let device = devices.find(d => d.credentialId === response.id);
+  if (!device && publicClient) {
+    console.log('🔍 No local device entry, looking up SessionDelegate devices on-chain...');
+    device = await restoreOnchainDevices(publicClient, address, response, devices);
+  }
+  if (!device) {
+    throw new Error('이 패스키는 해당 계정에 등록된 디바이스가 아닙니다');
+  }
+  if (!device.isActive) {
+    throw new Error('비활성화된 디바이스입니다');
+  }
+  if (!device.pubKeyX || !device.pubKeyY) {
+    throw new Error('디바이스 공개키가 저장되어 있지 않습니다 - 디바이스를 다시 등록하세요');
+  }
+  if (!(await verifyAssertionSignature(response, { x: device.pubKeyX, y: device.pubKeyY }))) {
+    throw new Error('패스키 서명 검증 실패');
+  }
+  trackAssertionSignCount(address, response);
+
+  const account: PasskeyAccount = {
+    address,
+    credentialId: response.id,
+    deviceId: device.id,
+    deviceName: device.name,
+    signedInAt: new Date().toISOString(),
+  };
+  sessionStorage.setItem(PASSKEY_ACCOUNT_KEY, JSON.stringify(account));
+
+  console.log('✅ 패스키 로그인 완료:', { address, deviceId: device.id });
+  return account;
+}
+
+export function getPasskeyAccount(): PasskeyAccount | null {
+  if (typeof window === 'undefined') return null;
+  const stored = sessionStorage.getItem(PASSKEY_ACCOUNT_KEY);
+  return stored ? JSON.parse(stored) : null;
+}
+
+export function signOutPasskey() {
+  sessionStorage.removeItem(PASSKEY_ACCOUNT_KEY);
+}
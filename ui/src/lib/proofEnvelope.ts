@@ -0,0 +1,189 @@
+// Versioned proof envelope and SessionDelegate calldata encoding
+import base64url from 'base64url';
+import { ethers } from 'ethers';
+import { CIRCUIT_VERSION, decodePublicInputs } from './circuitInputs';
+import { SESSION_DELEGATE_ABI } from './contracts';
+import { CIRCUIT_VERIFICATION_KEYS, pinnedVerificationKeyHash } from './noirVerifier';
+import type { ZKProof } from './zkProofs';
+
+export const PROOF_ENVELOPE_VERSION = 1;
+
+/**
+ * 회로 식별 정보와 함께 저장/전송하는 proof
+ * publicInputs는 회로 공개 입력 전체 (컨트랙트용 배열은 encodeContractPublicInputs로 변환)
+ */
+export interface ProofEnvelope {
+  version: number;
+  circuitId: string;
+  vkeyHash: string;
+  proof: string;          // 0x hex
+  publicInputs: string[]; // 0x hex field
+}
+
+/**
+ * SessionDelegate 공개 입력 순서: [challengeHash, pubKeyX, pubKeyY]
+ */
+export interface ContractPublicInputs {
+  challengeHash: string;
+  pubKeyX: bigint;
+  pubKeyY: bigint;
+}
+
+export type ProofFunctionName = 'registerDevice' | 'startSession' | 'execute';
+
+export interface DecodedProofCall {
+  functionName: ProofFunctionName;
+  proof: string;                  // UltraPlonk proof (0x hex)
+  circuitPublicInputs: string[];  // 회로 공개 입력 (bytes32 hex)
+  publicInputs: ContractPublicInputs;
+  args: ethers.Result;
+}
+
+const sessionDelegateInterface = new ethers.Interface(SESSION_DELEGATE_ABI);
+
+/**
+ * proof 생성 결과를 회로 버전의 circuitId / vkey 해시와 묶음
+ * vkeyHash를 생략하면 고정된 값 사용 (prover는 실제로 사용한 vkey의 해시를 넘김)
+ */
+export function createProofEnvelope(
+  proof: ZKProof,
+  circuitVersion: number = CIRCUIT_VERSION,
+  vkeyHash: string = pinnedVerificationKeyHash(circuitVersion)
+): ProofEnvelope {
+  return {
+    version: PROOF_ENVELOPE_VERSION,
+    circuitId: CIRCUIT_VERIFICATION_KEYS[circuitVersion].circuitId,
+    vkeyHash,
+    proof: ethers.hexlify(proof.proof),
+    publicInputs: proof.publicInputs
+  };
+}
+
+export function serializeProofEnvelope(envelope: ProofEnvelope): string {
+  return JSON.stringify(envelope);
+}
+
+export function parseProofEnvelope(json: string): ProofEnvelope {
+  const envelope = JSON.parse(json) as Partial<ProofEnvelope>;
+  if (envelope.version !== PROOF_ENVELOPE_VERSION) {
+    throw new Error(`지원하지 않는 proof envelope 버전입니다: ${String(envelope.version)}`);
+  }
+  if (typeof envelope.circuitId !== 'string' || typeof envelope.vkeyHash !== 'string') {
+    throw new Error('proof envelope에 circuitId / vkeyHash가 없습니다');
+  }
+  if (!ethers.isHexString(envelope.proof) || !Array.isArray(envelope.publicInputs)) {
+    throw new Error('proof envelope의 proof / publicInputs 형식이 올바르지 않습니다');
+  }
+  if (!envelope.publicInputs.every(input => ethers.isHexString(input))) {
+    throw new Error('publicInputs는 0x hex field 배열이어야 합니다');
+  }
+  return envelope as ProofEnvelope;
+}
+
+/**
+ * 회로 공개 입력에서 컨트랙트가 기대하는 [challengeHash, pubKeyX, pubKeyY] 추출
+ * challenge는 base64url(challengeHash) 이므로 32바이트로 되돌림
+ */
+export function encodeContractPublicInputs(envelope: ProofEnvelope): bigint[] {
+  const { challenge, pubKeyX, pubKeyY } = decodePublicInputs(envelope.publicInputs);
+  const challengeHash = ethers.hexlify(base64url.toBuffer(challenge));
+  if (ethers.dataLength(challengeHash) !== 32) {
+    throw new Error(`challenge가 32바이트 해시가 아닙니다 (${challenge})`);
+  }
+  return [BigInt(challengeHash), BigInt(pubKeyX), BigInt(pubKeyY)];
+}
+
+/**
+ * 컨트랙트의 proof 인자 = abi.encode(bytes proof, bytes32[] circuitPublicInputs)
+ * WebAuthnVerifier가 회로 공개 입력으로 UltraPlonk 검증 후 [challengeHash, pubKeyX, pubKeyY]와 대조
+ */
+export function encodeVerifierProof(envelope: ProofEnvelope): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode(
+    ['bytes', 'bytes32[]'],
+    [envelope.proof, envelope.publicInputs.map(input => ethers.zeroPadValue(input, 32))]
+  );
+}
+
+export function decodeVerifierProof(proof: string): { proof: string; publicInputs: string[] } {
+  const [rawProof, publicInputs] = ethers.AbiCoder.defaultAbiCoder().decode(['bytes', 'bytes32[]'], proof);
+  return { proof: rawProof, publicInputs: [...publicInputs] };
+}
+
+export function encodeRegisterDeviceCalldata(envelope: ProofEnvelope, deviceName: string): string {
+  return sessionDelegateInterface.encodeFunctionData('registerDevice', [
+    encodeVerifierProof(envelope),
+    encodeContractPublicInputs(envelope),
+    deviceName
+  ]);
+}
+
+export function encodeStartSessionCalldata(
+  envelope: ProofEnvelope,
+  session: {
+    walletSig: string;
+    sessionPubKeyX: bigint;
+    sessionPubKeyY: bigint;
+    ttl: bigint;
+    encryptedSessionKey: string; // bytes32
+  }
+): string {
+  return sessionDelegateInterface.encodeFunctionData('startSession', [
+    encodeVerifierProof(envelope),
+    encodeContractPublicInputs(envelope),
+    session.walletSig,
+    session.sessionPubKeyX,
+    session.sessionPubKeyY,
+    session.ttl,
+    session.encryptedSessionKey
+  ]);
+}
+
+export function encodeExecuteCalldata(
+  envelope: ProofEnvelope,
+  tx: {
+    data: string;
+    r: bigint;
+    s: bigint;
+    v: number;
+  }
+): string {
+  return sessionDelegateInterface.encodeFunctionData('execute', [
+    tx.data,
+    tx.r,
+    tx.s,
+    tx.v,
+    encodeVerifierProof(envelope),
+    encodeContractPublicInputs(envelope)
+  ]);
+}
+
+/**
+ * SessionDelegate calldata에서 proof와 공개 입력 읽기
+ */
+export function decodeProofFromCalldata(calldata: string): DecodedProofCall {
+  const parsed = sessionDelegateInterface.parseTransaction({ data: calldata });
+  if (!parsed || !['registerDevice', 'startSession', 'execute'].includes(parsed.name)) {
+    throw new Error('proof를 포함한 SessionDelegate 호출이 아닙니다');
+  }
+
+  const functionName = parsed.name as ProofFunctionName;
+  const [verifierProof, publicInputs] = functionName === 'execute'
+    ? [parsed.args.hardwareProof as string, parsed.args.hardwarePublicInputs as bigint[]]
+    : [parsed.args.proof as string, parsed.args.publicInputs as bigint[]];
+  if (publicInputs.length < 3) {
+    throw new Error(`공개 입력이 부족합니다 (${publicInputs.length})`);
+  }
+  const { proof, publicInputs: circuitPublicInputs } = decodeVerifierProof(verifierProof);
+
+  return {
+    functionName,
+    proof,
+    circuitPublicInputs,
+    publicInputs: {
+      challengeHash: ethers.toBeHex(publicInputs[0], 32),
+      pubKeyX: publicInputs[1],
+      pubKeyY: publicInputs[2]
+    },
+    args: parsed.args
+  };
+}
@@ -0,0 +1,87 @@
+// Client for the local proving service (noir-webauthn/prover/provingService.ts)
+import type { InputMap } from '@noir-lang/noir_js';
+import type { NoirProof, ProveOptions, ProvingStage } from './noirProver';
+
+/**
+ * 서비스가 보내는 SSE 이벤트 (progress / result / failed)
+ */
+interface ServiceProgressEvent {
+  stage: ProvingStage;
+  position?: number;
+}
+
+function abortError() {
+  return new DOMException('Proof generation was cancelled', 'AbortError');
+}
+
+/**
+ * 증명 서비스에 작업 등록 후 SSE로 진행 상황을 받아 proof 반환
+ */
+export async function proveWithService(
+  serviceUrl: string,
+  inputs: InputMap,
+  options: ProveOptions = {}
+): Promise<NoirProof> {
+  const { onProgress, signal } = options;
+  const baseUrl = serviceUrl.replace(/\/$/, '');
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/jobs`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ inputs }),
+      signal
+    });
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') throw error;
+    throw new Error(`증명 서비스에 연결할 수 없습니다 (${baseUrl}) - 서비스가 실행 중인지 확인하세요`);
+  }
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error('증명 서비스 요청 실패: ' + body.error);
+  }
+  const jobUrl = `${baseUrl}/jobs/${body.id}`;
+
+  return new Promise((resolve, reject) => {
+    const events = new EventSource(`${jobUrl}/events`);
+
+    const finish = () => {
+      events.close();
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    // 실행 중인 작업은 서버에서 중단할 수 없으므로 취소 표시 후 결과를 버림
+    const onAbort = () => {
+      finish();
+      fetch(jobUrl, { method: 'DELETE' }).catch(() => undefined);
+      reject(abortError());
+    };
+
+    events.addEventListener('progress', event => {
+      const { stage } = JSON.parse((event as MessageEvent).data) as ServiceProgressEvent;
+      onProgress?.(stage);
+    });
+    events.addEventListener('result', event => {
+      finish();
+      resolve(JSON.parse((event as MessageEvent).data) as NoirProof);
+    });
+    events.addEventListener('failed', event => {
+      finish();
+      reject(new Error('ZK Proof 생성 실패: ' + JSON.parse((event as MessageEvent).data).message));
+    });
+    events.onerror = () => {
+      // EventSource는 연결이 끊기면 자동 재연결, 완전히 닫힌 경우만 실패 처리
+      if (events.readyState === EventSource.CLOSED) {
+        finish();
+        reject(new Error('증명 서비스 연결이 끊어졌습니다'));
+      }
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort);
+  });
+}
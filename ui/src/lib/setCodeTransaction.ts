@@ -0,0 +1,268 @@
+// EIP-7702 set-code (type 4) transactions: build, sign, serialize / parse, broadcast and confirm delegation
+import { ethers } from 'ethers';
+import type { PublicClient } from 'viem';
+import {
+  recoverEip7702Authority,
+  toSigningKey,
+  type Eip7702LocalSigner,
+  type SignedEip7702Authorization
+} from './eip7702';
+
+export const SET_CODE_TX_TYPE = 4;
+
+/**
+ * delegate된 EOA의 code = 0xef0100 || delegate 주소 (23바이트)
+ */
+export const DELEGATION_PREFIX = '0xef0100';
+const DELEGATION_CODE_LEN = 23;
+
+export interface SetCodeTransactionRequest {
+  chainId: bigint;
+  nonce: bigint;
+  to: string;               // 스펙상 contract 생성(to = null) 불가
+  value?: bigint;
+  data?: string;
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  authorizationList: SignedEip7702Authorization[];
+}
+
+export interface ParsedSetCodeTransaction {
+  hash: string | null;
+  from: string | null;      // 서명된 트랜잭션이면 sender
+  chainId: bigint;
+  nonce: bigint;
+  to: string;
+  value: bigint;
+  data: string;
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  authorizationList: Array<SignedEip7702Authorization & { authority: string | null }>;
+}
+
+export interface AuthorityDelegation {
+  authority: string;
+  code: string;
+  delegate: string | null;  // 트랜잭션 이후 EOA가 delegate하는 주소
+}
+
+export interface SetCodeBroadcastResult {
+  txHash: string;
+  blockNumber: bigint;
+  status: 'success' | 'reverted';
+  delegations: AuthorityDelegation[];
+}
+
+function toEthersAuthorization(auth: SignedEip7702Authorization): ethers.Authorization {
+  return {
+    chainId: auth.chainId,
+    address: auth.address,
+    nonce: auth.nonce,
+    signature: ethers.Signature.from({ r: auth.r, s: auth.s, yParity: auth.yParity })
+  };
+}
+
+function fromEthersAuthorization(auth: ethers.Authorization): SignedEip7702Authorization {
+  return {
+    chainId: auth.chainId,
+    address: ethers.getAddress(auth.address),
+    nonce: auth.nonce,
+    yParity: auth.signature.yParity,
+    r: auth.signature.r,
+    s: auth.signature.s
+  };
+}
+
+function safeAuthority(auth: SignedEip7702Authorization): string | null {
+  try {
+    return recoverEip7702Authority(auth);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * sender가 authority이기도 한 authorization의 nonce 확인
+ * sender nonce가 먼저 증가하고, 적용된 authorization마다 authority nonce가 1씩 증가하므로
+ * 첫 authorization은 tx nonce + 1, 다음은 + 2 ... 이어야 함
+ */
+export function assertSenderAuthorizationNonces(
+  sender: string,
+  txNonce: bigint,
+  authorizationList: SignedEip7702Authorization[]
+) {
+  let expectedNonce = txNonce + BigInt(1);
+  for (const auth of authorizationList) {
+    if (safeAuthority(auth) !== ethers.getAddress(sender)) continue;
+    if (auth.nonce !== expectedNonce) {
+      throw new Error(`sender가 서명한 authorization nonce는 ${expectedNonce}여야 합니다 (현재 ${auth.nonce})`);
+    }
+    expectedNonce++;
+  }
+}
+
+/**
+ * 서명 전 type 4 트랜잭션 생성
+ */
+export function buildSetCodeTransaction(request: SetCodeTransactionRequest): ethers.Transaction {
+  if (request.authorizationList.length === 0) {
+    throw new Error('set-code 트랜잭션에는 authorization이 하나 이상 필요합니다');
+  }
+  if (!ethers.isAddress(request.to)) {
+    throw new Error(`set-code 트랜잭션의 to 주소가 올바르지 않습니다: ${request.to}`);
+  }
+
+  return ethers.Transaction.from({
+    type: SET_CODE_TX_TYPE,
+    chainId: request.chainId,
+    nonce: Number(request.nonce),
+    to: ethers.getAddress(request.to),
+    value: request.value ?? BigInt(0),
+    data: request.data ?? '0x',
+    gasLimit: request.gasLimit,
+    maxFeePerGas: request.maxFeePerGas,
+    maxPriorityFeePerGas: request.maxPriorityFeePerGas,
+    accessList: [],
+    authorizationList: request.authorizationList.map(toEthersAuthorization)
+  });
+}
+
+/**
+ * 로컬 키로 서명 → 0x04 || rlp([...]) 직렬화
+ */
+export function signSetCodeTransaction(tx: ethers.Transaction, signer: Eip7702LocalSigner): string {
+  const signingKey = toSigningKey(signer);
+  const sender = ethers.computeAddress(signingKey.publicKey);
+  assertSenderAuthorizationNonces(sender, BigInt(tx.nonce), tx.authorizationList!.map(fromEthersAuthorization));
+
+  const signed = tx.clone();
+  signed.signature = signingKey.sign(tx.unsignedHash);
+  return signed.serialized;
+}
+
+export function parseSetCodeTransaction(serialized: string): ParsedSetCodeTransaction {
+  const tx = ethers.Transaction.from(serialized);
+  if (tx.type !== SET_CODE_TX_TYPE || !tx.authorizationList || tx.to === null) {
+    throw new Error(`type 4 set-code 트랜잭션이 아닙니다 (type ${tx.type})`);
+  }
+
+  return {
+    hash: tx.signature ? tx.hash : null,
+    from: tx.signature ? tx.from : null,
+    chainId: tx.chainId,
+    nonce: BigInt(tx.nonce),
+    to: tx.to,
+    value: tx.value,
+    data: tx.data,
+    gasLimit: tx.gasLimit,
+    maxFeePerGas: tx.maxFeePerGas ?? BigInt(0),
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas ?? BigInt(0),
+    authorizationList: tx.authorizationList.map(auth => {
+      const signedAuth = fromEthersAuthorization(auth);
+      return { ...signedAuth, authority: safeAuthority(signedAuth) };
+    })
+  };
+}
+
+export function delegationCode(delegate: string): string {
+  return ethers.concat([DELEGATION_PREFIX, ethers.getAddress(delegate)]).toLowerCase();
+}
+
+/**
+ * EOA code에서 delegate 주소 추출 (delegation이 아니면 null)
+ */
+export function parseDelegationCode(code: string | undefined | null): string | null {
+  if (!code || code === '0x' || ethers.dataLength(code) !== DELEGATION_CODE_LEN) {
+    return null;
+  }
+  if (ethers.dataSlice(code, 0, 3).toLowerCase() !== DELEGATION_PREFIX) {
+    return null;
+  }
+  return ethers.getAddress(ethers.dataSlice(code, 3));
+}
+
+export type SetCodeTransactionFields = Omit<SetCodeTransactionRequest, 'authorizationList'>;
+
+/**
+ * nonce / 수수료 / gas 조회 - authority가 sender이면 반환된 nonce + 1로 authorization 서명 후 buildSetCodeTransaction
+ * authorization 처리 비용(PER_EMPTY_ACCOUNT_COST 25000 / authorization)은 estimateGas에 포함되지 않아 더해줌
+ */
+export async function prepareSetCodeTransaction(
+  publicClient: PublicClient,
+  params: {
+    from: string;
+    to: string;
+    data?: string;
+    value?: bigint;
+    authorizationCount?: number;
+  }
+): Promise<SetCodeTransactionFields> {
+  const from = ethers.getAddress(params.from) as `0x${string}`;
+  const [chainId, nonce, fees, estimatedGas] = await Promise.all([
+    publicClient.getChainId(),
+    publicClient.getTransactionCount({ address: from, blockTag: 'pending' }),
+    publicClient.estimateFeesPerGas(),
+    publicClient.estimateGas({
+      account: from,
+      to: ethers.getAddress(params.to) as `0x${string}`,
+      data: (params.data ?? '0x') as `0x${string}`,
+      value: params.value ?? BigInt(0)
+    })
+  ]);
+
+  return {
+    chainId: BigInt(chainId),
+    nonce: BigInt(nonce),
+    to: params.to,
+    value: params.value,
+    data: params.data,
+    gasLimit: estimatedGas + BigInt(25000) * BigInt(params.authorizationCount ?? 1),
+    maxFeePerGas: fees.maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas
+  };
+}
+
+/**
+ * 서명된 트랜잭션 전송 → receipt 대기 → authority code가 0xef0100 || delegate 인지 확인
+ */
+export async function broadcastSetCodeTransaction(
+  publicClient: PublicClient,
+  serialized: string
+): Promise<SetCodeBroadcastResult> {
+  const parsed = parseSetCodeTransaction(serialized);
+  if (!parsed.from) {
+    throw new Error('서명되지 않은 set-code 트랜잭션은 전송할 수 없습니다');
+  }
+
+  const txHash = await publicClient.sendRawTransaction({
+    serializedTransaction: serialized as `0x${string}`
+  });
+  const authorities = parsed.authorizationList.flatMap(auth => auth.authority ? [auth.authority] : []);
+  return waitForDelegation(publicClient, txHash, authorities);
+}
+
+/**
+ * receipt 대기 후 authority별 code 확인
+ * 유효하지 않은 authorization은 노드가 건너뛰므로 트랜잭션 성공만으로는 delegation을 보장하지 않음
+ */
+export async function waitForDelegation(
+  publicClient: PublicClient,
+  txHash: string,
+  authorities: string[]
+): Promise<SetCodeBroadcastResult> {
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash as `0x${string}` });
+  const uniqueAuthorities = [...new Set(authorities.map(authority => ethers.getAddress(authority)))];
+  const delegations = await Promise.all(uniqueAuthorities.map(async authority => {
+    const code = (await publicClient.getCode({ address: authority as `0x${string}` })) ?? '0x';
+    return { authority, code, delegate: parseDelegationCode(code) };
+  }));
+
+  return {
+    txHash,
+    blockNumber: receipt.blockNumber,
+    status: receipt.status,
+    delegations
+  };
+}
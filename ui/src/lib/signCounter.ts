@@ -0,0 +1,137 @@
+// Sign counter tracking and cloned-authenticator detection per device
+import type { AuthenticationResponseJSON } from '@simplewebauthn/types';
+import base64url from 'base64url';
+import { parseAuthenticatorData } from './webauthn';
+
+/**
+ * 디바이스별로 보관하는 서명 카운터 기록 최대 개수
+ */
+const MAX_HISTORY_ENTRIES = 50;
+
+export interface SignCountEvent {
+  signCount: number;
+  observedAt: string;
+  source: 'registration' | 'assertion';
+  regression: boolean; // 이전 값보다 작거나 같음 → 복제 의심
+}
+
+/**
+ * localStorage(devices_${userAddress})에 저장되는 디바이스 중 카운터 관련 필드
+ */
+export interface SignCountedDevice {
+  id: string;
+  credentialId: string;
+  isActive: boolean;
+  signCount?: number;
+  signCountHistory?: SignCountEvent[];
+  cloneSuspected?: boolean;
+}
+
+export interface SignCounterPolicy {
+  autoDeactivate: boolean;
+}
+
+export interface SignCountCheckResult {
+  deviceId: string;
+  previousSignCount: number;
+  signCount: number;
+  cloneSuspected: boolean;
+  deactivated: boolean;
+}
+
+/**
+ * 카운터 비교 (WebAuthn §7.2 step 21)
+ * 둘 다 0이면 카운터를 지원하지 않는 인증기(동기화 패스키 등)이므로 통과
+ */
+export function isSignCountRegression(previous: number, received: number): boolean {
+  if (previous === 0 && received === 0) return false;
+  return received <= previous;
+}
+
+export function getSignCounterPolicy(userAddress: string): SignCounterPolicy {
+  return JSON.parse(
+    localStorage.getItem(`signCounterPolicy_${userAddress}`) || '{"autoDeactivate":false}'
+  );
+}
+
+export function setSignCounterPolicy(userAddress: string, policy: SignCounterPolicy) {
+  localStorage.setItem(`signCounterPolicy_${userAddress}`, JSON.stringify(policy));
+}
+
+function appendHistory(device: SignCountedDevice, event: SignCountEvent): SignCountEvent[] {
+  return [...(device.signCountHistory ?? []), event].slice(-MAX_HISTORY_ENTRIES);
+}
+
+/**
+ * 등록 시점의 초기 카운터 필드 생성
+ */
+export function initialSignCountFields(signCount: number): Pick<SignCountedDevice, 'signCount' | 'signCountHistory' | 'cloneSuspected'> {
+  return {
+    signCount,
+    signCountHistory: [{
+      signCount,
+      observedAt: new Date().toISOString(),
+      source: 'registration',
+      regression: false,
+    }],
+    cloneSuspected: false,
+  };
+}
+
+/**
+ * 인증 응답의 signCount를 기록하고 복제 여부 확인
+ * 등록되지 않은 credential이면 null
+ * 비활성화된 디바이스, 정책에 따라 자동 비활성화된 경우, 이미 복제 의심된 디바이스의 재역행은 에러
+ */
+export function trackAssertionSignCount(
+  userAddress: string,
+  response: AuthenticationResponseJSON
+): SignCountCheckResult | null {
+  const devices: SignCountedDevice[] = JSON.parse(localStorage.getItem(`devices_${userAddress}`) || '[]');
+  const index = devices.findIndex(device => device.credentialId === response.id);
+  if (index === -1) return null;
+
+  const device = devices[index];
+  const { signCount } = parseAuthenticatorData(
+    new Uint8Array(base64url.toBuffer(response.response.authenticatorData))
+  );
+  const previousSignCount = device.signCount ?? 0;
+  const regression = isSignCountRegression(previousSignCount, signCount);
+  const deactivated = regression && device.isActive && getSignCounterPolicy(userAddress).autoDeactivate;
+  // 복제 의심으로 남겨둔 디바이스가 다시 역행하면 정책과 관계없이 거부
+  const repeatedRegression = regression && !!device.cloneSuspected;
+
+  devices[index] = {
+    ...device,
+    // 역행한 값으로 덮어쓰지 않아야 이후 복제본도 계속 감지됨
+    signCount: Math.max(previousSignCount, signCount),
+    signCountHistory: appendHistory(device, {
+      signCount,
+      observedAt: new Date().toISOString(),
+      source: 'assertion',
+      regression,
+    }),
+    cloneSuspected: device.cloneSuspected || regression,
+    isActive: deactivated ? false : device.isActive,
+  };
+  localStorage.setItem(`devices_${userAddress}`, JSON.stringify(devices));
+
+  const result = { deviceId: device.id, previousSignCount, signCount, cloneSuspected: regression, deactivated };
+  if (regression) {
+    console.warn('⚠️ 서명 카운터 역행 감지 (복제된 인증기 의심):', result);
+  }
+  if (!device.isActive) {
+    throw new Error('비활성화된 디바이스의 서명은 사용할 수 없습니다');
+  }
+  if (deactivated) {
+    throw new Error(
+      `서명 카운터 역행이 감지되어 디바이스를 비활성화했습니다 (${previousSignCount} → ${signCount})`
+    );
+  }
+  if (repeatedRegression) {
+    throw new Error(
+      `복제 의심 디바이스에서 서명 카운터가 다시 역행했습니다 (${previousSignCount} → ${signCount})`
+    );
+  }
+  return result;
+}
@@ -0,0 +1,188 @@
+// Storage-layout collision checks between EIP-7702 delegates (Foundry `forge inspect <Contract> storageLayout --json`)
+
+/**
+ * 생성된 레이아웃 파일 (noir-webauthn/prover/checkStorageLayout.ts → ui/public/storage-layouts.json)
+ */
+export const STORAGE_LAYOUTS_PATH = '/storage-layouts.json';
+
+export interface StorageLayoutEntry {
+  astId?: number;
+  contract: string;
+  label: string;
+  offset: number;
+  slot: string;
+  type: string;
+}
+
+export interface StorageLayoutType {
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes';
+  label: string;
+  numberOfBytes: string;
+  key?: string;
+  value?: string;
+  base?: string;
+  members?: StorageLayoutEntry[];
+}
+
+/**
+ * Foundry / solc storageLayout 출력 형식
+ */
+export interface FoundryStorageLayout {
+  storage: StorageLayoutEntry[];
+  types: Record<string, StorageLayoutType> | null;
+}
+
+/**
+ * delegate 이름(KNOWN_DELEGATES의 name) → 레이아웃
+ */
+export type DelegateStorageLayouts = Record<string, FoundryStorageLayout>;
+
+export type StorageCollisionKind =
+  | 'type-conflict'  // 같은 시작 위치, 다른 타입
+  | 'overlap'        // 시작 위치가 다른 변수의 바이트 범위와 겹침 (packing 변경)
+  | 'renamed';       // 같은 위치, 같은 타입, 다른 변수 이름
+
+export interface StorageCollision {
+  kind: StorageCollisionKind;
+  severity: 'error' | 'warning';
+  slot: string;
+  offset: number;
+  from: { label: string; type: string; slot: string; offset: number };
+  to: { label: string; type: string; slot: string; offset: number };
+}
+
+export interface StorageLayoutComparison {
+  from: string;
+  to: string;
+  collisions: StorageCollision[];
+}
+
+/**
+ * 타입 id에는 AST id가 들어가므로 (t_struct(Session)123_storage) 구조로 정규화해서 비교
+ * 구조체는 이름이 아니라 멤버 레이아웃으로 비교 (SessionDelegate.Session vs DeviceManager.Session)
+ */
+export function canonicalStorageType(layout: FoundryStorageLayout, typeId: string): string {
+  const type = layout.types?.[typeId];
+  if (!type) {
+    return typeId;
+  }
+  switch (type.encoding) {
+    case 'mapping':
+      return `mapping(${canonicalStorageType(layout, type.key!)} => ${canonicalStorageType(layout, type.value!)})`;
+    case 'dynamic_array':
+      return `${canonicalStorageType(layout, type.base!)}[]`;
+    case 'bytes':
+      return type.label;
+  }
+  if (type.members) {
+    const members = type.members.map(member =>
+      `${member.slot}:${member.offset}:${canonicalStorageType(layout, member.type)}`
+    );
+    return `struct{${members.join(',')}}`;
+  }
+  if (type.base) {
+    // 고정 길이 배열 - 길이는 numberOfBytes로 구분
+    return `${canonicalStorageType(layout, type.base)}[${type.numberOfBytes}B]`;
+  }
+  return type.label;
+}
+
+function byteRange(layout: FoundryStorageLayout, entry: StorageLayoutEntry): [bigint, bigint] {
+  const start = BigInt(entry.slot) * BigInt(32) + BigInt(entry.offset);
+  const size = BigInt(layout.types?.[entry.type]?.numberOfBytes ?? '32');
+  return [start, start + size];
+}
+
+function describeEntry(layout: FoundryStorageLayout, entry: StorageLayoutEntry) {
+  return {
+    label: entry.label,
+    type: layout.types?.[entry.type]?.label ?? entry.type,
+    slot: entry.slot,
+    offset: entry.offset
+  };
+}
+
+/**
+ * from delegate에서 to delegate로 바꿀 때 겹치는 storage 변수
+ * 같은 위치 / 같은 타입 / 같은 이름이면 호환으로 보고 제외
+ * mapping / 동적 배열은 base slot(32바이트)만 비교 - 실제 값은 keccak 위치에 있어 base slot이 같으면 같은 데이터를 읽음
+ */
+export function compareStorageLayouts(
+  from: FoundryStorageLayout,
+  to: FoundryStorageLayout
+): StorageCollision[] {
+  const collisions: StorageCollision[] = [];
+
+  for (const previous of from.storage) {
+    const [previousStart, previousEnd] = byteRange(from, previous);
+    for (const next of to.storage) {
+      const [nextStart, nextEnd] = byteRange(to, next);
+      if (nextStart >= previousEnd || previousStart >= nextEnd) {
+        continue;
+      }
+
+      const sameType = canonicalStorageType(from, previous.type) === canonicalStorageType(to, next.type);
+      let kind: StorageCollisionKind;
+      if (previousStart !== nextStart) {
+        kind = 'overlap';
+      } else if (!sameType) {
+        kind = 'type-conflict';
+      } else if (previous.label !== next.label) {
+        kind = 'renamed';
+      } else {
+        continue;
+      }
+
+      collisions.push({
+        kind,
+        severity: kind === 'renamed' ? 'warning' : 'error',
+        slot: next.slot,
+        offset: next.offset,
+        from: describeEntry(from, previous),
+        to: describeEntry(to, next)
+      });
+    }
+  }
+
+  return collisions;
+}
+
+/**
+ * 모든 delegate 쌍 비교 (이름 순서대로 from → to)
+ */
+export function compareAllStorageLayouts(layouts: DelegateStorageLayouts): StorageLayoutComparison[] {
+  const names = Object.keys(layouts).sort();
+  return names.flatMap((from, i) => names.slice(i + 1).map(to => ({
+    from,
+    to,
+    collisions: compareStorageLayouts(layouts[from], layouts[to])
+  })));
+}
+
+export function hasStorageConflict(collisions: StorageCollision[]): boolean {
+  return collisions.some(collision => collision.severity === 'error');
+}
+
+export function formatStorageCollision(collision: StorageCollision): string {
+  const from = `${collision.from.label} (${collision.from.type}, slot ${collision.from.slot}+${collision.from.offset})`;
+  const to = `${collision.to.label} (${collision.to.type}, slot ${collision.to.slot}+${collision.to.offset})`;
+  switch (collision.kind) {
+    case 'type-conflict':
+      return `slot ${collision.slot}: ${from} 값을 ${to}로 다른 타입으로 읽습니다`;
+    case 'overlap':
+      return `slot ${collision.slot}: ${from}와 ${to}의 바이트 범위가 겹칩니다`;
+    case 'renamed':
+      return `slot ${collision.slot}: ${from} 값을 같은 타입의 ${to}로 읽습니다 (의미가 같은지 확인)`;
+  }
+}
+
+/**
+ * 생성된 레이아웃 로드 - 파일이 없으면 null (noir-webauthn/prover에서 npm run storage-layout 실행)
+ */
+export async function loadDelegateStorageLayouts(): Promise<DelegateStorageLayouts | null> {
+  const response = await fetch(STORAGE_LAYOUTS_PATH);
+  if (!response.ok) {
+    return null;
+  }
+  return response.json();
+}
@@ -1,26 +1,66 @@
-import { startRegistration, startAuthentication } from '@simplewebauthn/browser';
+import { startRegistration, startAuthentication, browserSupportsWebAuthnAutofill } from '@simplewebauthn/browser';
 import type { 
   RegistrationResponseJSON, 
   AuthenticationResponseJSON,
+  AuthenticatorAttachment,
+  AuthenticatorTransportFuture,
   PublicKeyCredentialCreationOptionsJSON,
   PublicKeyCredentialRequestOptionsJSON
 } from '@simplewebauthn/types';
-import { decode as cborDecode } from 'cbor-x';
+import { decode as cborDecode, Decoder as CborDecoder } from 'cbor-x';
 import base64url from 'base64url';
+import { parseClientDataJSON, verifyClientData, toContractClientData } from './clientData';
+
+/**
+ * COSE 알고리즘 식별자 (IANA COSE Algorithms)
+ */
+export const COSE_ALG = {
+  ES256: -7,
+  RS256: -257,
+} as const;
+
+/**
+ * 현재 설정된 RP ID (브라우저 hostname)
+ */
+export function getRpId(): string {
+  return typeof window !== 'undefined' ? window.location.hostname : 'localhost';
+}
+
+/**
+ * 등록할 인증기 종류
+ * platform: Touch ID/Windows Hello, cross-platform: USB/NFC 보안키(YubiKey 등), hybrid: 휴대폰을 인증기로 사용(QR/BLE)
+ */
+export type AuthenticatorMode = 'platform' | 'cross-platform' | 'hybrid';
+
+/**
+ * WebAuthn L3 hints (@simplewebauthn/types에 아직 정의되지 않음)
+ */
+type PublicKeyCredentialHint = 'security-key' | 'client-device' | 'hybrid';
+
+const AUTHENTICATOR_MODE_OPTIONS: Record<AuthenticatorMode, {
+  attachment: AuthenticatorAttachment;
+  hints: PublicKeyCredentialHint[];
+}> = {
+  'platform': { attachment: 'platform', hints: ['client-device'] },
+  'cross-platform': { attachment: 'cross-platform', hints: ['security-key'] },
+  'hybrid': { attachment: 'cross-platform', hints: ['hybrid'] },
+};
 
 /**
  * WebAuthn 등록을 위한 옵션 생성
  */
 export function generateRegistrationOptions(
   userAddress: string,
-  deviceName: string
-): PublicKeyCredentialCreationOptionsJSON {
+  deviceName: string,
+  mode: AuthenticatorMode = 'platform'
+): PublicKeyCredentialCreationOptionsJSON & { hints?: PublicKeyCredentialHint[] } {
+  const { attachment, hints } = AUTHENTICATOR_MODE_OPTIONS[mode];
   const challenge = crypto.getRandomValues(new Uint8Array(32));
   
   return {
     rp: {
       name: 'Device Manager 7702',
-      id: typeof window !== 'undefined' ? window.location.hostname : 'localhost',
+      id: getRpId(),
     },
     user: {
       id: base64url.encode(userAddress),
@@ -29,32 +69,45 @@ export function generateRegistrationOptions(
     },
     challenge: base64url.encode(Buffer.from(challenge)),
     pubKeyCredParams: [
-      { alg: -7, type: 'public-key' }, // ES256
-      { alg: -257, type: 'public-key' }, // RS256
+      // 컨트랙트/Noir 회로는 P-256만 검증하므로 ES256만 요청 (RS256 미지원)
+      { alg: COSE_ALG.ES256, type: 'public-key' },
     ],
     timeout: 60000,
     attestation: 'direct',
+    hints,
     authenticatorSelection: {
-      authenticatorAttachment: 'platform',
+      authenticatorAttachment: attachment,
       userVerification: 'required',
+      // userHandle(EOA)로 로그인하려면 discoverable credential이어야 하지만
+      // U2F 전용 / 구형 보안 키도 등록할 수 있도록 required가 아닌 preferred (그런 키는 지갑 연결 후 사용)
       residentKey: 'preferred',
     },
+    // PRF(hmac-secret) 활성화 요청 - 세션 키 암호화 키 유도에 사용
+    extensions: { prf: {} } as PublicKeyCredentialCreationOptionsJSON['extensions'],
   };
 }
 
 /**
  * WebAuthn 인증을 위한 옵션 생성
+ * challenge를 지정하지 않으면 32바이트 난수를 사용 (액션 바인딩 챌린지는 challenge.ts 참고)
  */
 export function generateAuthenticationOptions(
-  allowCredentials?: Array<{ id: string; type: 'public-key' }>
+  allowCredentials?: Array<{ id: string; type: 'public-key'; transports?: AuthenticatorTransportFuture[] }>,
+  challenge?: string,
+  prfSalt?: string
 ): PublicKeyCredentialRequestOptionsJSON {
-  const challenge = crypto.getRandomValues(new Uint8Array(32));
-  
   return {
-    challenge: base64url.encode(Buffer.from(challenge)),
+    challenge: challenge ?? base64url.encode(Buffer.from(crypto.getRandomValues(new Uint8Array(32)))),
+    rpId: getRpId(),
     timeout: 60000,
     userVerification: 'required',
     allowCredentials: allowCredentials || [],
+    // PRF 입력은 BufferSource여야 하며 @simplewebauthn/browser는 extensions를 그대로 전달
+    ...(prfSalt && {
+      extensions: {
+        prf: { eval: { first: new Uint8Array(base64url.toBuffer(prfSalt)) } },
+      } as PublicKeyCredentialRequestOptionsJSON['extensions'],
+    }),
   };
 }
 
@@ -63,11 +116,19 @@ export function generateAuthenticationOptions(
  */
 export async function registerWebAuthnDevice(
   userAddress: string,
-  deviceName: string
+  deviceName: string,
+  mode: AuthenticatorMode = 'platform'
 ): Promise<RegistrationResponseJSON> {
   try {
-    const options = generateRegistrationOptions(userAddress, deviceName);
+    const options = generateRegistrationOptions(userAddress, deviceName, mode);
     const response = await startRegistration({ optionsJSON: options });
+    verifyClientData(parseClientDataJSON(response.response.clientDataJSON), {
+      type: 'webauthn.create',
+      challenge: options.challenge,
+      origin: window.location.origin,
+    });
+    const { authData } = cborDecode(base64url.toBuffer(response.response.attestationObject));
+    await verifyAuthenticatorData(new Uint8Array(authData));
     return response;
   } catch (error) {
     console.error('WebAuthn registration failed:', error);
@@ -77,18 +138,24 @@ export async function registerWebAuthnDevice(
 
 /**
  * WebAuthn 인증 시작
+ * transports는 등록 시 기록한 값 - 브라우저가 USB/NFC/hybrid 중 어떤 경로를 띄울지 결정하는 데 사용
  */
 export async function authenticateWebAuthn(
-  credentialId?: string
+  credentialId?: string,
+  challenge?: string,
+  prfSalt?: string,
+  transports?: AuthenticatorTransportFuture[]
 ): Promise<AuthenticationResponseJSON> {
   try {
     const allowCredentials = credentialId ? [{
       id: credentialId,
       type: 'public-key' as const,
+      ...(transports && transports.length > 0 && { transports }),
     }] : undefined;
     
-    const options = generateAuthenticationOptions(allowCredentials);
+    const options = generateAuthenticationOptions(allowCredentials, challenge, prfSalt);
     const response = await startAuthentication({ optionsJSON: options });
+    await verifyAssertionResponse(response, options.challenge);
     return response;
   } catch (error) {
     console.error('WebAuthn authentication failed:', error);
@@ -96,49 +163,549 @@ export async function authenticateWebAuthn(
   }
 }
 
+/**
+ * Discoverable credential(패스키) 인증 - allowCredentials 없이 인증기가 계정을 선택
+ * useBrowserAutofill이면 conditional UI: autocomplete="username webauthn" 입력란의 자동완성 목록에서 선택
+ * userHandle이 없는 응답도 그대로 반환 (호출 측에서 지갑 연결로 안내)
+ */
+export async function authenticateDiscoverable(
+  useBrowserAutofill: boolean = false
+): Promise<AuthenticationResponseJSON> {
+  const options = generateAuthenticationOptions();
+  const response = await startAuthentication({ optionsJSON: options, useBrowserAutofill });
+  await verifyAssertionResponse(response, options.challenge);
+  return response;
+}
+
+/**
+ * 브라우저가 conditional UI(패스키 자동완성)를 지원하는지 확인
+ */
+export async function isConditionalMediationAvailable(): Promise<boolean> {
+  if (!isWebAuthnSupported()) return false;
+  try {
+    return await browserSupportsWebAuthnAutofill();
+  } catch (error) {
+    console.error('Conditional mediation check failed:', error);
+    return false;
+  }
+}
+
+async function verifyAssertionResponse(response: AuthenticationResponseJSON, challenge: string) {
+  verifyClientData(parseClientDataJSON(response.response.clientDataJSON), {
+    type: 'webauthn.get',
+    challenge,
+    origin: window.location.origin,
+  });
+  await verifyAuthenticatorData(new Uint8Array(base64url.toBuffer(response.response.authenticatorData)));
+}
+
+/**
+ * 등록 응답에서 실제 사용된 인증기 연결 방식과 transport 확인
+ */
+export function getAuthenticatorTransportInfo(response: RegistrationResponseJSON): {
+  attachment?: AuthenticatorAttachment;
+  transports: AuthenticatorTransportFuture[];
+} {
+  return {
+    attachment: response.authenticatorAttachment,
+    transports: response.response.transports ?? [],
+  };
+}
+
+/**
+ * PRF 확장 출력 (@simplewebauthn/types에 아직 정의되지 않음)
+ */
+interface PrfExtensionOutputs {
+  prf?: {
+    enabled?: boolean;
+    results?: { first?: ArrayBuffer | Uint8Array | string };
+  };
+}
+
+/**
+ * 브라우저가 PRF 확장을 지원하는지 확인 (WebAuthn L3 getClientCapabilities)
+ * capability를 알 수 없는 브라우저는 false - 실제 지원 여부는 인증 응답에서 다시 확인
+ */
+export async function isPrfSupported(): Promise<boolean> {
+  if (!isWebAuthnSupported()) return false;
+  const getClientCapabilities = (PublicKeyCredential as unknown as {
+    getClientCapabilities?: () => Promise<Record<string, boolean>>;
+  }).getClientCapabilities;
+  if (!getClientCapabilities) return false;
+
+  try {
+    const capabilities = await getClientCapabilities();
+    return capabilities['extension:prf'] === true;
+  } catch (error) {
+    console.error('PRF capability check failed:', error);
+    return false;
+  }
+}
+
+/**
+ * 등록 응답에서 credential의 PRF 활성화 여부 확인
+ */
+export function isPrfEnabled(response: RegistrationResponseJSON): boolean {
+  return (response.clientExtensionResults as PrfExtensionOutputs).prf?.enabled === true;
+}
+
+/**
+ * 세션별 고정 PRF salt 생성 (base64url, 32바이트)
+ */
+export function generatePrfSalt(): string {
+  return base64url.encode(Buffer.from(crypto.getRandomValues(new Uint8Array(32))));
+}
+
+/**
+ * 인증 응답에서 PRF 출력(32바이트) 추출 - 지원하지 않는 인증기면 null
+ * 같은 credential + 같은 salt면 항상 같은 값이므로 암호화 키 유도에 사용 가능
+ */
+export function getPrfOutput(response: AuthenticationResponseJSON): string | null {
+  const first = (response.clientExtensionResults as PrfExtensionOutputs).prf?.results?.first;
+  if (!first) return null;
+  const bytes = typeof first === 'string'
+    ? base64url.toBuffer(first)
+    : Buffer.from(first instanceof Uint8Array ? first : new Uint8Array(first));
+  return '0x' + bytes.toString('hex');
+}
+
 /**
  * WebAuthn 응답을 스마트 컨트랙트에서 사용할 수 있는 형태로 변환
  */
 export function formatWebAuthnForContract(response: AuthenticationResponseJSON) {
-  const clientDataJSON = base64url.decode(response.response.clientDataJSON);
-  const authenticatorData = base64url.decode(response.response.authenticatorData);
-  const signature = base64url.decode(response.response.signature);
+  const clientData = toContractClientData(parseClientDataJSON(response.response.clientDataJSON));
+  const authenticatorData = base64url.toBuffer(response.response.authenticatorData);
+  const signature = base64url.toBuffer(response.response.signature);
+  const { r, s } = derToRawSignature(new Uint8Array(signature));
   
   return {
     credentialId: response.id,
-    clientDataJSON: '0x' + Buffer.from(clientDataJSON).toString('hex'),
+    clientDataJSON: clientData.clientData,
+    clientChallenge: clientData.clientChallenge,
+    clientChallengeOffset: clientData.clientChallengeOffset,
+    typeOffset: clientData.typeOffset,
     authenticatorData: '0x' + Buffer.from(authenticatorData).toString('hex'),
     signature: '0x' + Buffer.from(signature).toString('hex'),
+    r,
+    s,
   };
 }
 
+/**
+ * COSE_Key 파라미터 라벨 (RFC 8152 §7, §13.1.1)
+ */
+const COSE_KEY = {
+  KTY: 1,
+  ALG: 3,
+  CRV: -1,
+  X: -2,
+  Y: -3,
+} as const;
+
+const COSE_KTY_EC2 = 2;
+const COSE_CRV_P256 = 1;
+
+/**
+ * P-256 (secp256r1) 곡선 파라미터
+ * 컨트랙트의 secp256r1.sol / Noir 회로와 동일한 곡선
+ */
+export const P256 = {
+  p: BigInt('0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff'),
+  a: BigInt('0xffffffff00000001000000000000000000000000fffffffffffffffffffffffc'),
+  b: BigInt('0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b'),
+  n: BigInt('0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551'),
+} as const;
+
+/**
+ * 등록 응답에서 추출한 디바이스 공개키
+ * x, y는 DeviceManager.registerDevice(uint256[2]) 및 SessionDelegate(pubKeyX, pubKeyY)에 그대로 사용
+ */
+export interface DevicePublicKey {
+  alg: number;          // COSE 알고리즘 (-7: ES256)
+  x: string;            // 0x 접두사 32바이트 hex
+  y: string;            // 0x 접두사 32바이트 hex
+  credentialId: string; // base64url
+  aaguid: string;       // 8-4-4-4-12 형식 UUID
+}
+
+function toHex(bytes: Uint8Array): string {
+  return '0x' + Buffer.from(bytes).toString('hex');
+}
+
+function formatAaguid(bytes: Uint8Array): string {
+  const hex = Buffer.from(bytes).toString('hex');
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20, 32),
+  ].join('-');
+}
+
+/**
+ * (x, y)가 P-256 곡선 위의 점인지 확인 (y² = x³ + ax + b mod p)
+ */
+export function isOnP256Curve(x: bigint, y: bigint): boolean {
+  const { p, a, b } = P256;
+  if (x <= BigInt(0) || x >= p || y <= BigInt(0) || y >= p) return false;
+  const lhs = (y * y) % p;
+  const rhs = (((x * x) % p) * x + a * x + b) % p;
+  return lhs === rhs;
+}
+
+// COSE_Key는 정수 라벨을 쓰므로 기본 decode(객체 변환) 대신 Map으로 디코딩
+const coseKeyDecoder = new CborDecoder({ mapsAsObjects: false });
+
+/**
+ * COSE_Key (CBOR 맵) 디코딩
+ * EC2/P-256 (ES256) 키만 허용하며, RS256 키는 온체인에서 검증할 수 없으므로 거부
+ */
+export function decodeCoseKey(coseKey: Uint8Array): { alg: number; x: Uint8Array; y: Uint8Array } {
+  const [decoded] = coseKeyDecoder.decodeMultiple(coseKey) as unknown[];
+  if (!(decoded instanceof Map)) {
+    throw new Error('COSE_Key 형식이 올바르지 않습니다');
+  }
+
+  const kty = decoded.get(COSE_KEY.KTY);
+  const alg = decoded.get(COSE_KEY.ALG);
+
+  if (alg === COSE_ALG.RS256) {
+    throw new Error('RS256 키는 지원하지 않습니다 (P-256/ES256 키만 컨트랙트에서 검증 가능)');
+  }
+  if (kty !== COSE_KTY_EC2 || alg !== COSE_ALG.ES256) {
+    throw new Error(`지원하지 않는 COSE 키입니다 (kty: ${kty}, alg: ${alg})`);
+  }
+  if (decoded.get(COSE_KEY.CRV) !== COSE_CRV_P256) {
+    throw new Error('P-256 곡선 키가 아닙니다');
+  }
+
+  const x = decoded.get(COSE_KEY.X);
+  const y = decoded.get(COSE_KEY.Y);
+  if (!(x instanceof Uint8Array) || !(y instanceof Uint8Array) || x.length !== 32 || y.length !== 32) {
+    throw new Error('공개키 좌표 길이가 올바르지 않습니다');
+  }
+  if (!isOnP256Curve(BigInt(toHex(x)), BigInt(toHex(y)))) {
+    throw new Error('공개키가 P-256 곡선 위의 점이 아닙니다');
+  }
+
+  return { alg, x: new Uint8Array(x), y: new Uint8Array(y) };
+}
+
+/**
+ * 컨트랙트/Noir 회로용 raw ECDSA 서명 (r, s 각 32바이트, low-s 정규화)
+ */
+export interface RawSignature {
+  r: string;         // 0x 접두사 32바이트 hex
+  s: string;         // 0x 접두사 32바이트 hex
+  signature: string; // r || s (64바이트, Noir 회로의 signature 입력)
+}
+
+function readDerInteger(der: Uint8Array, offset: number): { value: Uint8Array; next: number } {
+  if (der[offset] !== 0x02) {
+    throw new Error('DER INTEGER 태그가 아닙니다');
+  }
+  const length = der[offset + 1];
+  const start = offset + 2;
+  if (length === 0 || length > 33 || start + length > der.length) {
+    throw new Error('DER INTEGER 길이가 올바르지 않습니다');
+  }
+  const value = der.slice(start, start + length);
+  if (value[0] & 0x80) {
+    throw new Error('DER INTEGER가 음수입니다');
+  }
+  if (length > 1 && value[0] === 0x00 && !(value[1] & 0x80)) {
+    throw new Error('DER INTEGER가 최소 인코딩이 아닙니다');
+  }
+  return { value, next: start + length };
+}
+
+function toUint256Bytes(value: Uint8Array): Uint8Array {
+  let start = 0;
+  while (start < value.length - 1 && value[start] === 0x00) start++;
+  const trimmed = value.slice(start);
+  if (trimmed.length > 32) {
+    throw new Error('서명 값이 32바이트를 초과합니다');
+  }
+  const result = new Uint8Array(32);
+  result.set(trimmed, 32 - trimmed.length);
+  return result;
+}
+
+function bigintToUint256Bytes(value: bigint): Uint8Array {
+  return new Uint8Array(Buffer.from(value.toString(16).padStart(64, '0'), 'hex'));
+}
+
+/**
+ * ASN.1 DER ECDSA 서명 파싱 (SEQUENCE { INTEGER r, INTEGER s })
+ */
+export function parseDerSignature(der: Uint8Array): { r: Uint8Array; s: Uint8Array } {
+  if (der.length < 8 || der[0] !== 0x30) {
+    throw new Error('DER SEQUENCE 형식이 아닙니다');
+  }
+  if (der[1] !== der.length - 2) {
+    throw new Error('DER SEQUENCE 길이가 올바르지 않습니다');
+  }
+  const r = readDerInteger(der, 2);
+  const s = readDerInteger(der, r.next);
+  if (s.next !== der.length) {
+    throw new Error('DER 서명 뒤에 불필요한 데이터가 있습니다');
+  }
+  return { r: toUint256Bytes(r.value), s: toUint256Bytes(s.value) };
+}
+
+/**
+ * s 값을 low-s (s <= n/2) 형태로 정규화
+ */
+export function normalizeLowS(s: Uint8Array): Uint8Array {
+  const value = BigInt(toHex(s));
+  if (value > P256.n / BigInt(2)) {
+    return bigintToUint256Bytes(P256.n - value);
+  }
+  return s;
+}
+
+/**
+ * raw (r, s)를 ASN.1 DER 서명으로 인코딩 (테스트 및 라운드트립 검증용)
+ */
+export function encodeDerSignature(r: Uint8Array, s: Uint8Array): Uint8Array {
+  const encodeInteger = (value: Uint8Array) => {
+    let start = 0;
+    while (start < value.length - 1 && value[start] === 0x00) start++;
+    const trimmed = value.slice(start);
+    const body = trimmed[0] & 0x80 ? [0x00, ...trimmed] : [...trimmed];
+    return [0x02, body.length, ...body];
+  };
+  const sequence = [...encodeInteger(r), ...encodeInteger(s)];
+  return new Uint8Array([0x30, sequence.length, ...sequence]);
+}
+
+/**
+ * WebAuthn DER 서명을 컨트랙트/Noir 회로용 raw 서명으로 변환
+ */
+export function derToRawSignature(der: Uint8Array): RawSignature {
+  const parsed = parseDerSignature(der);
+  const r = parsed.r;
+  const s = normalizeLowS(parsed.s);
+  return {
+    r: toHex(r),
+    s: toHex(s),
+    signature: toHex(new Uint8Array([...r, ...s])),
+  };
+}
+
+/**
+ * authenticator data 플래그 비트 (WebAuthn §6.1)
+ */
+const AUTH_DATA_FLAGS = {
+  UP: 0x01, // User Present
+  UV: 0x04, // User Verified
+  BE: 0x08, // Backup Eligible
+  BS: 0x10, // Backup State
+  AT: 0x40, // Attested credential data 포함
+  ED: 0x80, // Extension data 포함
+} as const;
+
+/**
+ * 파싱된 authenticator data
+ */
+export interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  flags: {
+    userPresent: boolean;
+    userVerified: boolean;
+    backupEligible: boolean;
+    backupState: boolean;
+    attestedCredentialData: boolean;
+    extensionData: boolean;
+    raw: number;
+  };
+  signCount: number;
+  attestedCredentialData?: {
+    aaguid: string;
+    credentialId: Uint8Array;
+    credentialPublicKey: Uint8Array; // COSE_Key (CBOR)
+  };
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * CBOR 데이터 아이템 하나의 바이트 길이 계산 (COSE_Key 뒤의 extension 위치를 찾기 위함)
+ */
+function cborItemLength(data: Uint8Array, offset: number): number {
+  if (offset >= data.length) {
+    throw new Error('CBOR 데이터가 잘렸습니다');
+  }
+  const majorType = data[offset] >> 5;
+  const additional = data[offset] & 0x1f;
+  let headerLength = 1;
+  let argument = additional;
+  if (additional === 24) {
+    argument = data[offset + 1];
+    headerLength = 2;
+  } else if (additional === 25) {
+    argument = (data[offset + 1] << 8) | data[offset + 2];
+    headerLength = 3;
+  } else if (additional === 26) {
+    argument = new DataView(data.buffer, data.byteOffset + offset + 1, 4).getUint32(0);
+    headerLength = 5;
+  } else if (additional === 27) {
+    argument = Number(new DataView(data.buffer, data.byteOffset + offset + 1, 8).getBigUint64(0));
+    headerLength = 9;
+  } else if (additional > 27) {
+    throw new Error('지원하지 않는 CBOR 인코딩입니다 (indefinite length)');
+  }
+
+  switch (majorType) {
+    case 0: // unsigned int
+    case 1: // negative int
+    case 7: // simple / float
+      return headerLength;
+    case 2: // byte string
+    case 3: // text string
+      return headerLength + argument;
+    case 4: { // array
+      let length = headerLength;
+      for (let i = 0; i < argument; i++) length += cborItemLength(data, offset + length);
+      return length;
+    }
+    case 5: { // map
+      let length = headerLength;
+      for (let i = 0; i < argument * 2; i++) length += cborItemLength(data, offset + length);
+      return length;
+    }
+    case 6: // tag
+      return headerLength + cborItemLength(data, offset + headerLength);
+    default:
+      throw new Error('CBOR 형식이 올바르지 않습니다');
+  }
+}
+
+/**
+ * authenticator data 파싱
+ * rpIdHash(32) || flags(1) || signCount(4) || [attestedCredentialData] || [extensions]
+ */
+export function parseAuthenticatorData(authData: Uint8Array): AuthenticatorData {
+  if (authData.length < 37) {
+    throw new Error('authenticator data 길이가 너무 짧습니다');
+  }
+  const view = new DataView(authData.buffer, authData.byteOffset, authData.byteLength);
+  const rawFlags = authData[32];
+  const flags = {
+    userPresent: !!(rawFlags & AUTH_DATA_FLAGS.UP),
+    userVerified: !!(rawFlags & AUTH_DATA_FLAGS.UV),
+    backupEligible: !!(rawFlags & AUTH_DATA_FLAGS.BE),
+    backupState: !!(rawFlags & AUTH_DATA_FLAGS.BS),
+    attestedCredentialData: !!(rawFlags & AUTH_DATA_FLAGS.AT),
+    extensionData: !!(rawFlags & AUTH_DATA_FLAGS.ED),
+    raw: rawFlags,
+  };
+  if (flags.backupState && !flags.backupEligible) {
+    throw new Error('BS 플래그는 BE 플래그 없이 설정될 수 없습니다');
+  }
+
+  const result: AuthenticatorData = {
+    rpIdHash: authData.slice(0, 32),
+    flags,
+    signCount: view.getUint32(33),
+  };
+
+  let offset = 37;
+  if (flags.attestedCredentialData) {
+    if (authData.length < offset + 18) {
+      throw new Error('attested credential data 길이가 올바르지 않습니다');
+    }
+    const aaguid = authData.slice(offset, offset + 16);
+    const credentialIdLength = view.getUint16(offset + 16);
+    offset += 18;
+    const credentialId = authData.slice(offset, offset + credentialIdLength);
+    offset += credentialIdLength;
+    const publicKeyLength = cborItemLength(authData, offset);
+    result.attestedCredentialData = {
+      aaguid: formatAaguid(aaguid),
+      credentialId,
+      credentialPublicKey: authData.slice(offset, offset + publicKeyLength),
+    };
+    offset += publicKeyLength;
+  }
+
+  if (flags.extensionData) {
+    const extensionsLength = cborItemLength(authData, offset);
+    result.extensions = cborDecode(authData.slice(offset, offset + extensionsLength));
+    offset += extensionsLength;
+  }
+
+  if (offset !== authData.length) {
+    throw new Error('authenticator data 뒤에 불필요한 데이터가 있습니다');
+  }
+  return result;
+}
+
+/**
+ * authenticator data 검증
+ * rpIdHash가 설정된 RP ID와 일치하는지, UV(사용자 검증)가 실제로 수행되었는지 확인
+ */
+export async function verifyAuthenticatorData(
+  authData: Uint8Array,
+  options: { rpId?: string; requireUserVerification?: boolean } = {}
+): Promise<AuthenticatorData> {
+  const { rpId = getRpId(), requireUserVerification = true } = options;
+  const parsed = parseAuthenticatorData(authData);
+
+  const expectedRpIdHash = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(rpId))
+  );
+  if (!parsed.rpIdHash.every((byte, i) => byte === expectedRpIdHash[i])) {
+    throw new Error(`rpIdHash가 RP ID(${rpId})와 일치하지 않습니다`);
+  }
+  if (!parsed.flags.userPresent) {
+    throw new Error('사용자 존재(UP)가 확인되지 않았습니다');
+  }
+  if (requireUserVerification && !parsed.flags.userVerified) {
+    throw new Error('사용자 검증(UV)이 수행되지 않았습니다');
+  }
+  return parsed;
+}
+
 /**
  * 공개키 추출 (등록 응답에서)
  */
-export function extractPublicKeyFromRegistration(response: RegistrationResponseJSON): string {
+export function extractPublicKeyFromRegistration(response: RegistrationResponseJSON): DevicePublicKey {
   try {
     // attestationObject를 디코딩하여 공개키 추출
     const attestationObjectBuffer = base64url.toBuffer(response.response.attestationObject);
     const decoded = cborDecode(attestationObjectBuffer);
     
-    if (decoded.authData) {
-      const authData = new Uint8Array(decoded.authData);
-      // 공개키는 authData의 끝부분에 있음 (CBOR 인코딩됨)
-      const credentialDataStart = 37 + 16 + 2; // rpIdHash(32) + flags(1) + counter(4) + aaguid(16) + credIdLen(2)
-      const credentialIdLength = new DataView(authData.buffer, 53, 2).getUint16(0);
-      const publicKeyStart = credentialDataStart + credentialIdLength;
-      const publicKeyData = authData.slice(publicKeyStart);
+    const attestedCredentialData = decoded.authData
+      ? parseAuthenticatorData(new Uint8Array(decoded.authData)).attestedCredentialData
+      : undefined;
+    
+    if (attestedCredentialData) {
+      const { alg, x, y } = decodeCoseKey(attestedCredentialData.credentialPublicKey);
       
-      return '0x' + Buffer.from(publicKeyData).toString('hex');
+      return {
+        alg,
+        x: toHex(x),
+        y: toHex(y),
+        credentialId: base64url.encode(Buffer.from(attestedCredentialData.credentialId)),
+        aaguid: attestedCredentialData.aaguid,
+      };
     }
     
     throw new Error('공개키를 찾을 수 없습니다');
   } catch (error) {
     console.error('공개키 추출 실패:', error);
-    throw new Error('공개키 추출에 실패했습니다');
+    throw new Error('공개키 추출에 실패했습니다: ' + (error as Error).message);
   }
 }
 
+/**
+ * 공개키를 컨트랙트 uint256[2] 형태로 변환
+ */
+export function publicKeyToUint256Pair(publicKey: Pick<DevicePublicKey, 'x' | 'y'>): [bigint, bigint] {
+  return [BigInt(publicKey.x), BigInt(publicKey.y)];
+}
+
 /**
  * 디바이스 ID 생성 (credential ID를 해시하여 생성)
  */
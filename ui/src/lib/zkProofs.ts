@@ -1,6 +1,10 @@
 // ZK Proofs for AuthDevice7702 Model (Option 4)
-import CryptoJS from 'crypto-js';
 import { ethers } from 'ethers';
+import { lockSessionKey, unlockSessionKey } from './keystore';
+import type { InputMap } from '@noir-lang/noir_js';
+import { buildWebAuthnCircuitInputs, decodePublicInputs, type DecodedPublicInputs } from './circuitInputs';
+import { getProverConfig, prove, type ProveOptions } from './noirProver';
+import { CIRCUIT_VERIFICATION_KEYS, verifyWithVerificationKey } from './noirVerifier';
 
 /**
  * ZK Proof 타입 정의
@@ -21,8 +25,8 @@ export interface SessionStartProof extends ZKProof {
 }
 
 /**
- * WebAuthn P-256 서명을 ZK proof로 변환하는 모의 함수
- * 실제 구현에서는 Noir 회로를 사용해야 합니다
+ * 디바이스 등록 proof 생성 (noir-webauthn 회로, Web Worker에서 실행)
+ * devicePubKey는 0x || x || y (64바이트), 서명은 새 credential로 받은 소유 증명 assertion
  */
 export async function generateDeviceRegistrationProof(
   devicePubKey: string,
@@ -31,31 +35,28 @@ export async function generateDeviceRegistrationProof(
     s: string;
     clientDataJSON: string;
     authenticatorData: string;
-  }
+  },
+  options?: ProveOptions
 ): Promise<DeviceRegistrationProof> {
   console.log('🔄 ZK Proof 생성 중 (디바이스 등록)...', {
     devicePubKey,
     signature: webAuthnSignature
   });
 
-  // 실제 구현에서는 Noir.js를 사용
-  // const noir = new Noir(deviceRegistrationCircuit);
-  // const proof = await noir.generateProof(inputs);
-  
-  // 모의 ZK proof 생성 (데모용)
-  const mockProof = await generateMockZKProof('device_registration', {
-    pubKey: devicePubKey,
-    r: webAuthnSignature.r,
-    s: webAuthnSignature.s,
-    clientData: webAuthnSignature.clientDataJSON,
-    authData: webAuthnSignature.authenticatorData
+  const inputs = buildWebAuthnCircuitInputs({
+    authenticatorData: webAuthnSignature.authenticatorData,
+    clientDataJSON: webAuthnSignature.clientDataJSON,
+    signature: ethers.concat([webAuthnSignature.r, webAuthnSignature.s]),
+    pubKeyX: ethers.dataSlice(devicePubKey, 0, 32),
+    pubKeyY: ethers.dataSlice(devicePubKey, 32, 64)
   });
+  const proof = await proveWithLogging('device_registration', inputs, options);
 
   // 디바이스 ID 생성 (pubKey 해시)
   const deviceId = ethers.keccak256(ethers.toUtf8Bytes(devicePubKey));
 
   return {
-    ...mockProof,
+    ...proof,
     devicePubKey,
     deviceId
   };
@@ -63,6 +64,7 @@ export async function generateDeviceRegistrationProof(
 
 /**
  * 세션 시작을 위한 ZK proof 생성
+ * 세션 공개키는 startSession 챌린지에 포함되므로 회로의 challenge 검사로 바인딩됨
  */
 export async function generateSessionStartProof(
   sessionPubKey: string,
@@ -70,162 +72,93 @@ export async function generateSessionStartProof(
     r: string;
     s: string;
     challenge: string;
+    clientDataJSON: string;
+    authenticatorData: string;
   },
-  deviceId: string
+  device: {
+    id: string;
+    pubKeyX: string;
+    pubKeyY: string;
+  },
+  options?: ProveOptions
 ): Promise<SessionStartProof> {
   console.log('🔄 ZK Proof 생성 중 (세션 시작)...', {
     sessionPubKey,
     touchSignature,
-    deviceId
+    deviceId: device.id
   });
 
-  // 모의 ZK proof 생성 (데모용)
-  const mockProof = await generateMockZKProof('session_start', {
-    sessionPubKey,
-    touchR: touchSignature.r,
-    touchS: touchSignature.s,
-    challenge: touchSignature.challenge,
-    deviceId
+  const inputs = buildWebAuthnCircuitInputs({
+    authenticatorData: touchSignature.authenticatorData,
+    clientDataJSON: touchSignature.clientDataJSON,
+    signature: ethers.concat([touchSignature.r, touchSignature.s]),
+    pubKeyX: device.pubKeyX,
+    pubKeyY: device.pubKeyY
   });
+  const proof = await proveWithLogging('session_start', inputs, options);
 
   return {
-    ...mockProof,
+    ...proof,
     sessionPubKey,
     touchSignature: JSON.stringify(touchSignature)
   };
 }
 
-/**
- * 모의 ZK proof 생성 함수 (데모용)
- * 실제로는 Noir 회로를 사용해야 합니다
- */
-async function generateMockZKProof(
+async function proveWithLogging(
   circuitType: string,
-  inputs: Record<string, unknown>
+  inputs: InputMap,
+  options?: ProveOptions
 ): Promise<ZKProof> {
-  // 모의 처리 시간 (실제 ZK proof 생성 시간 시뮬레이션)
-  await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 1000));
-
-  // 입력값을 해시하여 결정론적 proof 생성
-  const inputHash = ethers.keccak256(
-    ethers.toUtf8Bytes(JSON.stringify({ circuitType, inputs }))
-  );
-
-  // 모의 proof와 public inputs
-  const proof = `0x${inputHash.slice(2)}${'0'.repeat(1000)}`.slice(0, 1002); // 500바이트 proof
-  const publicInputs = [
-    inputHash,
-    ethers.keccak256(ethers.toUtf8Bytes(circuitType)),
-    ethers.keccak256(ethers.toUtf8Bytes(Date.now().toString()))
-  ];
+  const startedAt = Date.now();
+  const { mode } = getProverConfig();
+  const proof = await prove(inputs, {
+    ...options,
+    onProgress: stage => {
+      console.log(`⏳ ZK Proof ${circuitType}: ${stage}`);
+      options?.onProgress?.(stage);
+    }
+  });
 
   console.log('✅ ZK Proof 생성 완료:', {
     circuitType,
-    proofLength: proof.length,
-    publicInputsCount: publicInputs.length
-  });
-
-  return {
-    proof,
-    publicInputs
-  };
-}
-
-/**
- * AES-암호화된 세션 키 생성
- * Touch ID로 해제 가능한 암호화 방식
- */
-export function createEncryptedSessionKey(
-  touchSignature: string,
-  sessionPrivateKey: string
-): {
-  encryptedKey: string;
-  keyId: string;
-} {
-  // Touch signature를 키 유도 함수의 입력으로 사용
-  const touchHash = ethers.keccak256(ethers.toUtf8Bytes(touchSignature));
-  const derivedKey = CryptoJS.PBKDF2(touchHash, 'AuthDevice7702Salt', {
-    keySize: 256 / 32,
-    iterations: 10000
-  });
-
-  // 세션 개인키 AES-GCM 암호화
-  const encryptedKey = CryptoJS.AES.encrypt(sessionPrivateKey, derivedKey.toString()).toString();
-  
-  // 키 ID 생성 (공개키에서 유도)
-  const sessionWallet = new ethers.Wallet(sessionPrivateKey);
-  const keyId = ethers.keccak256(ethers.toUtf8Bytes(sessionWallet.address));
-
-  console.log('🔐 세션 키 암호화 완료:', {
-    keyId,
-    encryptedLength: encryptedKey.length
+    prover: mode,
+    proofLength: proof.proof.length,
+    publicInputsCount: proof.publicInputs.length,
+    elapsedMs: Date.now() - startedAt
   });
-
-  return {
-    encryptedKey,
-    keyId
-  };
-}
-
-/**
- * Touch ID로 세션 키 해제
- */
-export function decryptSessionKey(
-  encryptedKey: string,
-  touchSignature: string
-): string {
-  try {
-    // 동일한 키 유도 과정
-    const touchHash = ethers.keccak256(ethers.toUtf8Bytes(touchSignature));
-    const derivedKey = CryptoJS.PBKDF2(touchHash, 'AuthDevice7702Salt', {
-      keySize: 256 / 32,
-      iterations: 10000
-    });
-
-    // 복호화
-    const decryptedBytes = CryptoJS.AES.decrypt(encryptedKey, derivedKey.toString());
-    const sessionPrivateKey = decryptedBytes.toString(CryptoJS.enc.Utf8);
-
-    if (!sessionPrivateKey) {
-      throw new Error('복호화 실패 - 잘못된 Touch 서명');
-    }
-
-    console.log('🔓 세션 키 복호화 성공');
-    return sessionPrivateKey;
-  } catch (error) {
-    console.error('❌ 세션 키 복호화 실패:', error);
-    throw new Error('Touch ID 인증이 일치하지 않습니다');
-  }
+  return proof;
 }
 
 /**
  * Touch-to-Sign: 매 트랜잭션마다 Touch ID로 서명
+ * encryptionSecret은 세션별 salt에 대한 WebAuthn PRF 출력 (미지원 인증기는 사용자 passphrase)
  */
 export async function touchToSignTransaction(
   transactionData: string,
-  encryptedSessionKey: string,
-  touchSignature: string
+  sessionId: string,
+  encryptionSecret: string
 ): Promise<{
   signature: string;
   sessionAddress: string;
 }> {
   console.log('👆 Touch-to-Sign 시작...', {
     txDataLength: transactionData.length,
-    hasEncryptedKey: !!encryptedSessionKey,
-    hasTouchSig: !!touchSignature
+    sessionId,
+    hasEncryptionSecret: !!encryptionSecret
   });
 
   try {
-    // 1. Touch ID로 세션 키 해제
-    const sessionPrivateKey = decryptSessionKey(encryptedSessionKey, touchSignature);
+    // 1. Touch ID(PRF 출력)로 키스토어의 세션 키 해제
+    const sessionPrivateKey = await unlockSessionKey(sessionId, encryptionSecret);
     
     // 2. 세션 키로 트랜잭션 서명
     const sessionWallet = new ethers.Wallet(sessionPrivateKey);
     const txHash = ethers.keccak256(ethers.toUtf8Bytes(transactionData));
     const signature = await sessionWallet.signMessage(ethers.getBytes(txHash));
 
-    // 3. 메모리에서 키 즉시 제거 (보안)
+    // 3. 메모리에서 키 즉시 제거 (보안) - 다음 트랜잭션도 다시 Touch 필요
     // Note: JavaScript에서 메모리 덮어쓰기는 완전하지 않음
+    lockSessionKey(sessionId);
 
     console.log('✅ Touch-to-Sign 완료:', {
       sessionAddress: sessionWallet.address,
@@ -243,78 +176,62 @@ export async function touchToSignTransaction(
 }
 
 /**
- * EIP-7702 Authorization 생성
+ * vkey 해시가 고정되지 않아 검증할 수 없을 때 보여줄 설정 안내 (ui/README 참고)
  */
-export async function createEIP7702Authorization(
-  contractAddress: string,
-  nonce: number,
-  chainId: number,
-  signer: ethers.Wallet
-): Promise<{
-  authorization: {
-    chainId: number;
-    address: string;
-    nonce: number;
-  };
-  signature: string;
-}> {
-  // EIP-7702 Authorization 구조
-  const authorization = {
-    chainId,
-    address: contractAddress,
-    nonce
-  };
-
-  // Authorization 서명 (EIP-7702 형식)
-  const domain = {
-    name: 'AuthDevice7702',
-    version: '1',
-    chainId
-  };
-
-  const types = {
-    Authorization: [
-      { name: 'chainId', type: 'uint256' },
-      { name: 'address', type: 'address' },
-      { name: 'nonce', type: 'uint256' }
-    ]
-  };
-
-  const signature = await signer.signTypedData(domain, types, authorization);
-
-  console.log('📝 EIP-7702 Authorization 생성:', {
-    authorization,
-    signature: signature.slice(0, 20) + '...'
-  });
-
-  return {
-    authorization,
-    signature
-  };
+export const UNPINNED_VERIFICATION_KEY_MESSAGE =
+  'Verification key not pinned - run `bun cli.ts export-vkey` in noir-webauthn/prover, then `npm run circuit:copy` in ui';
+
+export interface ProofVerificationResult {
+  valid: boolean;
+  circuitId: string;
+  publicInputs: DecodedPublicInputs;
+  vkeyPinned: boolean; // false면 circuitVerificationKeys.json에 vkey 해시가 없어 proof를 검증하지 않음
+  reason?: string;
 }
 
 /**
- * ZK proof 검증 (온체인 검증 시뮬레이션)
+ * ZK proof 오프체인 검증 (Barretenberg + 내보낸 verification key)
+ * 트랜잭션 전송 전에 proof와 공개 입력(identity, challenge)을 확인
  */
 export async function verifyZKProofOffchain(
   proof: ZKProof,
-  expectedInputs: string[]
-): Promise<boolean> {
+  expected: {
+    identity?: string;
+    challenge?: string;
+  } = {}
+): Promise<ProofVerificationResult> {
   console.log('🔍 ZK Proof 검증 중...', {
     proofLength: proof.proof.length,
     publicInputsCount: proof.publicInputs.length,
-    expectedInputsCount: expectedInputs.length
+    expected
   });
 
-  // 모의 검증 (실제로는 온체인에서 Plonk/Groth16 검증)
-  await new Promise(resolve => setTimeout(resolve, 800));
+  const publicInputs = decodePublicInputs(proof.publicInputs);
+  const verificationKey = CIRCUIT_VERIFICATION_KEYS[publicInputs.version];
+  if (!verificationKey) {
+    throw new Error(`지원하지 않는 회로 버전입니다: ${publicInputs.version}`);
+  }
+  const result: ProofVerificationResult = {
+    valid: false,
+    circuitId: verificationKey.circuitId,
+    publicInputs,
+    vkeyPinned: !!verificationKey.vkeyHash
+  };
 
-  // 간단한 검증: public inputs가 예상값과 일치하는지 확인
-  const isValid = proof.publicInputs.length === expectedInputs.length &&
-                  proof.publicInputs.every((input, index) => 
-                    input === expectedInputs[index]
-                  );
+  if (!publicInputs.success) {
+    result.reason = '회로가 서명 검증 실패(success = false)를 증명했습니다';
+  } else if (expected.identity && publicInputs.identity !== expected.identity.toLowerCase()) {
+    result.reason = `identity 불일치 (${publicInputs.identity})`;
+  } else if (expected.challenge && publicInputs.challenge !== expected.challenge) {
+    result.reason = `challenge 불일치 (${publicInputs.challenge})`;
+  } else if (!result.vkeyPinned) {
+    result.reason = `${verificationKey.circuitId}의 vkey 해시가 고정되지 않아 proof를 검증할 수 없습니다 - noir-webauthn/prover에서 bun cli.ts export-vkey 실행 후 npm run circuit:copy`;
+  } else if (!(await verifyWithVerificationKey(proof, publicInputs.version))) {
+    result.reason = 'Barretenberg proof 검증 실패';
+  } else {
+    result.valid = true;
+  }
 
-  console.log(isValid ? '✅ ZK Proof 검증 성공' : '❌ ZK Proof 검증 실패');
-  return isValid;
-} 
\ No newline at end of file
+  console.log(result.valid ? '✅ ZK Proof 검증 성공' : '❌ ZK Proof 검증 실패', result);
+  return result;
+}
@@ -0,0 +1,50 @@
+// Web Worker running the noir-webauthn circuit with noir_js + Barretenberg
+import { Noir } from '@noir-lang/noir_js';
+import { BarretenbergBackend, type CompiledCircuit } from '@noir-lang/backend_barretenberg';
+import type { ProverRequest, ProverResponse } from '@/lib/noirProver';
+
+let circuitPromise: Promise<{ noir: Noir; backend: BarretenbergBackend }> | null = null;
+
+function post(message: ProverResponse) {
+  self.postMessage(message);
+}
+
+/**
+ * 컴파일된 회로(webauthn.json)는 한 번만 로드하여 재사용
+ */
+function loadCircuit(circuitUrl: string) {
+  if (!circuitPromise) {
+    circuitPromise = (async () => {
+      const response = await fetch(circuitUrl);
+      if (!response.ok) {
+        throw new Error(`회로 아티팩트를 불러올 수 없습니다 (${circuitUrl}: ${response.status})`);
+      }
+      const circuit = (await response.json()) as CompiledCircuit;
+      // 멀티스레드는 SharedArrayBuffer(cross-origin isolation)가 있을 때만 가능
+      const threads = self.crossOriginIsolated ? navigator.hardwareConcurrency || 1 : 1;
+      return { noir: new Noir(circuit), backend: new BarretenbergBackend(circuit, { threads }) };
+    })();
+    circuitPromise.catch(() => {
+      circuitPromise = null;
+    });
+  }
+  return circuitPromise;
+}
+
+self.onmessage = async (event: MessageEvent<ProverRequest>) => {
+  const { id, circuitUrl, inputs } = event.data;
+  try {
+    post({ id, type: 'progress', stage: 'loading-circuit' });
+    const { noir, backend } = await loadCircuit(circuitUrl);
+
+    post({ id, type: 'progress', stage: 'executing' });
+    const { witness } = await noir.execute(inputs);
+
+    post({ id, type: 'progress', stage: 'proving' });
+    const { proof, publicInputs } = await backend.generateProof(witness);
+
+    post({ id, type: 'result', proof, publicInputs });
+  } catch (error) {
+    post({ id, type: 'error', message: (error as Error).message });
+  }
+};